@@ -1,14 +1,28 @@
-import { useState, useEffect, useRef } from 'react';
-import { Music, GitCompare } from 'lucide-react';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Music, GitCompare, X } from 'lucide-react';
 import { fetchDataset } from './utils/neurofinderFetcher';
-import { framesToCalciumDataset } from './utils/calciumExtraction';
+import { framesToCalciumDataset, resolveFps } from './utils/calciumExtraction';
+import { extractDatasetInWorker, extractStackInWorker, isWorkerPoolSupported } from './utils/workerPool';
+import { createTIFFFrameSource } from './utils/frameSource';
+import {
+  getCachedDataset,
+  getCachedFrames,
+  processingKey,
+  putCachedDataset,
+  putCachedFrames
+} from './utils/datasetCache';
+import { importDatasetFromFiles } from './utils/traceImporters';
 import { mergeDatasetMetadata } from './utils/loadDatasetMetadata';
+import { DEFAULT_TRACE_PROCESSING, TraceProcessingOptions } from './utils/traceProcessing';
+import { applyMotionCorrection, DEFAULT_MOTION_CORRECTION, MotionCorrectionOptions } from './utils/motionCorrection';
+import { DEFAULT_SEGMENTATION, SegmentationOptions } from './utils/roiSegmentation';
 import { CalciumDataset } from './types';
 import { DatasetInfo } from './utils/datasetLoader';
 import CalciumSonification from './components/CalciumSonification';
 import MusicalSonification from './components/MusicalSonification';
 import DatasetComparison from './components/DatasetComparison';
 import DatasetSelector from './components/DatasetSelector';
+import SegmentationScorePanel from './components/SegmentationScorePanel';
 import LandingPage from './components/LandingPage';
 import AboutPage from './components/AboutPage';
 import Header from './components/Header';
@@ -19,6 +33,10 @@ function App() {
   const [datasets, setDatasets] = useState<CalciumDataset[]>([]);
   const [activeDatasetIndex, setActiveDatasetIndex] = useState<number | null>(null);
   const [datasetMetadata, setDatasetMetadata] = useState<Map<string, DatasetInfo>>(new Map());
+  const [fpsOverride, setFpsOverride] = useState<number | null>(null); // Hz, null = use dataset metadata
+  const [traceProcessing, setTraceProcessing] = useState<TraceProcessingOptions>(DEFAULT_TRACE_PROCESSING);
+  const [motionCorrection, setMotionCorrection] = useState<MotionCorrectionOptions>(DEFAULT_MOTION_CORRECTION);
+  const [segmentation, setSegmentation] = useState<SegmentationOptions>(DEFAULT_SEGMENTATION);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'single' | 'compare'>('single');
@@ -26,6 +44,7 @@ function App() {
   const [progress, setProgress] = useState({ value: 0, message: '' });
   const [loadedDatasetIds, setLoadedDatasetIds] = useState<string[]>([]);
   const [shouldPause, setShouldPause] = useState(0); // Counter to trigger pause in child components
+  const loadAbortRef = useRef<AbortController | null>(null); // Cancels the in-flight dataset load
   const prevSonificationModeRef = useRef<'spike' | 'musical'>('spike');
   const prevViewModeRef = useRef<'single' | 'compare'>('single');
 
@@ -91,25 +110,47 @@ function App() {
   }, []);
 
   const handleDatasetSelect = async (datasetInfo: DatasetInfo) => {
-    // Check if already loaded
+    // Check if already loaded with the current settings; other settings load alongside for comparison
     if (loadedDatasetIds.includes(datasetInfo.id)) {
-      const existingIndex = datasets.findIndex(d => d.datasetName === datasetInfo.name);
+      // Detection settings don't matter when the dataset's own regions were used
+      const existingIndex = datasets.findIndex(d =>
+        d.datasetId === datasetInfo.id
+        && processingKey(d) === processingKey({
+          fps: fpsOverride ?? d.fps,
+          traceProcessing,
+          motionCorrection,
+          segmentation: d.segmentation || segmentation.ignoreRegions ? segmentation : undefined
+        })
+      );
       if (existingIndex !== -1) {
         setActiveDatasetIndex(existingIndex);
         return;
       }
     }
 
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+
     setIsLoading(true);
     setError(null);
     setProgress({ value: 0, message: 'Starting download...' });
 
     try {
-      // Fetch the dataset
-      const { frames, regions, metadata } = await fetchDataset(
-        datasetInfo.id,
-        (value, message) => setProgress({ value, message })
-      );
+      // Decoded frames from the local cache, otherwise fetch and cache them
+      let cachedFrames = await getCachedFrames(datasetInfo.id);
+      if (cachedFrames) {
+        setProgress({ value: 100, message: 'Loaded frames from local cache' });
+      } else {
+        cachedFrames = await fetchDataset(
+          datasetInfo.id,
+          (value, message) => setProgress({ value, message }),
+          controller.signal
+        );
+        setProgress({ value: 100, message: 'Caching decoded frames...' });
+        await putCachedFrames(datasetInfo.id, cachedFrames);
+      }
+      const { frames, regions, metadata } = cachedFrames;
 
       // Merge metadata from ZIP with hardcoded info (metadata takes precedence)
       const mergedInfo = mergeDatasetMetadata(datasetInfo, metadata || null);
@@ -121,30 +162,175 @@ function App() {
         return updated;
       });
 
-      // Convert to calcium dataset
-      const dataset = await framesToCalciumDataset(
-        frames,
-        regions,
-        {
-          datasetName: mergedInfo.name,
-          region: mergedInfo.region,
-          condition: mergedInfo.condition
+      // Convert to calcium dataset at the acquisition rate (user override wins)
+      // ROI detection and trace extraction run in a worker when available
+      const datasetFields = {
+        datasetName: mergedInfo.name,
+        region: mergedInfo.region,
+        condition: mergedInfo.condition
+      };
+      const conversionOptions = {
+        fps: resolveFps(fpsOverride ?? mergedInfo.rateHz),
+        traceProcessing,
+        motionCorrection,
+        segmentation
+      };
+      // Detection settings only shape datasets without regions of their own, as in the dataset's key
+      const usesRegions = regions && regions.length > 0 && !segmentation.ignoreRegions;
+      const paramsKey = processingKey({
+        ...conversionOptions,
+        segmentation: usesRegions ? undefined : segmentation
+      });
+      const onExtractProgress = (value: number, message: string) => setProgress({ value, message });
+
+      let dataset: CalciumDataset;
+      const cachedDataset = await getCachedDataset(datasetInfo.id, paramsKey);
+      if (cachedDataset) {
+        // Cached frames are raw; re-apply the stored shifts so the background stays stabilized
+        if (cachedDataset.motionCorrection) {
+          setProgress({ value: 100, message: 'Applying motion correction...' });
         }
-      );
+        const frameImages = cachedDataset.motionCorrection
+          ? applyMotionCorrection(frames, cachedDataset.motionCorrection)
+          : frames;
+        dataset = { ...cachedDataset, frameImages };
+      } else {
+        const extractOnMainThread = (source: typeof frames) => framesToCalciumDataset(source, regions, datasetFields, {
+          ...conversionOptions,
+          onProgress: onExtractProgress
+        });
+        let extracted: CalciumDataset;
+        if (isWorkerPoolSupported()) {
+          try {
+            extracted = await extractDatasetInWorker(frames, regions, datasetFields, conversionOptions, {
+              onProgress: onExtractProgress,
+              signal: controller.signal
+            });
+          } catch (workerError) {
+            if (controller.signal.aborted) throw workerError;
+            // The worker took the frame buffers with it; read them back from the cache
+            const reloaded = await getCachedFrames(datasetInfo.id);
+            if (!reloaded) throw workerError;
+            console.warn('Worker extraction failed, extracting on the main thread:', workerError);
+            extracted = await extractOnMainThread(reloaded.frames);
+          }
+        } else {
+          extracted = await extractOnMainThread(frames);
+        }
+        dataset = { ...extracted, datasetId: datasetInfo.id };
+        await putCachedDataset(datasetInfo.id, paramsKey, dataset);
+      }
 
       setDatasets(prev => [...prev, dataset]);
       setActiveDatasetIndex(datasets.length);
       setLoadedDatasetIds(prev => [...prev, datasetInfo.id]);
     } catch (err) {
+      if (controller.signal.aborted) return; // Cancelled by the user or superseded by another load
       const errorMessage = err instanceof Error ? err.message : 'Failed to load dataset';
       setError(errorMessage);
       console.error('Error loading dataset:', err);
     } finally {
-      setIsLoading(false);
-      setProgress({ value: 0, message: '' });
+      if (loadAbortRef.current === controller) {
+        loadAbortRef.current = null;
+        setIsLoading(false);
+        setProgress({ value: 0, message: '' });
+      }
     }
   };
 
+  // Recordings of any length stream page by page through ROI detection and extraction
+  const handleTiffImport = async (tiffFiles: File[], regionsFile?: File) => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+
+    setIsLoading(true);
+    setError(null);
+    setProgress({ value: 0, message: 'Reading TIFF headers...' });
+
+    try {
+      const regions = regionsFile ? JSON.parse(await regionsFile.text()) : undefined;
+      const datasetFields = {
+        datasetName: tiffFiles.length === 1 ? tiffFiles[0].name.replace(/\.tiff?$/i, '') : `${tiffFiles.length} TIFF files`
+      };
+      const conversionOptions = {
+        fps: resolveFps(fpsOverride ?? undefined),
+        traceProcessing,
+        motionCorrection,
+        segmentation
+      };
+      const onExtractProgress = (value: number, message: string) => setProgress({ value, message });
+      const extractOnMainThread = async () => framesToCalciumDataset(
+        await createTIFFFrameSource(tiffFiles, controller.signal),
+        regions,
+        datasetFields,
+        { ...conversionOptions, onProgress: onExtractProgress, signal: controller.signal }
+      );
+
+      let dataset: CalciumDataset;
+      if (isWorkerPoolSupported()) {
+        try {
+          dataset = await extractStackInWorker(tiffFiles, regions, datasetFields, conversionOptions, {
+            onProgress: onExtractProgress,
+            signal: controller.signal
+          });
+        } catch (workerError) {
+          if (controller.signal.aborted) throw workerError;
+          console.warn('Worker extraction failed, extracting on the main thread:', workerError);
+          dataset = await extractOnMainThread();
+        }
+      } else {
+        dataset = await extractOnMainThread();
+      }
+
+      setDatasets(prev => [...prev, dataset]);
+      setActiveDatasetIndex(datasets.length);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import TIFF recording';
+      setError(errorMessage);
+      console.error('Error importing TIFF recording:', err);
+    } finally {
+      if (loadAbortRef.current === controller) {
+        loadAbortRef.current = null;
+        setIsLoading(false);
+        setProgress({ value: 0, message: '' });
+      }
+    }
+  };
+
+  // Suite2p / CSV exports are already segmented, so they skip download and extraction
+  const handleFilesImport = async (files: File[]) => {
+    const tiffFiles = files.filter(file => /\.tiff?$/i.test(file.name));
+    if (tiffFiles.length > 0) {
+      await handleTiffImport(tiffFiles, files.find(file => /\.json$/i.test(file.name)));
+      return;
+    }
+
+    setError(null);
+    try {
+      const dataset = await importDatasetFromFiles(files, {
+        fps: fpsOverride ?? undefined,
+        traceProcessing
+      });
+      setDatasets(prev => [...prev, dataset]);
+      setActiveDatasetIndex(datasets.length);
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import traces';
+      setError(errorMessage);
+      console.error('Error importing traces:', err);
+    }
+  };
+
+  // ROI edits replace the active dataset; the editor keeps its own undo history
+  const handleDatasetEdit = useCallback((edited: CalciumDataset) => {
+    setDatasets(prev => prev.map((dataset, index) => (index === activeDatasetIndex ? edited : dataset)));
+  }, [activeDatasetIndex]);
+
+  const handleCancelLoad = () => {
+    loadAbortRef.current?.abort();
+  };
+
   // Show landing page first
   if (showLanding) {
     return <LandingPage onEnter={handleEnterApp} onNavigateToLanding={handleNavigateToLanding} />;
@@ -182,6 +368,15 @@ function App() {
               isLoading={isLoading}
               loadedDatasets={loadedDatasetIds}
               datasetMetadata={datasetMetadata}
+              fpsOverride={fpsOverride}
+              onFpsOverrideChange={setFpsOverride}
+              traceProcessing={traceProcessing}
+              onTraceProcessingChange={setTraceProcessing}
+              motionCorrection={motionCorrection}
+              onMotionCorrectionChange={setMotionCorrection}
+              segmentation={segmentation}
+              onSegmentationChange={setSegmentation}
+              onFilesImport={handleFilesImport}
             />
           </div>
 
@@ -190,7 +385,17 @@ function App() {
             <div className="bg-amber-900/20 border rounded-lg p-6 mb-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
               <div className="mb-2 flex items-center justify-between">
                 <span className="text-amber-200">{progress.message}</span>
-                <span className="text-amber-300">{Math.round(progress.value)}%</span>
+                <span className="flex items-center gap-3">
+                  <span className="text-amber-300">{Math.round(progress.value)}%</span>
+                  <button
+                    onClick={handleCancelLoad}
+                    className="text-amber-300 hover:text-amber-200 transition-colors"
+                    title="Cancel loading"
+                    aria-label="Cancel loading"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </span>
               </div>
               <div className="w-full bg-white/20 rounded-full h-3">
                 <div
@@ -380,6 +585,13 @@ function App() {
                   </button>
                 ))}
               </div>
+
+              {/* Detection accuracy against ground truth */}
+              <SegmentationScorePanel
+                datasets={datasets}
+                activeIndex={activeDatasetIndex}
+                onSelect={setActiveDatasetIndex}
+              />
             </div>
           )}
 
@@ -395,9 +607,9 @@ function App() {
             />
           ) : activeDataset ? (
             sonificationMode === 'musical' ? (
-              <MusicalSonification dataset={activeDataset} shouldPause={shouldPause} />
+              <MusicalSonification dataset={activeDataset} shouldPause={shouldPause} onDatasetChange={handleDatasetEdit} />
             ) : (
-              <CalciumSonification dataset={activeDataset} />
+              <CalciumSonification dataset={activeDataset} onDatasetChange={handleDatasetEdit} />
             )
           ) : null}
         </div>
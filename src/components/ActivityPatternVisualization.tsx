@@ -2,6 +2,7 @@ import { useMemo, memo, useState } from 'react';
 import { Info } from 'lucide-react';
 import { CalciumDataset } from '../types';
 import { Cluster } from '../utils/clustering';
+import { computeActivitySeries } from '../utils/activitySeries';
 
 interface ActivityPatternVisualizationProps {
   dataset: CalciumDataset;
@@ -23,61 +24,10 @@ const ActivityPatternVisualization = memo(function ActivityPatternVisualization(
   const [showInfo, setShowInfo] = useState(false);
   
   // Calculate activity patterns over time
-  const activityPatterns = useMemo(() => {
-    if (clusters && clusters.length > 0) {
-      // Show cluster-level activity over time
-      const patterns = clusters.map((cluster, clusterIdx) => {
-        const clusterActivity: number[] = [];
-        
-        // For each frame, calculate average activity of neurons in this cluster
-        for (let frame = 0; frame < dataset.frames; frame++) {
-          let totalActivity = 0;
-          let count = 0;
-          
-          cluster.neurons.forEach(neuronIdx => {
-            const neuron = dataset.neurons[neuronIdx];
-            if (neuron.trace && frame < neuron.trace.length) {
-              totalActivity += neuron.trace[frame] || 0;
-              count++;
-            }
-          });
-          
-          clusterActivity.push(count > 0 ? totalActivity / count : 0);
-        }
-        
-        return {
-          clusterIdx,
-          activity: clusterActivity,
-          name: `Cluster ${clusterIdx + 1}`
-        };
-      });
-      
-      return patterns;
-    } else {
-      // If no clusters, show overall activity pattern
-      const overallActivity: number[] = [];
-      
-      for (let frame = 0; frame < dataset.frames; frame++) {
-        let totalActivity = 0;
-        let count = 0;
-        
-        dataset.neurons.forEach(neuron => {
-          if (neuron.trace && frame < neuron.trace.length) {
-            totalActivity += neuron.trace[frame] || 0;
-            count++;
-          }
-        });
-        
-        overallActivity.push(count > 0 ? totalActivity / count : 0);
-      }
-      
-      return [{
-        clusterIdx: -1,
-        activity: overallActivity,
-        name: 'Overall Activity'
-      }];
-    }
-  }, [dataset, clusters]);
+  const activityPatterns = useMemo(
+    () => computeActivitySeries(dataset, clusters),
+    [dataset, clusters]
+  );
 
   // Find max activity for normalization
   const maxActivity = useMemo(() => {
@@ -1,8 +1,22 @@
-import { useRef, useEffect, memo, useState, useMemo } from 'react';
-import { CalciumDataset } from '../types';
+import { useRef, useEffect, memo, useState, useMemo, type MouseEvent } from 'react';
+import { CalciumDataset, Neuron } from '../types';
 import { tiffFrameToImageData } from '../utils/tiffLoader';
 import { TIFFFrame } from '../utils/tiffLoader';
 import { Cluster } from '../utils/clustering';
+import {
+  addROIs,
+  canEditROIs,
+  circleROI,
+  deleteROIs,
+  findNeuronAt,
+  mergeROIs,
+  polygonROI,
+  roiForNeuron,
+  toRegionsJson
+} from '../utils/roiEditing';
+import { downloadBlob, toFilenameStem } from '../utils/download';
+import { ConnectivityOverlay, forceLayout } from '../utils/connectivityGraph';
+import TraceSparkline from './TraceSparkline';
 
 interface BrainVisualizationProps {
   dataset: CalciumDataset;
@@ -10,16 +24,115 @@ interface BrainVisualizationProps {
   frameImages?: TIFFFrame[]; // Optional: original frame images for background
   clusters?: Cluster[]; // Optional: cluster assignments for coloring neurons by cluster
   getClusterColor?: (clusterIdx: number) => string; // Optional: function to get cluster color
+  onDatasetChange?: (dataset: CalciumDataset) => void; // Enables ROI editing; receives the edited dataset
+  pcaCoordinates?: number[][]; // Optional: PCA scores per neuron, shown on hover
+  pinnedNeuron?: number | null; // Neuron whose details are pinned, ringed on the map
+  onNeuronClick?: (neuronIndex: number) => void; // Click on a neuron outside edit mode
+  highlightedNeurons?: number[]; // Selected in another view, e.g. the PCA scatter; ringed on the map
+  connectivity?: ConnectivityOverlay | null; // Correlation edges drawn over the map
 }
 
-const BrainVisualization = memo(function BrainVisualization({ dataset, currentFrame, frameImages, clusters, getClusterColor }: BrainVisualizationProps) {
+type EditTool = 'select' | 'circle' | 'lasso';
+
+interface ViewBounds {
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Where a neuron's dot is drawn: the mean of its coordinates, or a grid slot
+ * when it has none
+ */
+function neuronCenter(neuron: Neuron, neuronCount: number, bounds: ViewBounds): [number, number] {
+  let centerX = 0, centerY = 0;
+
+  if (neuron.coordinates && neuron.coordinates.length > 0) {
+    let sumX = 0, sumY = 0, count = 0;
+    neuron.coordinates.forEach(([x, y]) => {
+      if (typeof x === 'number' && typeof y === 'number' && isFinite(x) && isFinite(y)) {
+        sumX += x;
+        sumY += y;
+        count++;
+      }
+    });
+    if (count > 0) {
+      centerX = sumX / count;
+      centerY = sumY / count;
+    }
+  }
+
+  if (centerX === 0 && centerY === 0) {
+    const index = neuron.id;
+    const cols = Math.ceil(Math.sqrt(neuronCount));
+    const row = Math.floor(index / cols);
+    const col = index % cols;
+    centerX = (col / cols) * bounds.width + bounds.minX;
+    centerY = (row / Math.ceil(neuronCount / cols)) * bounds.height + bounds.minY;
+  }
+
+  return [centerX, centerY];
+}
+
+// Hover distance to a neuron's dot, in canvas pixels, when no ROI covers the pointer
+const HOVER_RADIUS_PX = 8;
+
+// Undo steps kept per dataset (each holds a full neuron list)
+const MAX_HISTORY = 50;
+
+// Stable default so the overlay memo doesn't change every render
+const NO_NEURONS: number[] = [];
+
+const BrainVisualization = memo(function BrainVisualization({
+  dataset,
+  currentFrame,
+  frameImages,
+  clusters,
+  getClusterColor,
+  onDatasetChange,
+  pcaCoordinates,
+  pinnedNeuron = null,
+  onNeuronClick,
+  highlightedNeurons = NO_NEURONS,
+  connectivity = null
+}: BrainVisualizationProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const lastFrameRef = useRef<number>(-1);
-  const boundsRef = useRef<{ minX: number; maxX: number; minY: number; maxY: number; width: number; height: number } | null>(null);
+  const boundsRef = useRef<ViewBounds | null>(null);
   const [, setBackgroundImage] = useState<ImageData | null>(null);
   const backgroundBitmapRef = useRef<ImageBitmap | null>(null);
   const [backgroundReady, setBackgroundReady] = useState(false);
   const loadingFrameRef = useRef<number>(-1); // Track which frame we're loading
+  const [showCandidates, setShowCandidates] = useState(false);
+
+  // ROI editing
+  const [editMode, setEditMode] = useState(false);
+  const [editTool, setEditTool] = useState<EditTool>('select');
+  const [circleRadius, setCircleRadius] = useState(6);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [lasso, setLasso] = useState<number[][] | null>(null); // Image coordinates while dragging
+  const [history, setHistory] = useState<{ undo: CalciumDataset[]; redo: CalciumDataset[] }>({ undo: [], redo: [] });
+  const emittedRef = useRef<CalciumDataset | null>(null); // Last dataset produced by an edit here
+  const editable = !!onDatasetChange && canEditROIs(dataset);
+
+  // Neuron under the pointer, with the pointer position inside the map
+  const [hovered, setHovered] = useState<{ index: number; x: number; y: number; flip: boolean } | null>(null);
+
+  // Overlay state that forces a redraw between throttled frames
+  const overlay = useMemo(
+    () => ({ showCandidates, selected, lasso, pinnedNeuron, highlightedNeurons, connectivity }),
+    [showCandidates, selected, lasso, pinnedNeuron, highlightedNeurons, connectivity]
+  );
+  const lastOverlayRef = useRef(overlay);
+
+  // Force-directed node positions, recomputed only when the graph or the map bounds change
+  const graphLayoutRef = useRef<{ graph: ConnectivityOverlay; bounds: ViewBounds; positions: Array<[number, number]> } | null>(null);
+
+  const candidates = dataset.segmentation?.candidates;
+  const acceptedCount = useMemo(() => candidates?.filter(c => c.accepted).length ?? 0, [candidates]);
 
   // Create mapping from neuron index to cluster index (for coloring by cluster)
   const neuronToClusterMap = useMemo(() => {
@@ -33,6 +146,190 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
     return map;
   }, [clusters]);
 
+  // A dataset that didn't come from our own edits starts a fresh history
+  useEffect(() => {
+    if (dataset !== emittedRef.current) {
+      setHistory({ undo: [], redo: [] });
+      setSelected([]);
+      setLasso(null);
+    }
+  }, [dataset]);
+
+  const emitDataset = (next: CalciumDataset) => {
+    emittedRef.current = next;
+    setSelected([]);
+    onDatasetChange?.(next);
+  };
+
+  const applyEdit = (edit: (current: CalciumDataset) => CalciumDataset) => {
+    try {
+      const next = edit(dataset);
+      if (next === dataset) return;
+      setHistory(prev => ({ undo: [...prev.undo, dataset].slice(-MAX_HISTORY), redo: [] }));
+      emitDataset(next);
+    } catch (error) {
+      console.error('Error editing ROIs:', error);
+      alert(`Could not edit ROIs: ${error instanceof Error ? error.message : 'unknown error'}`);
+    }
+  };
+
+  const handleUndo = () => {
+    const previous = history.undo[history.undo.length - 1];
+    if (!previous) return;
+    setHistory(prev => ({ undo: prev.undo.slice(0, -1), redo: [...prev.redo, dataset] }));
+    emitDataset(previous);
+  };
+
+  const handleRedo = () => {
+    const next = history.redo[history.redo.length - 1];
+    if (!next) return;
+    setHistory(prev => ({ undo: [...prev.undo, dataset], redo: prev.redo.slice(0, -1) }));
+    emitDataset(next);
+  };
+
+  const handleDeleteSelected = () => {
+    if (selected.length > 0) applyEdit(current => deleteROIs(current, selected));
+  };
+
+  const handleMergeSelected = () => {
+    if (selected.length > 1) applyEdit(current => mergeROIs(current, selected));
+  };
+
+  const handleExportRegions = () => {
+    const blob = new Blob([toRegionsJson(dataset)], { type: 'application/json' });
+    downloadBlob(blob, `${toFilenameStem(dataset.datasetName)}_regions.json`);
+  };
+
+  // Keyboard shortcuts while editing: undo/redo, delete, and escape to clear
+  const shortcutsRef = useRef({ handleUndo, handleRedo, handleDeleteSelected });
+  shortcutsRef.current = { handleUndo, handleRedo, handleDeleteSelected };
+  useEffect(() => {
+    if (!editMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT')) return;
+      const shortcuts = shortcutsRef.current;
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) shortcuts.handleRedo();
+        else shortcuts.handleUndo();
+      } else if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        shortcuts.handleRedo();
+      } else if (e.key === 'Delete' || e.key === 'Backspace') {
+        shortcuts.handleDeleteSelected();
+      } else if (e.key === 'Escape') {
+        setSelected([]);
+        setLasso(null);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [editMode]);
+
+  // Canvas position to image pixel coordinates (inverse of the draw mapping)
+  const toImageCoordinates = (e: MouseEvent<HTMLCanvasElement>): [number, number] | null => {
+    const bounds = boundsRef.current;
+    if (!bounds) return null;
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return null;
+    return [
+      bounds.minX + ((e.clientX - rect.left) / rect.width) * bounds.width,
+      bounds.minY + ((e.clientY - rect.top) / rect.height) * bounds.height
+    ];
+  };
+
+  // Neuron under the pointer: the ROI covering it, else the nearest dot within reach
+  const neuronAtPointer = (e: MouseEvent<HTMLCanvasElement>): number => {
+    const bounds = boundsRef.current;
+    const point = toImageCoordinates(e);
+    if (!bounds || !point) return -1;
+
+    const covering = findNeuronAt(dataset, point[0], point[1]);
+    if (covering !== -1) return covering;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scaleX = rect.width / (bounds.width || 1);
+    const scaleY = rect.height / (bounds.height || 1);
+    let nearest = -1;
+    let nearestDistance = HOVER_RADIUS_PX;
+    dataset.neurons.forEach((neuron, index) => {
+      const [cx, cy] = neuronCenter(neuron, dataset.neurons.length, bounds);
+      const distance = Math.hypot((cx - point[0]) * scaleX, (cy - point[1]) * scaleY);
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  };
+
+  const updateHover = (e: MouseEvent<HTMLCanvasElement>) => {
+    const index = neuronAtPointer(e);
+    if (index === -1) {
+      setHovered(null);
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = e.clientX - rect.left;
+    setHovered({ index, x, y: e.clientY - rect.top, flip: x > rect.width - 220 });
+  };
+
+  const handleCanvasMouseDown = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (!editMode) {
+      const index = neuronAtPointer(e);
+      if (index !== -1) onNeuronClick?.(index);
+      return;
+    }
+    const point = toImageCoordinates(e);
+    if (!point) return;
+    const [x, y] = point;
+
+    if (editTool === 'select') {
+      const index = findNeuronAt(dataset, x, y);
+      if (e.shiftKey) {
+        if (index !== -1) {
+          setSelected(prev => (prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]));
+        }
+      } else {
+        setSelected(index !== -1 ? [index] : []);
+      }
+    } else if (editTool === 'circle') {
+      applyEdit(current => addROIs(current, [
+        circleROI(Math.floor(x), Math.floor(y), circleRadius, current.imageWidth!, current.imageHeight!)
+      ]));
+    } else {
+      setLasso([[x, y]]);
+    }
+  };
+
+  const handleCanvasMouseMove = (e: MouseEvent<HTMLCanvasElement>) => {
+    if (!lasso) {
+      updateHover(e);
+      return;
+    }
+    const point = toImageCoordinates(e);
+    if (!point) return;
+    const last = lasso[lasso.length - 1];
+    // Skip sub-pixel moves so the polygon stays small
+    if (Math.hypot(point[0] - last[0], point[1] - last[1]) >= 1) {
+      setLasso([...lasso, point]);
+    }
+  };
+
+  const handleCanvasMouseUp = () => {
+    if (!lasso) return;
+    setLasso(null);
+    if (lasso.length >= 3) {
+      applyEdit(current => addROIs(current, [polygonROI(lasso, current.imageWidth!, current.imageHeight!)]));
+    }
+  };
+
+  const handleCanvasMouseLeave = () => {
+    setHovered(null);
+    handleCanvasMouseUp();
+  };
+
   // Calculate bounds once when dataset changes - use image dimensions if available
   useEffect(() => {
     // If we have image dimensions, use those as bounds (coordinates are in pixel space)
@@ -187,10 +484,12 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
     
     // Skip if frame hasn't changed significantly AND background hasn't changed
     const frameChanged = Math.abs(throttledFrame - lastFrameRef.current) >= 2 || lastFrameRef.current < 0;
-    if (!frameChanged && !backgroundReady) {
+    const overlayChanged = lastOverlayRef.current !== overlay;
+    if (!frameChanged && !backgroundReady && !overlayChanged) {
       return;
     }
     lastFrameRef.current = throttledFrame;
+    lastOverlayRef.current = overlay;
     
     // Debug: check if background bitmap is available
     if (backgroundBitmapRef.current) {
@@ -243,6 +542,18 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
       console.log('No background bitmap available for drawing');
     }
 
+    // Segmentation candidates: accepted in green, rejected in red
+    if (overlay.showCandidates && candidates) {
+      const pixelWidth = Math.max(1, width / bounds.width);
+      const pixelHeight = Math.max(1, height / bounds.height);
+      candidates.forEach(candidate => {
+        ctx.fillStyle = candidate.accepted ? 'rgba(74, 222, 128, 0.35)' : 'rgba(248, 113, 113, 0.35)';
+        candidate.pixels.forEach(([x, y]) => {
+          ctx.fillRect(normalizeX(x) * width, normalizeY(y) * height, pixelWidth, pixelHeight);
+        });
+      });
+    }
+
     // Draw neuron regions first (if coordinates available) - these show the actual ROI shapes
     dataset.neurons.forEach(neuron => {
       if (neuron.coordinates && neuron.coordinates.length > 0) {
@@ -310,31 +621,7 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
 
     // Draw neuron centers as bright points
     dataset.neurons.forEach(neuron => {
-      let centerX = 0, centerY = 0;
-      
-      if (neuron.coordinates && neuron.coordinates.length > 0) {
-        let sumX = 0, sumY = 0, count = 0;
-        neuron.coordinates.forEach(([x, y]) => {
-          if (typeof x === 'number' && typeof y === 'number' && isFinite(x) && isFinite(y)) {
-            sumX += x;
-            sumY += y;
-            count++;
-          }
-        });
-        if (count > 0) {
-          centerX = sumX / count;
-          centerY = sumY / count;
-        }
-      }
-
-      if (centerX === 0 && centerY === 0) {
-        const index = neuron.id;
-        const cols = Math.ceil(Math.sqrt(dataset.neurons.length));
-        const row = Math.floor(index / cols);
-        const col = index % cols;
-        centerX = (col / cols) * bounds.width + bounds.minX;
-        centerY = (row / Math.ceil(dataset.neurons.length / cols)) * bounds.height + bounds.minY;
-      }
+      const [centerX, centerY] = neuronCenter(neuron, dataset.neurons.length, bounds);
 
       const intensity = (neuron.trace && throttledFrame >= 0 && throttledFrame < neuron.trace.length)
         ? Math.max(0, Math.min(1, neuron.trace[throttledFrame] || 0))
@@ -411,7 +698,104 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
         ctx.fill();
       }
     });
-  }, [dataset, currentFrame, backgroundReady, neuronToClusterMap, getClusterColor]);
+
+    // Functional connectivity: edges between correlated neurons, stronger ones brighter
+    if (overlay.connectivity && overlay.connectivity.edges.length > 0) {
+      const graph = overlay.connectivity;
+      const centers = dataset.neurons.map(neuron => neuronCenter(neuron, dataset.neurons.length, bounds));
+      let positions = centers;
+      if (graph.layout === 'force') {
+        const cached = graphLayoutRef.current;
+        if (!cached || cached.graph !== graph || cached.bounds !== bounds) {
+          const relative = centers.map(([x, y]) => [x - bounds.minX, y - bounds.minY] as [number, number]);
+          const laidOut = forceLayout(relative, graph.edges, bounds.width, bounds.height)
+            .map(([x, y]) => [x + bounds.minX, y + bounds.minY] as [number, number]);
+          graphLayoutRef.current = { graph, bounds, positions: laidOut };
+        }
+        positions = graphLayoutRef.current!.positions;
+      }
+
+      ctx.save();
+      graph.edges.forEach(({ source, target, weight }) => {
+        if (!positions[source] || !positions[target]) return;
+        const strength = Math.max(0, Math.min(1, weight));
+        ctx.strokeStyle = `rgba(253, 230, 138, ${0.15 + strength * 0.6})`;
+        ctx.lineWidth = 0.5 + strength * 1.5;
+        ctx.beginPath();
+        ctx.moveTo(normalizeX(positions[source][0]) * width, normalizeY(positions[source][1]) * height);
+        ctx.lineTo(normalizeX(positions[target][0]) * width, normalizeY(positions[target][1]) * height);
+        ctx.stroke();
+      });
+
+      // Moved nodes no longer sit on their dots; mark where they went
+      if (graph.layout === 'force') {
+        const nodes = new Set(graph.edges.flatMap(edge => [edge.source, edge.target]));
+        nodes.forEach(index => {
+          const clusterIdx = neuronToClusterMap?.get(dataset.neurons[index]?.id);
+          ctx.fillStyle = clusterIdx !== undefined && getClusterColor ? getClusterColor(clusterIdx) : 'rgba(253, 230, 138, 0.9)';
+          ctx.beginPath();
+          ctx.arc(normalizeX(positions[index][0]) * width, normalizeY(positions[index][1]) * height, 3, 0, Math.PI * 2);
+          ctx.fill();
+        });
+      }
+      ctx.restore();
+    }
+
+    // Selected ROIs while editing
+    if (overlay.selected.length > 0) {
+      const pixelWidth = Math.max(1, width / bounds.width);
+      const pixelHeight = Math.max(1, height / bounds.height);
+      ctx.fillStyle = 'rgba(250, 204, 21, 0.55)';
+      overlay.selected.forEach(index => {
+        const neuron = dataset.neurons[index];
+        if (!neuron) return;
+        roiForNeuron(neuron, dataset.imageWidth, dataset.imageHeight).pixels.forEach(([x, y]) => {
+          ctx.fillRect(normalizeX(x) * width, normalizeY(y) * height, pixelWidth, pixelHeight);
+        });
+      });
+    }
+
+    // Rings around neurons selected in another view
+    if (overlay.highlightedNeurons.length > 0) {
+      ctx.strokeStyle = 'rgba(255, 255, 255, 0.85)';
+      ctx.lineWidth = 1.5;
+      overlay.highlightedNeurons.forEach(index => {
+        const neuron = dataset.neurons[index];
+        if (!neuron) return;
+        const [cx, cy] = neuronCenter(neuron, dataset.neurons.length, bounds);
+        ctx.beginPath();
+        ctx.arc(normalizeX(cx) * width, normalizeY(cy) * height, 7, 0, Math.PI * 2);
+        ctx.stroke();
+      });
+    }
+
+    // Ring around the neuron whose details are pinned
+    if (overlay.pinnedNeuron !== null && dataset.neurons[overlay.pinnedNeuron]) {
+      const [cx, cy] = neuronCenter(dataset.neurons[overlay.pinnedNeuron], dataset.neurons.length, bounds);
+      ctx.strokeStyle = 'rgba(250, 204, 21, 0.95)';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(normalizeX(cx) * width, normalizeY(cy) * height, 10, 0, Math.PI * 2);
+      ctx.stroke();
+    }
+
+    // Lasso being drawn
+    if (overlay.lasso && overlay.lasso.length > 1) {
+      ctx.save();
+      ctx.strokeStyle = 'rgba(250, 204, 21, 0.9)';
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      overlay.lasso.forEach(([x, y], idx) => {
+        const nx = normalizeX(x) * width;
+        const ny = normalizeY(y) * height;
+        if (idx === 0) ctx.moveTo(nx, ny);
+        else ctx.lineTo(nx, ny);
+      });
+      ctx.stroke();
+      ctx.restore();
+    }
+  }, [dataset, currentFrame, backgroundReady, neuronToClusterMap, getClusterColor, overlay, candidates]);
 
   // Handle canvas resize
   useEffect(() => {
@@ -436,21 +820,176 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
 
   return (
     <div className="bg-amber-900/20 border rounded-lg p-6 flex flex-col h-full" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
-      <h3 className="text-xl font-semibold mb-4 text-amber-200 flex-shrink-0" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
-        SPATIAL ACTIVITY MAP
-      </h3>
+      <div className="flex items-center justify-between mb-4 flex-shrink-0">
+        <h3 className="text-xl font-semibold text-amber-200" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+          SPATIAL ACTIVITY MAP
+        </h3>
+        <div className="flex items-center gap-2">
+          {candidates && candidates.length > 0 && (
+            <button
+              onClick={() => setShowCandidates(!showCandidates)}
+              className={`jukebox-button text-xs px-2 py-1 rounded ${showCandidates ? 'bg-amber-700/40' : ''}`}
+              style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+              title="Show the ROI candidates found by segmentation"
+            >
+              {showCandidates ? 'Hide Candidates' : 'Show Candidates'}
+            </button>
+          )}
+          {onDatasetChange && (
+            <button
+              onClick={() => {
+                setEditMode(!editMode);
+                setSelected([]);
+                setLasso(null);
+              }}
+              disabled={!editable}
+              className={`jukebox-button text-xs px-2 py-1 rounded disabled:opacity-50 ${editMode ? 'bg-amber-700/40' : ''}`}
+              style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+              title={editable ? 'Add, delete and merge ROIs' : 'ROI editing needs the original frame images'}
+            >
+              {editMode ? 'Done Editing' : 'Edit ROIs'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {editMode && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-xs text-amber-200 flex-shrink-0" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+          {(['select', 'circle', 'lasso'] as const).map(tool => (
+            <button
+              key={tool}
+              onClick={() => {
+                setEditTool(tool);
+                setLasso(null);
+              }}
+              className={`jukebox-button px-2 py-1 rounded capitalize ${editTool === tool ? 'bg-amber-700/40' : ''}`}
+              title={tool === 'select'
+                ? 'Click an ROI to select it; shift-click to select several'
+                : tool === 'circle' ? 'Click to add a circular ROI' : 'Drag to outline a new ROI'}
+            >
+              {tool}
+            </button>
+          ))}
+          {editTool === 'circle' && (
+            <label className="flex items-center gap-1">
+              Radius
+              <input
+                type="number"
+                min={1}
+                max={50}
+                value={circleRadius}
+                onChange={e => {
+                  const value = parseInt(e.target.value, 10);
+                  if (Number.isFinite(value) && value > 0) setCircleRadius(value);
+                }}
+                className="w-14 bg-amber-900/40 border rounded px-2 py-1 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              />
+              px
+            </label>
+          )}
+          <button
+            onClick={handleDeleteSelected}
+            disabled={selected.length === 0}
+            className="jukebox-button px-2 py-1 rounded disabled:opacity-50"
+            title="Delete the selected ROIs (Delete)"
+          >
+            Delete
+          </button>
+          <button
+            onClick={handleMergeSelected}
+            disabled={selected.length < 2}
+            className="jukebox-button px-2 py-1 rounded disabled:opacity-50"
+            title="Merge the selected ROIs into one"
+          >
+            Merge
+          </button>
+          <button
+            onClick={handleUndo}
+            disabled={history.undo.length === 0}
+            className="jukebox-button px-2 py-1 rounded disabled:opacity-50"
+            title="Undo (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={handleRedo}
+            disabled={history.redo.length === 0}
+            className="jukebox-button px-2 py-1 rounded disabled:opacity-50"
+            title="Redo (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+          <button
+            onClick={handleExportRegions}
+            className="jukebox-button px-2 py-1 rounded"
+            title="Download the current ROIs as Neurofinder regions.json"
+          >
+            Export regions.json
+          </button>
+          {selected.length > 0 && (
+            <span className="text-amber-300/70">{selected.length} selected</span>
+          )}
+        </div>
+      )}
       
       <div className="relative bg-black rounded-lg overflow-hidden flex-1" style={{ minHeight: '400px' }}>
         <canvas
           ref={canvasRef}
-          className="absolute inset-0 w-full h-full"
+          className={`absolute inset-0 w-full h-full ${editMode ? 'cursor-crosshair' : hovered && onNeuronClick ? 'cursor-pointer' : ''}`}
+          onMouseDown={handleCanvasMouseDown}
+          onMouseMove={handleCanvasMouseMove}
+          onMouseUp={handleCanvasMouseUp}
+          onMouseLeave={handleCanvasMouseLeave}
         />
+
+        {/* Hover tooltip */}
+        {hovered && dataset.neurons[hovered.index] && (() => {
+          const neuron = dataset.neurons[hovered.index];
+          const clusterIdx = neuronToClusterMap?.get(neuron.id);
+          const clusterColor = clusterIdx !== undefined && getClusterColor ? getClusterColor(clusterIdx) : undefined;
+          const pca = pcaCoordinates?.[hovered.index];
+          return (
+            <div
+              className="absolute z-20 pointer-events-none bg-black/90 border rounded px-2 py-1.5 text-xs text-amber-200 w-52"
+              style={{
+                left: hovered.flip ? hovered.x - 220 : hovered.x + 12,
+                top: hovered.y + 12,
+                borderColor: 'rgba(234, 179, 8, 0.5)',
+                fontFamily: 'Orbitron, sans-serif'
+              }}
+            >
+              <div className="flex items-center gap-1.5 font-semibold mb-0.5">
+                {clusterColor && <span className="w-2.5 h-2.5 rounded-full inline-block" style={{ backgroundColor: clusterColor }}></span>}
+                {neuron.name}
+              </div>
+              {clusterIdx !== undefined && <div className="text-amber-300/80">Cluster {clusterIdx + 1}</div>}
+              {pca && (
+                <div className="text-amber-300/80">
+                  PCA {pca.slice(0, 3).map(c => c.toFixed(2)).join(', ')}
+                </div>
+              )}
+              <TraceSparkline trace={neuron.trace} currentFrame={currentFrame} color={clusterColor} className="w-full h-8 mt-1" />
+              {onNeuronClick && !editMode && <div className="text-[10px] text-amber-300/60">Click to pin details</div>}
+            </div>
+          );
+        })()}
         
         {/* Frame indicator */}
         <div className="absolute bottom-2 left-2 bg-black/80 px-2 py-1 rounded text-xs text-amber-200 z-10" style={{ fontFamily: 'Orbitron, sans-serif' }}>
           Frame: {currentFrame + 1} / {dataset.frames}
         </div>
 
+        {/* Candidate counts while the segmentation overlay is shown */}
+        {showCandidates && candidates && (
+          <div className="absolute bottom-2 right-2 bg-black/80 px-2 py-1 rounded text-xs text-amber-200 z-10 flex items-center gap-2" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            <div className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: 'rgba(74, 222, 128, 0.8)' }}></div>
+            <span>Accepted {acceptedCount}</span>
+            <div className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: 'rgba(248, 113, 113, 0.8)' }}></div>
+            <span>Rejected {candidates.length - acceptedCount}</span>
+          </div>
+        )}
+
         {/* Region label */}
         {dataset.metadata?.region && (
           <div className="absolute top-2 left-2 bg-black/80 px-3 py-1.5 rounded text-xs text-amber-200 z-10 border border-amber-600/50" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
@@ -497,7 +1036,13 @@ const BrainVisualization = memo(function BrainVisualization({ dataset, currentFr
     prevProps.dataset === nextProps.dataset &&
     Math.floor(prevProps.currentFrame / 3) === Math.floor(nextProps.currentFrame / 3) &&
     prevProps.clusters === nextProps.clusters &&
-    prevProps.getClusterColor === nextProps.getClusterColor
+    prevProps.getClusterColor === nextProps.getClusterColor &&
+    prevProps.onDatasetChange === nextProps.onDatasetChange &&
+    prevProps.pcaCoordinates === nextProps.pcaCoordinates &&
+    prevProps.pinnedNeuron === nextProps.pinnedNeuron &&
+    prevProps.onNeuronClick === nextProps.onNeuronClick &&
+    prevProps.highlightedNeurons === nextProps.highlightedNeurons &&
+    prevProps.connectivity === nextProps.connectivity
   );
 });
 
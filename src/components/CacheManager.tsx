@@ -0,0 +1,141 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { Database, Trash2, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  CacheSummary,
+  clearCache,
+  evictDataset,
+  formatBytes,
+  isCacheSupported,
+  listCacheEntries
+} from '../utils/datasetCache';
+
+interface CacheManagerProps {
+  refreshKey?: number; // Bump to re-read the cache (e.g. after a dataset loads)
+  getDatasetName?: (datasetId: string) => string;
+}
+
+/**
+ * Collapsible list of locally cached datasets with per-dataset eviction
+ */
+const CacheManager = memo(function CacheManager({ refreshKey = 0, getDatasetName }: CacheManagerProps) {
+  const [entries, setEntries] = useState<CacheSummary[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    setEntries(await listCacheEntries());
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey]);
+
+  const handleEvict = async (datasetId: string) => {
+    setBusyId(datasetId);
+    try {
+      await evictDataset(datasetId);
+    } catch (error) {
+      console.error('Error evicting cached dataset:', error);
+      alert(`Could not remove ${datasetId} from the cache`);
+    } finally {
+      setBusyId(null);
+      refresh();
+    }
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Remove all cached datasets? They will be downloaded again on next use.')) return;
+    setBusyId('*');
+    try {
+      await clearCache();
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+      alert('Could not clear the cache');
+    } finally {
+      setBusyId(null);
+      refresh();
+    }
+  };
+
+  if (!isCacheSupported()) return null;
+
+  const totalBytes = entries.reduce((sum, entry) => sum + entry.totalBytes, 0);
+
+  return (
+    <div className="mt-4 pt-4 border-t text-xs text-amber-200" style={{ borderColor: 'rgba(234, 179, 8, 0.3)', fontFamily: 'Orbitron, sans-serif' }}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 text-amber-200 hover:text-amber-300 transition-colors"
+        aria-expanded={isOpen}
+      >
+        <Database className="w-4 h-4" />
+        <span style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }} className="text-sm">
+          LOCAL CACHE
+        </span>
+        <span className="text-amber-300/70">
+          {entries.length} {entries.length === 1 ? 'dataset' : 'datasets'} · {formatBytes(totalBytes)}
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <div className="mt-3 space-y-2">
+          {entries.length === 0 ? (
+            <p className="text-amber-300/60">Nothing cached yet. Datasets are cached after their first load.</p>
+          ) : (
+            <>
+              <table className="w-full text-left">
+                <thead className="text-amber-300/70">
+                  <tr>
+                    <th className="font-normal py-1">Dataset</th>
+                    <th className="font-normal py-1">Frames</th>
+                    <th className="font-normal py-1">Traces</th>
+                    <th className="font-normal py-1">Analyses</th>
+                    <th className="font-normal py-1">Total</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.map(entry => (
+                    <tr key={entry.datasetId} className="border-t" style={{ borderColor: 'rgba(234, 179, 8, 0.15)' }}>
+                      <td className="py-1" title={entry.datasetId}>
+                        {getDatasetName ? getDatasetName(entry.datasetId) : entry.datasetId}
+                      </td>
+                      <td className="py-1">{formatBytes(entry.framesBytes)}</td>
+                      <td className="py-1">{formatBytes(entry.datasetsBytes)}</td>
+                      <td className="py-1">{formatBytes(entry.analysesBytes)}</td>
+                      <td className="py-1 text-amber-300">{formatBytes(entry.totalBytes)}</td>
+                      <td className="py-1 text-right">
+                        <button
+                          onClick={() => handleEvict(entry.datasetId)}
+                          disabled={busyId !== null}
+                          className="text-amber-300 hover:text-amber-200 transition-colors disabled:opacity-50"
+                          title="Remove from cache"
+                          aria-label={`Remove ${entry.datasetId} from cache`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <button
+                onClick={handleClear}
+                disabled={busyId !== null}
+                className="jukebox-button text-xs px-2 py-1 rounded disabled:opacity-50"
+                style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+              >
+                Clear Cache
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+});
+
+CacheManager.displayName = 'CacheManager';
+
+export default CacheManager;
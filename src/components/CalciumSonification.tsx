@@ -1,25 +1,31 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Play, Pause, Volume2, Info } from 'lucide-react';
 import * as Tone from 'tone';
 import { CalciumDataset } from '../types';
+import { useTransportPlayback } from '../hooks/useTransportPlayback';
+import { indexEventsByFrame } from '../utils/spikeInference';
 import BrainVisualization from './BrainVisualization';
+import PlaybackTimeline from './PlaybackTimeline';
+import NeuronDetailPanel from './NeuronDetailPanel';
 
 interface CalciumSonificationProps {
   dataset: CalciumDataset;
+  onDatasetChange?: (dataset: CalciumDataset) => void; // ROI edits from the spatial map
 }
 
-const CalciumSonification = ({ dataset }: CalciumSonificationProps) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentFrame, setCurrentFrame] = useState(0);
+const CalciumSonification = ({ dataset, onDatasetChange }: CalciumSonificationProps) => {
   const [tempo, setTempo] = useState(120);
   const [showInfo, setShowInfo] = useState(false);
   const [volume, setVolume] = useState(0.7);
   const [sonificationMode, setSonificationMode] = useState<'spike' | 'continuous'>('spike');
+  const [pinnedNeuron, setPinnedNeuron] = useState<number | null>(null);
+  const [soloNeuron, setSoloNeuron] = useState<number | null>(null);
   
   const synthsRef = useRef<Tone.Synth[]>([]);
-  const timeoutRef = useRef<number | null>(null);
   const gainNodeRef = useRef<Tone.Gain | null>(null);
-  const tempoRef = useRef(tempo);
+
+  // Inferred spike events per neuron, frame -> relative strength
+  const eventsByNeuron = useMemo(() => indexEventsByFrame(dataset), [dataset]);
 
   // Pentatonic scale (C major pentatonic)
   const pentatonicScale = [261.63, 293.66, 329.63, 392, 440, 523.25, 587.33, 659.25, 783.99, 880, 987.77, 1108.73];
@@ -69,95 +75,84 @@ const CalciumSonification = ({ dataset }: CalciumSonificationProps) => {
     }
   }, [volume]);
 
-  // Update tempo ref when tempo changes
-  useEffect(() => {
-    tempoRef.current = tempo;
-  }, [tempo]);
+  // Sonify one frame at the Transport's scheduled time
+  const playFrame = (frame: number, time: number) => {
+    const prev = (frame - 1 + dataset.frames) % dataset.frames;
 
-  // Playback loop
-  useEffect(() => {
-    if (isPlaying && dataset) {
-      const playFrame = () => {
-        // Use current tempo from ref (always up-to-date)
-        const currentTempo = tempoRef.current;
-        const frameInterval = (60 / currentTempo) * 1000 / 4; // Convert tempo to ms per frame
-
-        setCurrentFrame(prev => {
-          const nextFrame = (prev + 1) % dataset.frames;
-          
-          // Sonify this frame
-          dataset.neurons.forEach((neuron, i) => {
-            const intensity = neuron.trace[nextFrame];
-            const prevIntensity = neuron.trace[prev];
-            
-            if (i >= synthsRef.current.length || !synthsRef.current[i]) return;
-            
-            if (sonificationMode === 'spike') {
-              // Spike mode: trigger on rising edge
-              if (intensity > 0.5 && prevIntensity <= 0.5) {
-                const frequency = pentatonicScale[i % pentatonicScale.length];
-                const noteVolume = -30 + (intensity * 30);
-                if (synthsRef.current[i].volume) {
-                  synthsRef.current[i].volume.value = noteVolume;
-                }
-                // Add small time offset per neuron to avoid Tone.js scheduling conflicts
-                const now = Tone.now();
-                const timeOffset = i * 0.001; // 1ms offset per neuron
-                synthsRef.current[i].triggerAttackRelease(frequency, '16n', now + timeOffset);
-              }
-            } else {
-              // Continuous mode: sustain note based on intensity
-              if (intensity > 0.3) {
-                const frequency = pentatonicScale[i % pentatonicScale.length];
-                const noteVolume = -40 + (intensity * 40);
-                if (synthsRef.current[i].volume) {
-                  synthsRef.current[i].volume.value = noteVolume;
-                }
-                
-                // Only trigger if not already playing
-                if (prevIntensity <= 0.3) {
-                  synthsRef.current[i].triggerAttack(frequency);
-                }
-              } else {
-                // Release if intensity drops
-                if (prevIntensity > 0.3) {
-                  synthsRef.current[i].triggerRelease();
-                }
-              }
-            }
-          });
-
-          return nextFrame;
-        });
-
-        // Schedule next frame with current tempo
-        timeoutRef.current = window.setTimeout(playFrame, frameInterval);
-      };
-
-      playFrame();
-
-      return () => {
-        if (timeoutRef.current) {
-          clearTimeout(timeoutRef.current);
+    dataset.neurons.forEach((neuron, i) => {
+      const intensity = neuron.trace[frame];
+      const prevIntensity = neuron.trace[prev];
+
+      if (i >= synthsRef.current.length || !synthsRef.current[i]) return;
+      if (soloNeuron !== null && i !== soloNeuron) return;
+      const synth = synthsRef.current[i];
+
+      if (sonificationMode === 'spike') {
+        // Spike mode: trigger on inferred spike events, louder for larger spikes
+        const event = eventsByNeuron[i]?.get(frame);
+        if (event !== undefined) {
+          const frequency = pentatonicScale[i % pentatonicScale.length];
+          synth.volume.setValueAtTime(-30 + (event * 30), time);
+          synth.triggerAttackRelease(frequency, '16n', time);
         }
-      };
-    } else {
-      // Stop all synths when paused
-      synthsRef.current.forEach(synth => {
-        try {
-          synth.triggerRelease();
-        } catch (e) {
-          // Ignore errors
+      } else {
+        // Continuous mode: sustain note based on intensity
+        if (intensity > 0.3) {
+          const frequency = pentatonicScale[i % pentatonicScale.length];
+          synth.volume.setValueAtTime(-40 + (intensity * 40), time);
+
+          // Only trigger if not already playing
+          if (prevIntensity <= 0.3) {
+            synth.triggerAttack(frequency, time);
+          }
+        } else {
+          // Release if intensity drops
+          if (prevIntensity > 0.3) {
+            synth.triggerRelease(time);
+          }
         }
-      });
-    }
-  }, [isPlaying, dataset, sonificationMode]);
+      }
+    });
+  };
+
+  // Stop all synths when paused
+  const releaseSynths = () => {
+    synthsRef.current.forEach(synth => {
+      try {
+        synth.triggerRelease();
+      } catch (e) {
+        // Ignore errors
+      }
+    });
+  };
+
+  // One frame per sixteenth note
+  const { isPlaying, currentFrame, loop, play, pause, seek, setLoop } = useTransportPlayback({
+    frameCount: dataset.frames,
+    frameIntervalBeats: 0.25,
+    tempo,
+    onFrame: playFrame,
+    onStop: releaseSynths
+  });
+
+  // Release sustained notes when switching modes or soloing mid-playback
+  useEffect(() => {
+    releaseSynths();
+  }, [sonificationMode, soloNeuron]);
+
+  // Neuron inspection refers to indices of the previous dataset
+  useEffect(() => {
+    setPinnedNeuron(null);
+    setSoloNeuron(null);
+  }, [dataset]);
 
   const togglePlayback = async () => {
-    if (!isPlaying) {
+    if (isPlaying) {
+      pause();
+    } else {
       await Tone.start();
+      play();
     }
-    setIsPlaying(!isPlaying);
   };
 
   // Calculate statistics
@@ -196,7 +191,7 @@ const CalciumSonification = ({ dataset }: CalciumSonificationProps) => {
               </h3>
                 <ul className="space-y-2 text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
                 <li>• Each neuron is mapped to a note in a pentatonic scale</li>
-                  <li>• Two sonification modes: Spike (triggered on rising edge) and Continuous (sustained notes)</li>
+                  <li>• Two sonification modes: Spike (triggered on inferred spike events) and Continuous (sustained notes)</li>
                 <li>• Calcium intensity controls volume and triggers notes</li>
                 <li>• Temporal patterns create rhythmic structure</li>
                 <li>• Synchronized activity produces harmonies</li>
@@ -285,17 +280,13 @@ const CalciumSonification = ({ dataset }: CalciumSonificationProps) => {
           </div>
         </div>
 
-        <div className="flex items-center gap-2">
-          <div className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
-            Frame: {currentFrame + 1} / {dataset.frames}
-          </div>
-          <div className="flex-1 bg-white/20 rounded-full h-2">
-            <div 
-              className="bg-amber-400 h-2 rounded-full transition-all duration-100"
-              style={{ width: `${((currentFrame + 1) / dataset.frames) * 100}%` }}
-            />
-          </div>
-        </div>
+        <PlaybackTimeline
+          dataset={dataset}
+          currentFrame={currentFrame}
+          loop={loop}
+          onSeek={seek}
+          onLoopChange={setLoop}
+        />
 
         {/* Statistics */}
         <div className="mt-4 flex gap-6 text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
@@ -312,6 +303,9 @@ const CalciumSonification = ({ dataset }: CalciumSonificationProps) => {
             dataset={dataset} 
             currentFrame={currentFrame} 
             frameImages={dataset.frameImages}
+            onDatasetChange={onDatasetChange}
+            pinnedNeuron={pinnedNeuron}
+            onNeuronClick={setPinnedNeuron}
           />
         </div>
         
@@ -409,6 +403,19 @@ const CalciumSonification = ({ dataset }: CalciumSonificationProps) => {
           </div>
         </div>
       </div>
+
+      {/* Pinned neuron */}
+      {pinnedNeuron !== null && (
+        <NeuronDetailPanel
+          dataset={dataset}
+          neuronIndex={pinnedNeuron}
+          currentFrame={currentFrame}
+          color={`hsl(${(pinnedNeuron * 360) / dataset.neurons.length}, 70%, 60%)`}
+          isSolo={soloNeuron === pinnedNeuron}
+          onToggleSolo={() => setSoloNeuron(soloNeuron === pinnedNeuron ? null : pinnedNeuron)}
+          onClose={() => setPinnedNeuron(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,40 @@
+import { memo } from 'react';
+import { ClusterQualityMetric } from '../utils/clusteringMethods';
+
+interface ClusterQualityMetricsProps {
+  metrics: ClusterQualityMetric[];
+  compact?: boolean; // Smaller tiles for the comparison cards
+}
+
+const formatMetric = (metric: ClusterQualityMetric) => {
+  if (metric.format === 'percent') return `${(metric.value * 100).toFixed(0)}%`;
+  if (Number.isInteger(metric.value)) return String(metric.value);
+  return Math.abs(metric.value) >= 1000 ? metric.value.toExponential(2) : metric.value.toFixed(3);
+};
+
+/**
+ * Quality metrics reported by the clustering method, described on hover
+ */
+const ClusterQualityMetrics = memo(function ClusterQualityMetrics({ metrics, compact = false }: ClusterQualityMetricsProps) {
+  if (metrics.length === 0) return null;
+
+  return (
+    <div className={`grid grid-cols-2 ${compact ? 'gap-1' : 'md:grid-cols-4 gap-2'}`} style={{ fontFamily: 'Orbitron, sans-serif' }}>
+      {metrics.map(metric => (
+        <div
+          key={metric.label}
+          className={`bg-amber-900/20 border rounded cursor-help ${compact ? 'px-2 py-1' : 'p-2'}`}
+          style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          title={metric.description}
+        >
+          <div className="text-[10px] text-amber-300/70 uppercase tracking-wide">{metric.label}</div>
+          <div className={`${compact ? 'text-xs' : 'text-sm'} text-amber-200`}>{formatMetric(metric)}</div>
+        </div>
+      ))}
+    </div>
+  );
+});
+
+ClusterQualityMetrics.displayName = 'ClusterQualityMetrics';
+
+export default ClusterQualityMetrics;
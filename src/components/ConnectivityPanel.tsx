@@ -0,0 +1,245 @@
+import { memo, useEffect, useMemo, useRef, useState, type MouseEvent } from 'react';
+import { Download, Loader2, Network } from 'lucide-react';
+import { CalciumDataset } from '../types';
+import { Cluster } from '../utils/clustering';
+import { ConnectivityEdge, edgesToCsv, GraphLayout, MAX_DRAWN_EDGES } from '../utils/connectivityGraph';
+import { downloadBlob, toFilenameStem } from '../utils/download';
+
+interface ConnectivityPanelProps {
+  dataset: CalciumDataset;
+  correlation: Float64Array | null; // n × n, null until computed
+  isComputing: boolean;
+  enabled: boolean; // Correlations are only computed while the panel is open
+  onEnabledChange: (enabled: boolean) => void;
+  clusters: Cluster[];
+  getClusterColor: (clusterIdx: number) => string;
+  edges: ConnectivityEdge[]; // Pairs at or above the threshold, strongest first
+  threshold: number;
+  onThresholdChange: (threshold: number) => void;
+  showOnMap: boolean;
+  onShowOnMapChange: (show: boolean) => void;
+  layout: GraphLayout;
+  onLayoutChange: (layout: GraphLayout) => void;
+}
+
+// Larger matrices are averaged down to this many pixels a side
+const MAX_HEATMAP_SIZE = 400;
+
+/**
+ * Neuron-by-neuron correlation heatmap, rows and columns grouped by cluster,
+ * with the threshold that turns correlations into the map's graph edges
+ */
+const ConnectivityPanel = memo(function ConnectivityPanel({
+  dataset,
+  correlation,
+  isComputing,
+  enabled,
+  onEnabledChange,
+  clusters,
+  getClusterColor,
+  edges,
+  threshold,
+  onThresholdChange,
+  showOnMap,
+  onShowOnMapChange,
+  layout,
+  onLayoutChange
+}: ConnectivityPanelProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [hovered, setHovered] = useState<{ row: number; col: number } | null>(null);
+  const n = dataset.neurons.length;
+
+  // Clustered neurons first, cluster by cluster, then everything left over
+  const { order, boundaries } = useMemo(() => {
+    const seen = new Set<number>();
+    const sorted: number[] = [];
+    const ends: number[] = [];
+    clusters.forEach(cluster => {
+      cluster.neurons.forEach(i => {
+        if (i < n && !seen.has(i)) {
+          seen.add(i);
+          sorted.push(i);
+        }
+      });
+      ends.push(sorted.length);
+    });
+    for (let i = 0; i < n; i++) {
+      if (!seen.has(i)) sorted.push(i);
+    }
+    return { order: sorted, boundaries: ends };
+  }, [clusters, n]);
+
+  const size = Math.min(n, MAX_HEATMAP_SIZE);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !correlation || correlation.length !== n * n || size === 0) return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    canvas.width = size;
+    canvas.height = size;
+    const image = ctx.createImageData(size, size);
+    const blockStart = (p: number) => Math.floor((p * n) / size);
+
+    for (let py = 0; py < size; py++) {
+      for (let px = 0; px < size; px++) {
+        let sum = 0;
+        let count = 0;
+        for (let a = blockStart(py); a < blockStart(py + 1); a++) {
+          const row = order[a] * n;
+          for (let b = blockStart(px); b < blockStart(px + 1); b++) {
+            sum += correlation[row + order[b]];
+            count++;
+          }
+        }
+        const r = count > 0 ? sum / count : 0;
+        const offset = (py * size + px) * 4;
+        // Amber for positive, sky blue for negative, black at zero
+        const strength = Math.min(1, Math.abs(r));
+        image.data[offset] = r >= 0 ? 250 * strength : 56 * strength;
+        image.data[offset + 1] = r >= 0 ? 204 * strength : 189 * strength;
+        image.data[offset + 2] = r >= 0 ? 21 * strength : 248 * strength;
+        image.data[offset + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+
+    // Outline each cluster's block on the diagonal
+    ctx.lineWidth = Math.max(1, size / 200);
+    let start = 0;
+    boundaries.forEach((end, idx) => {
+      if (end > start) {
+        const from = (start / n) * size;
+        const extent = ((end - start) / n) * size;
+        ctx.strokeStyle = getClusterColor(idx);
+        ctx.strokeRect(from, from, extent, extent);
+      }
+      start = end;
+    });
+  }, [correlation, order, boundaries, n, size, getClusterColor]);
+
+  const handleMouseMove = (event: MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((event.clientX - rect.left) / rect.width) * n);
+    const row = Math.floor(((event.clientY - rect.top) / rect.height) * n);
+    setHovered(row >= 0 && row < n && col >= 0 && col < n ? { row: order[row], col: order[col] } : null);
+  };
+
+  const handleExport = () => {
+    const csv = edgesToCsv(edges, dataset.neurons);
+    downloadBlob(
+      new Blob([csv], { type: 'text/csv' }),
+      `${toFilenameStem(dataset.datasetName)}_connectivity_r${threshold.toFixed(2)}.csv`
+    );
+  };
+
+  const neuronLabel = (index: number) => dataset.neurons[index]?.name || `Neuron ${index + 1}`;
+
+  return (
+    <div className="bg-amber-900/20 border rounded-lg p-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-xl font-semibold text-amber-200 flex items-center gap-2" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+          <Network className="w-5 h-5" />
+          FUNCTIONAL CONNECTIVITY
+        </h3>
+        <button
+          onClick={() => onEnabledChange(!enabled)}
+          className="jukebox-button text-xs px-3 py-1 rounded"
+          style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+          title={enabled ? 'Hide the network and stop drawing it on the map' : 'Correlate every pair of traces'}
+        >
+          {enabled ? 'Hide' : 'Show network'}
+        </button>
+      </div>
+      <p className="text-xs text-amber-300/80 mb-4" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+        Pairwise trace correlations, grouped by cluster. Pairs above the threshold become edges on the brain map.
+      </p>
+
+      {enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="relative">
+            {correlation ? (
+              <canvas
+                ref={canvasRef}
+                className="w-full aspect-square border rounded cursor-crosshair"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)', imageRendering: 'pixelated' }}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHovered(null)}
+              />
+            ) : (
+              <div className="w-full aspect-square flex items-center justify-center text-xs text-amber-300/70" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+                {isComputing ? <Loader2 className="w-5 h-5 animate-spin" /> : 'No correlations yet'}
+              </div>
+            )}
+            <div className="mt-2 h-4 text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              {hovered && correlation && (
+                <>
+                  {neuronLabel(hovered.row)} × {neuronLabel(hovered.col)}: r = {correlation[hovered.row * n + hovered.col].toFixed(2)}
+                </>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-4 text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            <div>
+              <label className="block mb-1">Edge threshold: r ≥ {threshold.toFixed(2)}</label>
+              <input
+                type="range"
+                min="0.05"
+                max="0.95"
+                step="0.05"
+                value={threshold}
+                onChange={(e) => onThresholdChange(Number(e.target.value))}
+                className="w-full"
+              />
+              <div className="text-xs text-amber-300/80 mt-1">
+                {edges.length} edge{edges.length === 1 ? '' : 's'}
+                {edges.length > MAX_DRAWN_EDGES && ` (strongest ${MAX_DRAWN_EDGES} drawn)`}
+              </div>
+            </div>
+
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={showOnMap} onChange={(e) => onShowOnMapChange(e.target.checked)} />
+              Draw graph on the brain map
+            </label>
+
+            <div className="flex items-center gap-3">
+              <label>Layout:</label>
+              <select
+                value={layout}
+                onChange={(e) => onLayoutChange(e.target.value as GraphLayout)}
+                disabled={!showOnMap}
+                className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200 disabled:opacity-50"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              >
+                <option value="anatomical">Neuron positions</option>
+                <option value="force">Force-directed</option>
+              </select>
+            </div>
+
+            <button
+              onClick={handleExport}
+              disabled={edges.length === 0}
+              className="jukebox-button flex items-center gap-2 px-4 py-2 text-sm rounded disabled:opacity-50"
+              style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+              title="Download the edges above the threshold as CSV"
+            >
+              <Download className="w-4 h-4" />
+              Export edges (CSV)
+            </button>
+
+            <div className="flex items-center gap-2 text-xs text-amber-300/70">
+              <span className="inline-block w-16 h-2 rounded" style={{ background: 'linear-gradient(to right, rgb(56, 189, 248), black, rgb(250, 204, 21))' }} />
+              r from −1 to 1
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+});
+
+ConnectivityPanel.displayName = 'ConnectivityPanel';
+
+export default ConnectivityPanel;
@@ -4,9 +4,19 @@ import { CalciumDataset } from '../types';
 import { addDatasets, subtractDatasets, averageDatasets } from '../utils/datasetOperations';
 import { calculateMusicalConcordance, MusicalConcordance } from '../utils/musicalMetrics';
 import { extractTraceFeatures, performPCA } from '../utils/pca';
-import { kMeans, suggestOptimalK, Cluster } from '../utils/clustering';
+import { suggestOptimalK, Cluster } from '../utils/clustering';
+import {
+  ClusteringMethod,
+  ClusterQualityMetric,
+  CLUSTERING_METHOD_LABELS,
+  DEFAULT_CLUSTERING,
+  runClustering,
+  usesClusterCount
+} from '../utils/clusteringMethods';
 import { initSeededRandom, hashDataset } from '../utils/seededRandom';
-import { assignInstrumentToCluster, createInstrument, getNoteFrequency, MAJOR_SCALE } from './MusicalSonification';
+import { comparisonVoicing, getFrameIntervalMs, indexScoreByFrame, ScoreNote, scoreFromDataset } from '../utils/scoreEngine';
+import { assignInstrumentToCluster, createInstrument } from '../utils/instruments';
+import ClusterQualityMetrics from './ClusterQualityMetrics';
 import * as Tone from 'tone';
 
 interface DatasetComparisonProps {
@@ -21,6 +31,7 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
   const [tempo, setTempo] = useState(120);
   const [volume, setVolume] = useState(0.7);
   const [numClusters, setNumClusters] = useState<Map<number, number>>(new Map()); // Per-dataset cluster counts
+  const [clusteringMethod, setClusteringMethod] = useState<ClusteringMethod>(DEFAULT_CLUSTERING.method); // Shared by all datasets
   const [selectedDataset1, setSelectedDataset1] = useState<number | null>(null);
   const [selectedDataset2, setSelectedDataset2] = useState<number | null>(null);
   const [operation, setOperation] = useState<'add' | 'subtract' | 'average'>('subtract');
@@ -30,18 +41,12 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
   const timeoutRef = useRef<number | null>(null);
 
   // Musical sonification state for each dataset
-  const datasetClustersRef = useRef<Map<number, { 
-    clusters: Cluster[]; 
-    pcaResult: ReturnType<typeof performPCA> | null;
-    suggestedK?: number;
-    clusterAnalysis?: ReturnType<typeof suggestOptimalK>;
-  }>>(new Map());
+  const datasetScoresRef = useRef<Map<number, Map<number, ScoreNote[]>>>(new Map()); // Notes by frame per dataset
   const datasetInstrumentsRef = useRef<Map<number, Map<number, Tone.PolySynth | Tone.Synth>>>(new Map());
   const gainNodeRef = useRef<Tone.Gain | null>(null);
   const isPlayingRef = useRef(false);
   const currentFrameRef = useRef(0);
   const loopRunningRef = useRef(false);
-  const lastPlayTimeRef = useRef<Map<string, number>>(new Map()); // Key: "datasetIdx-clusterId"
   const tempoRef = useRef(tempo);
 
   // Perform PCA and clustering for each dataset AND result dataset
@@ -51,12 +56,33 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
       pcaResult: ReturnType<typeof performPCA> | null;
       suggestedK?: number;
       clusterAnalysis?: ReturnType<typeof suggestOptimalK>;
+      quality: ClusterQualityMetric[];
+      noise: number[]; // Neurons in no cluster, left silent
+      error?: string;
     }>();
+
+    // Method parameters other than k use their defaults here
+    const settings = { ...DEFAULT_CLUSTERING, method: clusteringMethod };
+    const cluster = (data: number[][], k: number, traces: number[][]) => {
+      try {
+        const result = runClustering(data, k, settings, traces);
+        return { clusters: result.clusters, quality: result.metrics, noise: result.noise };
+      } catch (error) {
+        console.warn(`${CLUSTERING_METHOD_LABELS[clusteringMethod]} failed, using k-means:`, error);
+        const result = runClustering(data, k, DEFAULT_CLUSTERING);
+        return {
+          clusters: result.clusters,
+          quality: result.metrics,
+          noise: result.noise,
+          error: error instanceof Error ? error.message : String(error)
+        };
+      }
+    };
     
     // Analyze all datasets
     datasets.forEach((dataset, idx) => {
       if (dataset.neurons.length === 0) {
-        analyses.set(idx, { clusters: [], pcaResult: null, suggestedK: 2 });
+        analyses.set(idx, { clusters: [], pcaResult: null, suggestedK: 2, quality: [], noise: [] });
         return;
       }
 
@@ -75,9 +101,8 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
       const suggestedK = Math.max(2, Math.min(analysis.optimalK, 6));
       const userK = numClusters.get(idx);
       const finalK = userK || suggestedK;
-      const clusters = kMeans(pca.transformed, finalK, 100);
       
-      analyses.set(idx, { clusters, pcaResult: pca, suggestedK, clusterAnalysis: analysis });
+      analyses.set(idx, { ...cluster(pca.transformed, finalK, traces), pcaResult: pca, suggestedK, clusterAnalysis: analysis });
     });
     
     // Also analyze result dataset if it exists (use special index -1)
@@ -97,18 +122,59 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
       const suggestedK = Math.max(2, Math.min(analysis.optimalK, 6));
       const userK = numClusters.get(-1);
       const finalK = userK || suggestedK;
-      const clusters = kMeans(pca.transformed, finalK, 100);
       
-      analyses.set(-1, { clusters, pcaResult: pca, suggestedK, clusterAnalysis: analysis }); // Use -1 as special index for result
+      analyses.set(-1, { ...cluster(pca.transformed, finalK, traces), pcaResult: pca, suggestedK, clusterAnalysis: analysis }); // Use -1 as special index for result
     }
     
     return analyses;
-  }, [datasets, resultDataset, numClusters]);
+  }, [datasets, resultDataset, numClusters, clusteringMethod]);
+
+  // Cluster count and quality metrics for a dataset card
+  const renderClusterQuality = (datasetIdx: number) => {
+    const analysis = datasetAnalyses.get(datasetIdx);
+    if (!analysis || analysis.clusters.length === 0) return null;
+    return (
+      <div className="space-y-1">
+        <div className="text-xs text-amber-300" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+          {analysis.clusters.length} clusters ({CLUSTERING_METHOD_LABELS[analysis.error ? 'kmeans' : clusteringMethod]})
+          {analysis.noise.length > 0 && ` · ${analysis.noise.length} silent neurons`}
+        </div>
+        {analysis.error && (
+          <div className="text-xs text-red-400" style={{ fontFamily: 'Orbitron, sans-serif' }}>{analysis.error}</div>
+        )}
+        <ClusterQualityMetrics metrics={analysis.quality} compact />
+      </div>
+    );
+  };
+
+  // Score each dataset (and the result) once; playback reads the notes frame by frame
+  // All layers share the first dataset's frame clock so they stay in step
+  const datasetScores = useMemo(() => {
+    const scores = new Map<number, Map<number, ScoreNote[]>>();
+    const fps = datasets[0]?.fps || 10;
+    const layers: Array<{ dataset: CalciumDataset; datasetIdx: number }> = [
+      ...datasets.map((d, idx) => ({ dataset: d, datasetIdx: idx })),
+      ...(resultDataset ? [{ dataset: resultDataset, datasetIdx: -1 }] : [])
+    ];
+
+    layers.forEach(({ dataset, datasetIdx }) => {
+      const analysis = datasetAnalyses.get(datasetIdx);
+      if (!analysis || analysis.clusters.length === 0) return;
+
+      const score = scoreFromDataset(dataset, analysis.clusters, analysis.pcaResult, {
+        fps,
+        voicing: comparisonVoicing(datasetIdx)
+      });
+      scores.set(datasetIdx, indexScoreByFrame(score));
+    });
+
+    return scores;
+  }, [datasets, resultDataset, datasetAnalyses]);
 
   // Store in ref
   useEffect(() => {
-    datasetClustersRef.current = datasetAnalyses;
-  }, [datasetAnalyses]);
+    datasetScoresRef.current = datasetScores;
+  }, [datasetScores]);
 
   // Initialize instruments for each dataset
   useEffect(() => {
@@ -303,129 +369,30 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
         }
 
         const now = Tone.now();
-        const currentTime = Tone.now();
-
-        // Play each dataset's clusters (including result dataset)
-        const allDatasetsToPlay: Array<{ dataset: CalciumDataset; datasetIdx: number }> = [
-          ...datasets.map((d, idx) => ({ dataset: d, datasetIdx: idx })),
-          ...(resultDataset ? [{ dataset: resultDataset, datasetIdx: -1 }] : [])
-        ];
-
-        allDatasetsToPlay.forEach(({ dataset, datasetIdx }) => {
-          const analysis = datasetClustersRef.current.get(datasetIdx);
-          if (!analysis || analysis.clusters.length === 0) return;
 
+        // Play each dataset's notes for this frame (including result dataset)
+        datasetScoresRef.current.forEach((notesByFrame, datasetIdx) => {
           const instruments = datasetInstrumentsRef.current.get(datasetIdx);
           if (!instruments) return;
 
-          // Process each cluster
-          analysis.clusters.forEach((cluster) => {
-            const instrument = instruments.get(cluster.id);
+          (notesByFrame.get(nextFrame) || []).forEach(note => {
+            const instrument = instruments.get(note.clusterId);
             if (!instrument) return;
 
-            // Get neuron activities for this frame
-            const neuronActivities = cluster.neurons
-              .map(neuronIdx => {
-                const neuron = dataset.neurons[neuronIdx];
-                if (!neuron || !neuron.trace || nextFrame >= neuron.trace.length) return null;
-                
-                const intensity = neuron.trace[nextFrame];
-                const prevIntensity = nextFrame > 0 && neuron.trace[nextFrame - 1] 
-                  ? neuron.trace[nextFrame - 1] 
-                  : 0;
-                
-                return {
-                  idx: neuronIdx,
-                  intensity,
-                  prevIntensity,
-                  change: intensity - prevIntensity
-                };
-              })
-              .filter(n => n !== null) as Array<{
-                idx: number;
-                intensity: number;
-                prevIntensity: number;
-                change: number;
-              }>;
-
-            if (neuronActivities.length === 0) return;
-
-            // Calculate cluster metrics
-            const avgIntensity = neuronActivities.reduce((sum, n) => sum + n.intensity, 0) / neuronActivities.length;
-            const activeCount = neuronActivities.filter(n => n.intensity > 0.1).length;
-            const activityRatio = activeCount / neuronActivities.length;
-            const clusterActivity = avgIntensity * activityRatio;
-
-            // Get PCA centroid for pitch offset
-            const pcaData = analysis.pcaResult;
-            const pcaCentroid = pcaData?.transformed[cluster.neurons[0]] || [0, 0, 0];
-            const pitchOffset = Math.floor((pcaCentroid[0] + 2) * 2) % 12;
-            // Result dataset (idx -1) gets a distinct octave range, others are spaced out
-            const baseOctave = datasetIdx === -1 
-              ? 5  // Result dataset in higher octave to distinguish it
-              : 3 + Math.floor(datasetIdx / 2) + (activityRatio > 0.5 ? 1 : 0);
-
-            // Trigger on spikes or sustained activity
-            const threshold = 0.05;
-            const spikeThreshold = 0.1;
-            
-            const spikes = neuronActivities.filter(n => 
-              n.change > spikeThreshold && n.intensity > threshold
-            );
-            
-            const sustained = neuronActivities.filter(n => 
-              n.intensity > threshold && n.intensity > n.prevIntensity * 0.9
-            );
-
-            const neuronsToPlay = spikes.length > 0 ? spikes : sustained;
-            if (neuronsToPlay.length === 0) return;
-
             try {
-              // Map neurons to notes
-              const notesToPlay = neuronsToPlay
-                .slice(0, Math.min(5, neuronsToPlay.length))
-                .map((neuron, noteIdx) => {
-                  const scaleDegree = Math.floor(neuron.intensity * 7) % 7;
-                  const finalDegree = (scaleDegree + pitchOffset) % 7;
-                  const octave = baseOctave + Math.floor(neuron.intensity * 2);
-                  const frequency = getNoteFrequency(finalDegree, octave, MAJOR_SCALE);
-                  const volume = Tone.gainToDb(Math.max(0.1, Math.min(1, neuron.intensity * 0.8)));
-                  const duration = neuron.intensity > 0.5 ? '8n' : '16n';
-                  
-                  return { frequency, volume, duration, intensity: neuron.intensity };
-                })
-                .sort((a, b) => a.frequency - b.frequency);
-
-              // Play notes
-              notesToPlay.forEach((note, noteIdx) => {
-                const playKey = `${datasetIdx}-${cluster.id}`;
-                const lastPlay = lastPlayTimeRef.current.get(playKey) || 0;
-                const timeSinceLastPlay = currentTime - lastPlay;
-                
-                if (timeSinceLastPlay >= 0.05 || noteIdx === 0) {
-                  if (noteIdx === 0) {
-                    lastPlayTimeRef.current.set(playKey, currentTime);
-                  }
-                  
-                  try {
-                    if (instrument instanceof Tone.PolySynth) {
-                      instrument.triggerAttackRelease(
-                        Tone.Frequency(note.frequency).toNote(),
-                        note.duration,
-                        now + noteIdx * 0.01,
-                        note.volume
-                      );
-                    } else {
-                      instrument.volume.value = note.volume;
-                      instrument.triggerAttackRelease(note.frequency, note.duration, now + noteIdx * 0.01);
-                    }
-                  } catch (error) {
-                    // Ignore timing errors
-                  }
-                }
-              });
+              if (instrument instanceof Tone.PolySynth) {
+                instrument.triggerAttackRelease(
+                  Tone.Frequency(note.frequency).toNote(),
+                  note.duration,
+                  now + note.offset,
+                  note.volume
+                );
+              } else {
+                instrument.volume.value = note.volume;
+                instrument.triggerAttackRelease(note.frequency, note.duration, now + note.offset);
+              }
             } catch (error) {
-              // Ignore errors
+              // Ignore timing errors
             }
           });
         });
@@ -433,10 +400,7 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
         // Schedule next frame
         if (isPlayingRef.current) {
           // Recalculate interval with current tempo for next frame
-          const nextTempo = tempoRef.current;
-          const nextBaseInterval = (1000 / (datasets[0]?.fps || 10)) * (120 / nextTempo);
-          const nextMinInterval = 20;
-          const nextActualInterval = Math.max(nextMinInterval, nextBaseInterval);
+          const nextActualInterval = getFrameIntervalMs(datasets[0]?.fps || 10, tempoRef.current);
           
           timeoutRef.current = window.setTimeout(() => {
             if (isPlayingRef.current) {
@@ -463,7 +427,6 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
             clearTimeout(timeoutRef.current);
             timeoutRef.current = null;
           }
-          lastPlayTimeRef.current.clear();
           // Stop all instruments
           datasetInstrumentsRef.current.forEach(instruments => {
             instruments.forEach(instrument => {
@@ -487,7 +450,6 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
         clearTimeout(timeoutRef.current);
         timeoutRef.current = null;
       }
-      lastPlayTimeRef.current.clear();
       datasetInstrumentsRef.current.forEach(instruments => {
         instruments.forEach(instrument => {
           try {
@@ -829,6 +791,7 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
               max="8"
               value={numClusters.get(0) || ''}
               placeholder="Auto"
+              disabled={!usesClusterCount(clusteringMethod)}
               onChange={(e) => {
                 const newMap = new Map(numClusters);
                 const val = e.target.value ? Number(e.target.value) : null;
@@ -841,13 +804,27 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
                 }
                 setNumClusters(newMap);
               }}
-              className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200" 
+              className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200 disabled:opacity-50" 
               style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
             />
             <span className="text-xs text-amber-300" style={{ fontFamily: 'Orbitron, sans-serif' }}>
-              (Leave empty for auto-detection)
+              {usesClusterCount(clusteringMethod) ? '(Leave empty for auto-detection)' : '(Found from density)'}
             </span>
         </div>
+
+          <div className="flex items-center gap-3">
+            <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Method:</label>
+            <select
+              value={clusteringMethod}
+              onChange={(e) => setClusteringMethod(e.target.value as ClusteringMethod)}
+              className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200"
+              style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+            >
+              {(Object.keys(CLUSTERING_METHOD_LABELS) as ClusteringMethod[]).map(method => (
+                <option key={method} value={method}>{CLUSTERING_METHOD_LABELS[method]}</option>
+              ))}
+            </select>
+          </div>
       </div>
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -882,6 +859,8 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
                 )}
               </div>
 
+              {renderClusterQuality(-1)}
+
               {/* Activity timeline */}
               <div>
                 <div className="text-xs text-amber-300 mb-1" style={{ fontFamily: 'Orbitron, sans-serif' }}>Activity Timeline</div>
@@ -950,6 +929,8 @@ const DatasetComparison = ({ datasets, onDatasetCreated, shouldPause = 0 }: Data
                   )}
                 </div>
 
+                {renderClusterQuality(idx)}
+
                 {/* Activity timeline */}
                 <div>
                   <div className="text-xs text-amber-300 mb-1" style={{ fontFamily: 'Orbitron, sans-serif' }}>Activity Timeline</div>
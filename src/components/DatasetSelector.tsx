@@ -1,15 +1,60 @@
 import { useState } from 'react';
 import { Loader2, Check } from 'lucide-react';
 import { AVAILABLE_DATASETS, DatasetInfo } from '../utils/datasetLoader';
+import { TraceNormalization, TraceProcessingOptions } from '../utils/traceProcessing';
+import { MotionCorrectionMode, MotionCorrectionOptions } from '../utils/motionCorrection';
+import { SegmentationMethod, SegmentationOptions } from '../utils/roiSegmentation';
+import CacheManager from './CacheManager';
+import TraceImportDropZone from './TraceImportDropZone';
 
 interface DatasetSelectorProps {
   onDatasetSelect: (dataset: DatasetInfo) => void;
   isLoading: boolean;
   loadedDatasets: string[];
   datasetMetadata?: Map<string, DatasetInfo>; // Updated metadata from ZIP files
+  fpsOverride?: number | null; // Frame rate applied to the next load, null = from metadata
+  onFpsOverrideChange?: (fps: number | null) => void;
+  traceProcessing?: TraceProcessingOptions; // Applied to the next load
+  onTraceProcessingChange?: (options: TraceProcessingOptions) => void;
+  motionCorrection?: MotionCorrectionOptions; // Applied to the next load
+  onMotionCorrectionChange?: (options: MotionCorrectionOptions) => void;
+  segmentation?: SegmentationOptions; // ROI detection for the next load
+  onSegmentationChange?: (options: SegmentationOptions) => void;
+  onFilesImport?: (files: File[]) => void; // Suite2p / CSV trace exports, or TIFF recordings to extract
 }
 
-const DatasetSelector = ({ onDatasetSelect, isLoading, loadedDatasets, datasetMetadata }: DatasetSelectorProps) => {
+const NORMALIZATION_LABELS: Record<TraceNormalization, string> = {
+  minmax: 'Min-max (legacy)',
+  dff: 'ΔF/F',
+  zscore: 'Z-score'
+};
+
+const MOTION_CORRECTION_LABELS: Record<MotionCorrectionMode, string> = {
+  off: 'Off',
+  rigid: 'Rigid',
+  piecewise: 'Piecewise rigid'
+};
+
+const SEGMENTATION_LABELS: Record<SegmentationMethod, string> = {
+  variance: 'Variance peaks (legacy)',
+  correlation: 'Correlation + region growing'
+};
+
+const DatasetSelector = ({
+  onDatasetSelect,
+  isLoading,
+  loadedDatasets,
+  datasetMetadata,
+  fpsOverride = null,
+  onFpsOverrideChange,
+  traceProcessing,
+  onTraceProcessingChange,
+  motionCorrection,
+  onMotionCorrectionChange,
+  segmentation,
+  onSegmentationChange,
+  onFilesImport
+}: DatasetSelectorProps) => {
   const [selectedDataset, setSelectedDataset] = useState<string | null>(null);
   
   // Helper to get dataset info (use merged metadata if available, otherwise use hardcoded)
@@ -51,6 +96,191 @@ const DatasetSelector = ({ onDatasetSelect, isLoading, loadedDatasets, datasetMe
           <p className="text-xs text-amber-300/80" style={{ fontFamily: 'Orbitron, sans-serif' }}>
             Press buttons A1-A20 to select datasets. Datasets are automatically downloaded when selected.
           </p>
+          {onFpsOverrideChange && (
+            <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              <label htmlFor="fps-override">Frame rate override (Hz):</label>
+              <input
+                id="fps-override"
+                type="number"
+                min="0.1"
+                max="1000"
+                step="0.1"
+                placeholder="Auto"
+                value={fpsOverride ?? ''}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  onFpsOverrideChange(Number.isFinite(value) && value > 0 ? value : null);
+                }}
+                className="bg-amber-900/40 border rounded px-2 py-1 w-20 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              />
+              <span className="text-amber-300/60">
+                {fpsOverride ? 'Applied to the next dataset you load' : 'Leave blank to use the rate from the dataset metadata'}
+              </span>
+            </div>
+          )}
+          {traceProcessing && onTraceProcessingChange && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              <label htmlFor="trace-normalization">Trace processing:</label>
+              <select
+                id="trace-normalization"
+                value={traceProcessing.normalization}
+                onChange={(e) => onTraceProcessingChange({
+                  ...traceProcessing,
+                  normalization: e.target.value as TraceNormalization
+                })}
+                className="bg-amber-900/40 border rounded px-2 py-1 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              >
+                {(Object.keys(NORMALIZATION_LABELS) as TraceNormalization[]).map(key => (
+                  <option key={key} value={key}>{NORMALIZATION_LABELS[key]}</option>
+                ))}
+              </select>
+              {traceProcessing.normalization === 'dff' && (
+                <>
+                  <label htmlFor="baseline-window">Baseline window (s):</label>
+                  <input
+                    id="baseline-window"
+                    type="number"
+                    min="1"
+                    max="600"
+                    value={traceProcessing.baselineWindowSeconds}
+                    onChange={(e) => onTraceProcessingChange({
+                      ...traceProcessing,
+                      baselineWindowSeconds: Math.max(1, Math.min(600, Number(e.target.value) || 1))
+                    })}
+                    className="bg-amber-900/40 border rounded px-2 py-1 w-16 text-amber-200"
+                    style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                  />
+                  <label htmlFor="baseline-percentile">Percentile:</label>
+                  <input
+                    id="baseline-percentile"
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={traceProcessing.baselinePercentile}
+                    onChange={(e) => onTraceProcessingChange({
+                      ...traceProcessing,
+                      baselinePercentile: Math.max(0, Math.min(100, Number(e.target.value) || 0))
+                    })}
+                    className="bg-amber-900/40 border rounded px-2 py-1 w-16 text-amber-200"
+                    style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                  />
+                </>
+              )}
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={traceProcessing.neuropil}
+                  onChange={(e) => onTraceProcessingChange({ ...traceProcessing, neuropil: e.target.checked })}
+                />
+                Neuropil subtraction
+              </label>
+            </div>
+          )}
+          {motionCorrection && onMotionCorrectionChange && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              <label htmlFor="motion-correction">Motion correction:</label>
+              <select
+                id="motion-correction"
+                value={motionCorrection.mode}
+                onChange={(e) => onMotionCorrectionChange({
+                  ...motionCorrection,
+                  mode: e.target.value as MotionCorrectionMode
+                })}
+                className="bg-amber-900/40 border rounded px-2 py-1 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              >
+                {(Object.keys(MOTION_CORRECTION_LABELS) as MotionCorrectionMode[]).map(key => (
+                  <option key={key} value={key}>{MOTION_CORRECTION_LABELS[key]}</option>
+                ))}
+              </select>
+              {motionCorrection.mode !== 'off' && (
+                <>
+                  <label htmlFor="max-shift">Max shift (px):</label>
+                  <input
+                    id="max-shift"
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={motionCorrection.maxShift}
+                    onChange={(e) => onMotionCorrectionChange({
+                      ...motionCorrection,
+                      maxShift: Math.max(1, Math.min(100, Number(e.target.value) || 1))
+                    })}
+                    className="bg-amber-900/40 border rounded px-2 py-1 w-16 text-amber-200"
+                    style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                  />
+                </>
+              )}
+              {motionCorrection.mode === 'piecewise' && (
+                <>
+                  <label htmlFor="block-size">Block size (px):</label>
+                  <input
+                    id="block-size"
+                    type="number"
+                    min="16"
+                    max="512"
+                    step="16"
+                    value={motionCorrection.blockSize}
+                    onChange={(e) => onMotionCorrectionChange({
+                      ...motionCorrection,
+                      blockSize: Math.max(16, Math.min(512, Number(e.target.value) || 16))
+                    })}
+                    className="bg-amber-900/40 border rounded px-2 py-1 w-16 text-amber-200"
+                    style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                  />
+                </>
+              )}
+              <span className="text-amber-300/60">
+                {motionCorrection.mode === 'off' ? 'For awake recordings with brain motion' : 'Registers frames before traces are extracted'}
+              </span>
+            </div>
+          )}
+          {segmentation && onSegmentationChange && (
+            <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              <label htmlFor="roi-detection">ROI detection:</label>
+              <select
+                id="roi-detection"
+                value={segmentation.method}
+                onChange={(e) => onSegmentationChange({
+                  ...segmentation,
+                  method: e.target.value as SegmentationMethod
+                })}
+                className="bg-amber-900/40 border rounded px-2 py-1 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              >
+                {(Object.keys(SEGMENTATION_LABELS) as SegmentationMethod[]).map(key => (
+                  <option key={key} value={key}>{SEGMENTATION_LABELS[key]}</option>
+                ))}
+              </select>
+              <label htmlFor="max-neurons">Max neurons:</label>
+              <input
+                id="max-neurons"
+                type="number"
+                min="1"
+                max="2000"
+                value={segmentation.maxNeurons}
+                onChange={(e) => onSegmentationChange({
+                  ...segmentation,
+                  maxNeurons: Math.max(1, Math.min(2000, Math.round(Number(e.target.value)) || 1))
+                })}
+                className="bg-amber-900/40 border rounded px-2 py-1 w-20 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              />
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={segmentation.ignoreRegions}
+                  onChange={(e) => onSegmentationChange({ ...segmentation, ignoreRegions: e.target.checked })}
+                />
+                Ignore ground-truth regions
+              </label>
+              <span className="text-amber-300/60">
+                {segmentation.ignoreRegions ? 'ROIs are always detected from the movie' : 'Used only when a dataset has no regions'}
+              </span>
+            </div>
+          )}
         </div>
         <div className="flex items-center justify-center gap-4 relative z-10">
           {/* Left Display Panel - 10 slots in 2 columns */}
@@ -110,6 +340,7 @@ const DatasetSelector = ({ onDatasetSelect, isLoading, loadedDatasets, datasetMe
                         </div>
                         <div className="text-xs text-amber-300/50" style={{ fontFamily: 'Orbitron, sans-serif' }}>
                           🎬 {displayDataset.frameCount ? displayDataset.frameCount.toLocaleString() : 'Unknown'} frames
+                          {displayDataset.rateHz ? ` @ ${displayDataset.rateHz} Hz` : ''}
                         </div>
                       </div>
                       <div className="flex items-center gap-1 ml-1 flex-shrink-0">
@@ -307,6 +538,7 @@ const DatasetSelector = ({ onDatasetSelect, isLoading, loadedDatasets, datasetMe
                         </div>
                         <div className="text-xs text-amber-300/50" style={{ fontFamily: 'Orbitron, sans-serif' }}>
                           🎬 {displayDataset.frameCount ? displayDataset.frameCount.toLocaleString() : 'Unknown'} frames
+                          {displayDataset.rateHz ? ` @ ${displayDataset.rateHz} Hz` : ''}
                         </div>
                       </div>
                       <div className="flex items-center gap-1 ml-1 flex-shrink-0">
@@ -324,6 +556,19 @@ const DatasetSelector = ({ onDatasetSelect, isLoading, loadedDatasets, datasetMe
             </div>
           </div>
         </div>
+
+        {onFilesImport && (
+          <TraceImportDropZone onFilesImport={onFilesImport} disabled={isLoading} />
+        )}
+
+        {/* Cached datasets, refreshed whenever another dataset finishes loading */}
+        <CacheManager
+          refreshKey={loadedDatasets.length}
+          getDatasetName={(datasetId) => {
+            const dataset = AVAILABLE_DATASETS.find(d => d.id === datasetId);
+            return dataset ? getDatasetInfo(dataset).name : datasetId;
+          }}
+        />
       </div>
     </div>
   );
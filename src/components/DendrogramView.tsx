@@ -0,0 +1,116 @@
+import { memo, useMemo } from 'react';
+import { Cluster } from '../utils/clustering';
+import { Dendrogram } from '../utils/hierarchicalClustering';
+
+interface DendrogramViewProps {
+  dendrogram: Dendrogram;
+  clusters: Cluster[];
+  getClusterColor: (clusterIdx: number) => string;
+}
+
+const VIEW_WIDTH = 400;
+const VIEW_HEIGHT = 160;
+const PADDING = { top: 8, right: 8, bottom: 18, left: 8 };
+const MAX_LEAVES = 30; // Lower merges are collapsed into leaves labelled with their size
+const NEUTRAL = 'rgba(252, 211, 77, 0.6)';
+
+interface Segment {
+  path: string;
+  color: string;
+}
+
+interface Leaf {
+  x: number;
+  size: number;
+  color: string;
+}
+
+/**
+ * Top of the hierarchical merge tree with the cut that produced the clusters
+ * Branches below the cut take their cluster's colour
+ */
+const DendrogramView = memo(function DendrogramView({ dendrogram, clusters, getClusterColor }: DendrogramViewProps) {
+  const layout = useMemo(() => {
+    const { leafCount: n, merges } = dendrogram;
+    if (merges.length === 0) return null;
+
+    const clusterOf = new Map<number, number>();
+    clusters.forEach((cluster, idx) => cluster.neurons.forEach(neuron => clusterOf.set(neuron, idx)));
+    const representative: number[] = [];
+    merges.forEach((merge, i) => {
+      representative[i] = merge.left < n ? merge.left : representative[merge.left - n];
+    });
+
+    const firstShown = Math.max(0, merges.length - (MAX_LEAVES - 1));
+    const maxHeight = merges[merges.length - 1].height || 1;
+    const cutIndex = merges.length - clusters.length; // First merge above the cut
+    const cutHeight = cutIndex > 0 && cutIndex < merges.length
+      ? (merges[cutIndex - 1].height + merges[cutIndex].height) / 2
+      : null;
+
+    const plotWidth = VIEW_WIDTH - PADDING.left - PADDING.right;
+    const plotHeight = VIEW_HEIGHT - PADDING.top - PADDING.bottom;
+    const toY = (height: number) => PADDING.top + plotHeight * (1 - height / maxHeight);
+    const shownLeaves = Math.min(MAX_LEAVES, n);
+    const slot = plotWidth / shownLeaves;
+
+    const segments: Segment[] = [];
+    const leaves: Leaf[] = [];
+    const colorOf = (id: number) => {
+      const point = id < n ? id : representative[id - n];
+      const idx = clusterOf.get(point);
+      return idx === undefined ? NEUTRAL : getClusterColor(idx);
+    };
+
+    // Returns the node's anchor; collapsed subtrees become leaves on the baseline
+    const place = (id: number): { x: number; y: number; color: string } => {
+      if (id < n || id - n < firstShown) {
+        const leaf = { x: PADDING.left + slot * (leaves.length + 0.5), size: id < n ? 1 : merges[id - n].size, color: colorOf(id) };
+        leaves.push(leaf);
+        return { x: leaf.x, y: toY(0), color: leaf.color };
+      }
+      const merge = merges[id - n];
+      const left = place(merge.left);
+      const right = place(merge.right);
+      const y = toY(merge.height);
+      const belowCut = id - n < cutIndex;
+      const color = belowCut && left.color === right.color ? left.color : NEUTRAL;
+      segments.push({ path: `M${left.x},${left.y}V${y}H${right.x}V${right.y}`, color });
+      return { x: (left.x + right.x) / 2, y, color };
+    };
+    place(n + merges.length - 1);
+
+    return { segments, leaves, cutY: cutHeight === null ? null : toY(cutHeight) };
+  }, [dendrogram, clusters, getClusterColor]);
+
+  if (!layout) return null;
+
+  return (
+    <svg viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Dendrogram">
+      {layout.segments.map((segment, i) => (
+        <path key={i} d={segment.path} fill="none" stroke={segment.color} strokeWidth="1.5" />
+      ))}
+      {layout.leaves.map((leaf, i) => (
+        <text key={i} x={leaf.x} y={VIEW_HEIGHT - 6} textAnchor="middle" fontSize="7" fill={leaf.color}>
+          {leaf.size}
+        </text>
+      ))}
+      {layout.cutY !== null && (
+        <line
+          x1={PADDING.left}
+          x2={VIEW_WIDTH - PADDING.right}
+          y1={layout.cutY}
+          y2={layout.cutY}
+          stroke="#f87171"
+          strokeDasharray="4 3"
+        >
+          <title>Cut into {clusters.length} clusters</title>
+        </line>
+      )}
+    </svg>
+  );
+});
+
+DendrogramView.displayName = 'DendrogramView';
+
+export default DendrogramView;
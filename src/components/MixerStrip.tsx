@@ -0,0 +1,168 @@
+import { memo } from 'react';
+import { RotateCcw, SlidersHorizontal } from 'lucide-react';
+import { Cluster } from '../utils/clustering';
+import {
+  ChannelSettings,
+  getChannel,
+  INSTRUMENT_TYPES,
+  MAX_CHANNEL_VOLUME,
+  MixerSettings,
+  resolveChannelEffects
+} from '../utils/mixer';
+import { getInstrumentEffectSettings, InstrumentType } from '../utils/instruments';
+
+interface MixerStripProps {
+  clusters: Cluster[];
+  mixer: MixerSettings;
+  assignedInstruments: InstrumentType[]; // What each cluster plays without an override
+  onChannelChange: (clusterIdx: number, patch: Partial<ChannelSettings>) => void;
+  onReset: () => void;
+  getClusterColor: (clusterIdx: number) => string;
+}
+
+const labelStyle = { fontFamily: 'Orbitron, sans-serif' };
+
+/**
+ * One channel strip per cluster: instrument, fader, pan, sends, mute and solo
+ */
+const MixerStrip = memo(function MixerStrip({
+  clusters,
+  mixer,
+  assignedInstruments,
+  onChannelChange,
+  onReset,
+  getClusterColor
+}: MixerStripProps) {
+  if (clusters.length === 0) return null;
+  const anySolo = clusters.some((_, idx) => getChannel(mixer, idx).solo);
+
+  return (
+    <div className="bg-amber-900/20 border rounded-lg p-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-xl font-semibold text-amber-200 flex items-center gap-2" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+          <SlidersHorizontal className="w-5 h-5" />
+          MIXER
+        </h3>
+        <button
+          onClick={onReset}
+          className="jukebox-button flex items-center gap-1 text-xs px-2 py-1 rounded"
+          style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+          title="Reset every channel to its defaults"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-8 gap-3">
+        {clusters.map((cluster, idx) => {
+          const channel = getChannel(mixer, idx);
+          const assigned = assignedInstruments[idx];
+          const effects = resolveChannelEffects(channel, getInstrumentEffectSettings(channel.instrument ?? assigned));
+          const silenced = anySolo ? !channel.solo : channel.mute;
+          const color = getClusterColor(idx);
+
+          return (
+            <div
+              key={cluster.id}
+              className={`bg-black/30 border rounded p-3 space-y-2 text-xs text-amber-200 transition-opacity ${silenced ? 'opacity-50' : ''}`}
+              style={{ borderColor: color + '60', ...labelStyle }}
+            >
+              <div className="font-semibold" style={{ color }}>Cluster {cluster.id}</div>
+
+              <select
+                value={channel.instrument ?? ''}
+                onChange={e => onChannelChange(idx, { instrument: (e.target.value || null) as InstrumentType | null })}
+                className="w-full bg-amber-900/40 border rounded px-1 py-1 text-amber-200"
+                style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                aria-label={`Cluster ${cluster.id} instrument`}
+              >
+                <option value="">Auto ({assigned})</option>
+                {INSTRUMENT_TYPES.map(type => (
+                  <option key={type} value={type}>{type}</option>
+                ))}
+              </select>
+
+              <label className="block">
+                Volume {Math.round(channel.volume * 100)}%
+                <input
+                  type="range"
+                  min="0"
+                  max={MAX_CHANNEL_VOLUME}
+                  step="0.01"
+                  value={channel.volume}
+                  onChange={e => onChannelChange(idx, { volume: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+
+              <label className="block">
+                Pan {channel.pan === 0 ? 'C' : `${channel.pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(channel.pan) * 100)}`}
+                <input
+                  type="range"
+                  min="-1"
+                  max="1"
+                  step="0.05"
+                  value={channel.pan}
+                  onChange={e => onChannelChange(idx, { pan: Number(e.target.value) })}
+                  onDoubleClick={() => onChannelChange(idx, { pan: 0 })}
+                  className="w-full"
+                  title="Double-click to centre"
+                />
+              </label>
+
+              <label className="block">
+                Reverb {Math.round(effects.reverbWet * 100)}%
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={effects.reverbWet}
+                  onChange={e => onChannelChange(idx, { reverbSend: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+
+              <label className="block">
+                Delay {Math.round(effects.delay.wet * 100)}%
+                <input
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.01"
+                  value={effects.delay.wet}
+                  onChange={e => onChannelChange(idx, { delaySend: Number(e.target.value) })}
+                  className="w-full"
+                />
+              </label>
+
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onChannelChange(idx, { mute: !channel.mute })}
+                  className={`jukebox-button flex-1 px-2 py-1 rounded ${channel.mute ? 'bg-red-700/50' : ''}`}
+                  aria-pressed={channel.mute}
+                  title="Mute"
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onChannelChange(idx, { solo: !channel.solo })}
+                  className={`jukebox-button flex-1 px-2 py-1 rounded ${channel.solo ? 'bg-yellow-600/50' : ''}`}
+                  aria-pressed={channel.solo}
+                  title="Solo"
+                >
+                  S
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+});
+
+MixerStrip.displayName = 'MixerStrip';
+
+export default MixerStrip;
@@ -1,41 +1,76 @@
-import { useState, useRef, useEffect, useMemo } from 'react';
-import { Play, Pause, Volume2, Info, Music } from 'lucide-react';
+import { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import { Play, Pause, Volume2, Info, Music, Download, Loader2, FileMusic } from 'lucide-react';
 import * as Tone from 'tone';
 import { CalciumDataset } from '../types';
-import { extractTraceFeatures, performPCA } from '../utils/pca';
-import { kMeans, suggestOptimalK, Cluster } from '../utils/clustering';
-import { initSeededRandom, hashDataset } from '../utils/seededRandom';
+import { performPCA } from '../utils/pca';
+import { Cluster } from '../utils/clustering';
+import { analyzeDataset, DatasetAnalysis, EMPTY_ANALYSIS } from '../utils/clusterAnalysis';
+import {
+  ClusteringMethod,
+  ClusteringSettings,
+  CLUSTERING_METHOD_LABELS,
+  DEFAULT_CLUSTERING,
+  isFunctionalMethod,
+  LINKAGE_LABELS,
+  usesClusterCount
+} from '../utils/clusteringMethods';
+import { Linkage } from '../utils/hierarchicalClustering';
+import { correlationMatrix, MAX_LAG_FRAMES } from '../utils/functionalClustering';
+import { ConnectivityOverlay, GraphLayout, MAX_DRAWN_EDGES, thresholdEdges } from '../utils/connectivityGraph';
+import { analyzeDatasetInWorker, correlateTracesInWorker, isWorkerPoolSupported } from '../utils/workerPool';
+import { getCachedAnalysis, putCachedAnalysis } from '../utils/datasetCache';
+import { renderMusicalSonification, encodeWav } from '../utils/audioExport';
+import { createMidiFile } from '../utils/midiExport';
+import { downloadBlob, toFilenameStem } from '../utils/download';
+import { useTransportPlayback } from '../hooks/useTransportPlayback';
+import {
+  chooseModeFromActivity,
+  CHORD_PROGRESSIONS,
+  DEFAULT_TONALITY,
+  KEY_NAMES,
+  ProgressionName,
+  SCALE_LABELS,
+  SCALES,
+  ScaleMode,
+  Tonality
+} from '../utils/tonality';
+import {
+  assignInstrumentToCluster,
+  createInstrument,
+  getClusterVolumeScale,
+  getInstrumentEffectSettings,
+  InstrumentType
+} from '../utils/instruments';
+import { getFrameIntervalBeats, indexScoreByFrame, Score, ScoreNote, scoreFromDataset } from '../utils/scoreEngine';
 import BrainVisualization from './BrainVisualization';
+import PlaybackTimeline from './PlaybackTimeline';
 import ActivityPatternVisualization from './ActivityPatternVisualization';
+import NeuronDetailPanel from './NeuronDetailPanel';
+import MixerStrip from './MixerStrip';
+import PCAScreePlot from './PCAScreePlot';
+import ClusterQualityMetrics from './ClusterQualityMetrics';
+import DendrogramView from './DendrogramView';
+import ConnectivityPanel from './ConnectivityPanel';
+import PCAScatter3D from './PCAScatter3D';
+import {
+  ChannelSettings,
+  channelGain,
+  getChannel,
+  loadMixer,
+  MixerSettings,
+  mixerStorageKey,
+  resolveChannelEffects,
+  resolveInstrument,
+  saveMixer,
+  updateChannel
+} from '../utils/mixer';
 
 interface MusicalSonificationProps {
   dataset: CalciumDataset;
   shouldPause?: number;
+  onDatasetChange?: (dataset: CalciumDataset) => void; // ROI edits from the spatial map
 }
 
-// Musical scales and chords
-const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11]; // C major scale intervals
-const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10]; // A minor scale intervals
-const PENTATONIC = [0, 2, 4, 7, 9]; // Pentatonic scale intervals
-
-// Common chord progressions (as scale degrees)
-const CHORD_PROGRESSIONS = {
-  // I - V - vi - IV (very common, sounds good)
-  pop: [[0, 2, 4], [4, 6, 1], [5, 7, 9], [3, 5, 7]],
-  // I - vi - IV - V
-  classic: [[0, 2, 4], [5, 7, 9], [3, 5, 7], [4, 6, 1]],
-  // vi - IV - I - V
-  emotional: [[5, 7, 9], [3, 5, 7], [0, 2, 4], [4, 6, 1]],
-  // I - IV - vi - V
-  uplifting: [[0, 2, 4], [3, 5, 7], [5, 7, 9], [4, 6, 1]]
-};
-
-// Base frequency for C4
-export const C4 = 261.63;
-
-// Export scale for use in other components
-export { MAJOR_SCALE };
-
 // 8 Distinct Colors for 8 Clusters (FLUORO-POP palette)
 const CLUSTER_COLORS = [
   '#FF1900', // Red
@@ -52,498 +87,282 @@ export function getClusterColor(clusterIdx: number): string {
   return CLUSTER_COLORS[clusterIdx % CLUSTER_COLORS.length];
 }
 
-/**
- * Get note frequency from scale degree
- */
-export function getNoteFrequency(scaleDegree: number, octave: number = 4, scale: number[] = MAJOR_SCALE): number {
-  const noteInScale = scaleDegree % scale.length;
-  const semitones = scale[noteInScale] + (Math.floor(scaleDegree / scale.length) + octave - 4) * 12;
-  return C4 * Math.pow(2, semitones / 12);
+// Tone nodes between a cluster's instrument and the master gain
+interface ChannelNodes {
+  instrumentType: InstrumentType;
+  delay: Tone.FeedbackDelay;
+  reverb: Tone.Reverb;
+  panner: Tone.Panner;
+  fader: Tone.Gain;
 }
 
-/**
- * Get chord notes from scale degrees
- */
-function getChordNotes(chordDegrees: number[], rootOctave: number = 4, scale: number[] = MAJOR_SCALE): number[] {
-  return chordDegrees.map(degree => getNoteFrequency(degree, rootOctave, scale));
-}
+const NO_MIXER: MixerSettings = [];
 
-/**
- * Create different instrument sounds using Tone.js with effects
- * Returns synth that should be connected to gain node
- */
-export function createInstrument(type: 'piano' | 'bass' | 'strings' | 'flute' | 'guitar' | 'bell' | 'drum' | 'trumpet'): Tone.PolySynth | Tone.Synth {
-  let synth: Tone.PolySynth | Tone.Synth;
-  
-  switch (type) {
-    case 'piano':
-      // Piano-like: bright attack with quick decay
-      synth = new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'triangle' },
-        envelope: {
-          attack: 0.005,
-          decay: 0.2,
-          sustain: 0.1,
-          release: 0.4
-        }
-      });
-      break;
-    
-    case 'bass':
-      // Bass: low, warm, sustained
-      synth = new Tone.Synth({
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-          attack: 0.01,
-          decay: 0.2,
-          sustain: 0.6,
-          release: 0.4
-        },
-        // filter: {
-        //   type: 'lowpass',
-        //   frequency: 300,
-        //   Q: 1
-        // }
-      });
-      break;
-    
-    case 'strings':
-      // Strings: smooth, sustained, warm
-      synth = new Tone.PolySynth(Tone.Synth, {
-        oscillator: { type: 'sine' },
-        envelope: {
-          attack: 0.3,
-          decay: 0.2,
-          sustain: 0.8,
-          release: 1.2
-        }
-      });
-      break;
-    
-    case 'flute':
-      // Flute: breathy, melodic, quick attack
-      synth = new Tone.Synth({
-        oscillator: { type: 'sine' },
-        envelope: {
-          attack: 0.1,
-          decay: 0.2,
-          sustain: 0.6,
-          release: 0.5
-        },
-        // filter: {
-        //   type: 'lowpass',
-        //   frequency: 2000,
-        //   Q: 1
-        // }
-      });
-      break;
-    
-    case 'guitar':
-      // Guitar: plucky, percussive
-      synth = new Tone.Synth({
-        oscillator: { type: 'triangle' },
-        envelope: {
-          attack: 0.001,
-          decay: 0.2,
-          sustain: 0.1,
-          release: 0.4
-        },
-        // filter: {
-        //   type: 'lowpass',
-        //   frequency: 2000,
-        //   Q: 2
-        // }
-      });
-      break;
-    
-    case 'bell':
-      // Bell: bright, metallic, long decay
-      synth = new Tone.Synth({
-        oscillator: { type: 'sine' },
-        envelope: {
-          attack: 0.01,
-          decay: 0.3,
-          sustain: 0.2,
-          release: 1.2
-        }
-      });
-      break;
-    
-    case 'drum':
-      // Drum: percussive, short, punchy
-      synth = new Tone.Synth({
-        oscillator: { type: 'square' },
-        envelope: {
-          attack: 0.001,
-          decay: 0.1,
-          sustain: 0,
-          release: 0.2
-        },
-        // filter: {
-        //   type: 'lowpass',
-        //   frequency: 500,
-        //   Q: 3
-        // }
-      });
-      break;
-    
-    case 'trumpet':
-      // Trumpet: bright, brassy, quick attack
-      synth = new Tone.Synth({
-        oscillator: { type: 'sawtooth' },
-        envelope: {
-          attack: 0.01,
-          decay: 0.1,
-          sustain: 0.7,
-          release: 0.3
-        },
-        // filter: {
-        //   type: 'bandpass',
-        //   frequency: 1000,
-        //   Q: 2
-        // }
-      });
-      break;
-    
-    default:
-      synth = new Tone.Synth();
-  }
-  
-  return synth;
-}
-
-// All available instrument types
-export type InstrumentType = 'piano' | 'bass' | 'strings' | 'flute' | 'guitar' | 'bell' | 'drum' | 'trumpet';
-
-/**
- * Calculate oscillation frequency from trace using autocorrelation
- * Returns dominant frequency in Hz (scaled to dataset fps)
- */
-export function calculateOscillationFrequency(trace: number[], fps: number): number {
-  if (trace.length < 10) return 0;
-  
-  // Simple autocorrelation to find period
-  const maxLag = Math.min(trace.length / 2, 50);
-  let maxCorrelation = 0;
-  let bestPeriod = 1;
-  
-  for (let lag = 2; lag < maxLag; lag++) {
-    let correlation = 0;
-    for (let i = 0; i < trace.length - lag; i++) {
-      correlation += trace[i] * trace[i + lag];
-    }
-    correlation /= (trace.length - lag);
-    
-    if (correlation > maxCorrelation) {
-      maxCorrelation = correlation;
-      bestPeriod = lag;
-    }
-  }
-  
-  // Convert period to frequency (frames to Hz)
-  return bestPeriod > 0 ? fps / bestPeriod : 0;
-}
-
-/**
- * Calculate synchronization between neurons in cluster
- * Returns 0-1, where 1 = perfectly synchronized
- */
-export function calculateSynchronization(cluster: Cluster, dataset: CalciumDataset): number {
-  if (cluster.neurons.length < 2) return 0;
-  
-  let totalSync = 0;
-  let pairs = 0;
-  
-  for (let i = 0; i < cluster.neurons.length; i++) {
-    for (let j = i + 1; j < cluster.neurons.length; j++) {
-      const neuron1 = dataset.neurons[cluster.neurons[i]];
-      const neuron2 = dataset.neurons[cluster.neurons[j]];
-      if (!neuron1 || !neuron1.trace || !neuron2 || !neuron2.trace) continue;
-      
-      const trace1 = neuron1.trace;
-      const trace2 = neuron2.trace;
-      const minLen = Math.min(trace1.length, trace2.length);
-      
-      // Calculate cross-correlation
-      let correlation = 0;
-      const mean1 = trace1.slice(0, minLen).reduce((a, b) => a + b, 0) / minLen;
-      const mean2 = trace2.slice(0, minLen).reduce((a, b) => a + b, 0) / minLen;
-      
-      for (let f = 0; f < minLen; f++) {
-        correlation += (trace1[f] - mean1) * (trace2[f] - mean2);
-      }
-      
-      // Normalize to 0-1 range
-      totalSync += (correlation / minLen + 1) / 2;
-      pairs++;
-    }
-  }
-  
-  return pairs > 0 ? totalSync / pairs : 0;
-}
-
-/**
- * Assign instrument to cluster based on music theory, biology, and CS principles
- * 
- * Music Theory: Frequency range, harmonic role, timbre
- * Biology: Oscillation frequency, synchronization, spike patterns
- * CS: PCA dimensions, statistical properties
- */
-export function assignInstrumentToCluster(
-  cluster: Cluster,
-  clusterIdx: number,
-  dataset: CalciumDataset,
-  pcaResult: ReturnType<typeof performPCA> | null
-): InstrumentType {
-  if (!pcaResult || cluster.neurons.length === 0) {
-    const fallback: InstrumentType[] = ['piano', 'bass', 'strings', 'flute', 'guitar', 'bell', 'drum', 'trumpet'];
-    return fallback[clusterIdx % fallback.length];
-  }
-
-  // === BIOLOGY: Analyze neural activity patterns ===
-  let totalActivity = 0;
-  let spikeCount = 0;
-  let oscillationFrequencies: number[] = [];
-  let variances: number[] = [];
-  
-  cluster.neurons.forEach(neuronIdx => {
-    const neuron = dataset.neurons[neuronIdx];
-    if (neuron.trace) {
-      const mean = neuron.trace.reduce((a, b) => a + b, 0) / neuron.trace.length;
-      const variance = neuron.trace.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / neuron.trace.length;
-      const std = Math.sqrt(variance);
-      
-      totalActivity += mean;
-      variances.push(variance);
-      
-      // Calculate oscillation frequency (biology: neural oscillation rate)
-      const freq = calculateOscillationFrequency(neuron.trace, dataset.fps);
-      if (freq > 0) oscillationFrequencies.push(freq);
-      
-      // Count spikes (biology: action potential firing)
-      for (let i = 1; i < neuron.trace.length; i++) {
-        if (neuron.trace[i] - neuron.trace[i - 1] > std * 2) {
-          spikeCount++;
-        }
-      }
-    }
-  });
-  
-  const avgActivity = totalActivity / cluster.neurons.length;
-  const spikeRate = spikeCount / (cluster.neurons.length * dataset.frames);
-  const avgVariance = variances.reduce((a, b) => a + b, 0) / variances.length;
-  const coefficientOfVariation = avgActivity > 0 ? Math.sqrt(avgVariance) / avgActivity : 0;
-  
-  // Average oscillation frequency (biology → music theory: maps to pitch range)
-  const avgOscFreq = oscillationFrequencies.length > 0
-    ? oscillationFrequencies.reduce((a, b) => a + b, 0) / oscillationFrequencies.length
-    : 0;
-  
-  // === CS: PCA dimensions represent data structure ===
-  const sampleNeuronIdx = cluster.neurons[0];
-  const pcaCoords = pcaResult.transformed[sampleNeuronIdx] || [0, 0, 0];
-  const pca0 = pcaCoords[0]; // Primary dimension (likely oscillation mode)
-  const pca1 = pcaCoords[1]; // Secondary dimension (likely phase/timing)
-  const pca2 = pcaCoords[2]; // Tertiary dimension (likely amplitude pattern)
-  
-  // === BIOLOGY: Calculate synchronization (how neurons fire together) ===
-  const synchronization = calculateSynchronization(cluster, dataset);
-  
-  // === MUSIC THEORY: Map biological properties to musical characteristics ===
-  
-  // Use data-adaptive thresholds based on cluster properties relative to dataset
-  // This prevents hard-coded thresholds that might not fit all datasets
-  
-  // Calculate dataset-wide statistics for relative comparisons
-  const allOscFreqs: number[] = [];
-  const allSpikeRates: number[] = [];
-  const allSyncs: number[] = [];
-  
-  // Sample neurons from dataset to estimate population statistics
-  const sampleSize = Math.min(100, dataset.neurons.length);
-  for (let i = 0; i < sampleSize; i++) {
-    const neuron = dataset.neurons[Math.floor((i / sampleSize) * dataset.neurons.length)];
-    if (neuron.trace) {
-      const freq = calculateOscillationFrequency(neuron.trace, dataset.fps);
-      if (freq > 0) allOscFreqs.push(freq);
-      
-      const mean = neuron.trace.reduce((a, b) => a + b, 0) / neuron.trace.length;
-      const std = Math.sqrt(neuron.trace.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / neuron.trace.length);
-      let spikes = 0;
-      for (let j = 1; j < neuron.trace.length; j++) {
-        if (neuron.trace[j] - neuron.trace[j - 1] > std * 2) spikes++;
-      }
-      allSpikeRates.push(spikes / dataset.frames);
-    }
-  }
-  
-  const medianOscFreq = allOscFreqs.length > 0 
-    ? [...allOscFreqs].sort((a, b) => a - b)[Math.floor(allOscFreqs.length / 2)]
-    : 1.0;
-  const medianSpikeRate = allSpikeRates.length > 0
-    ? [...allSpikeRates].sort((a, b) => a - b)[Math.floor(allSpikeRates.length / 2)]
-    : 0.05;
-  
-  // 1. FREQUENCY RANGE (Music Theory: Bass/Mid/High)
-  // Use oscillation frequency (biology) mapped to musical frequency range
-  // Low oscillation = bass range, high oscillation = treble range
-  // Use data-adaptive thresholds based on median
-  const isLowFreq = avgOscFreq < medianOscFreq * 0.7 || pca0 < -0.2;
-  const isHighFreq = avgOscFreq > medianOscFreq * 1.5 || pca0 > 0.3;
-  const isMidFreq = !isLowFreq && !isHighFreq;
-  
-  // 2. TIMBRE (Music Theory: Sustained vs Percussive)
-  // Biology: Spike rate determines attack characteristics
-  // Low spike rate = sustained (strings, flute), high = percussive (drum, guitar)
-  // Use data-adaptive thresholds
-  const isSustained = spikeRate < medianSpikeRate * 0.8;
-  const isPercussive = spikeRate > medianSpikeRate * 1.5;
-  const isModerate = spikeRate >= medianSpikeRate * 0.8 && spikeRate <= medianSpikeRate * 1.5;
-  
-  // 3. DYNAMICS (Music Theory: Variable vs Stable)
-  // Biology: Coefficient of variation measures activity stability
-  // Use relative threshold - 0.4 is reasonable for normalized variability
-  const isVariable = coefficientOfVariation > 0.4;
-  const isStable = coefficientOfVariation < 0.4;
-  
-  // 4. HARMONIC ROLE (Music Theory: Foundation/Harmony/Melody/Rhythm)
-  // Biology: Synchronization determines if neurons work together (harmony) or independently (melody)
-  // This is a meaningful biological property: synchronized firing = functional connectivity
-  const isHarmonic = synchronization > 0.5; // Neurons fire together = harmony
-  const isMelodic = synchronization < 0.4; // Neurons fire independently = melody
-  const isRhythmic = spikeRate > medianSpikeRate * 1.5 && isPercussive; // Regular spikes = rhythm
-  
-  // === INSTRUMENT ASSIGNMENT (Combining all three perspectives) ===
-  // Use priority-based assignment with more lenient conditions
-  
-  // DRUM: Rhythmic (high spike rate, percussive) + Low synchronization (independent beats)
-  // Biology: Fast, independent firing = rhythmic pattern
-  if (isPercussive && spikeRate > medianSpikeRate * 1.5 && synchronization < 0.5) {
-    return 'drum';
-  }
-  
-  // BASS: Low frequency (foundation) + Stable (consistent)
-  // Biology: Low oscillation frequency + stable activity = foundational role
-  if (isLowFreq && (isStable || avgActivity > 0.25)) {
-    return 'bass';
-  }
-  
-  // TRUMPET: High frequency + Variable dynamics + Higher activity
-  // Biology: High oscillation + variable activity = prominent, dynamic signal
-  if (isHighFreq && isVariable && avgActivity > 0.25) {
-    return 'trumpet';
-  }
-  
-  // FLUTE: High frequency + Sustained + Lower activity
-  // Biology: High oscillation + sustained, gentle activity = melodic, sustained tone
-  if (isHighFreq && isSustained && avgActivity < 0.5) {
-    return 'flute';
-  }
-  
-  // STRINGS: Mid frequency + Sustained + Harmonic
-  // Biology: Synchronized, sustained firing = harmonic, ensemble-like behavior
-  if (isMidFreq && isSustained && (isHarmonic || avgActivity > 0.15)) {
-    return 'strings';
-  }
-  
-  // BELL: Distinctive PCA[1] (unique pattern) + Lower activity
-  // Biology: Unique temporal pattern = distinctive, bell-like characteristic
-  if (Math.abs(pca1) > 0.5 && avgActivity < 0.5) {
-    return 'bell';
-  }
-  
-  // GUITAR: Moderate spike rate (plucky) + Mid frequency
-  // Biology: Moderate, rhythmic spikes = plucky, guitar-like attack
-  if (isModerate && isMidFreq && spikeRate > medianSpikeRate * 0.5) {
-    return 'guitar';
-  }
-  
-  // More fallback options based on single strong characteristics
-  if (isHighFreq) {
-    return isVariable ? 'trumpet' : 'flute';
-  }
-  
-  if (isLowFreq) {
-    return 'bass';
-  }
-  
-  if (isPercussive && spikeRate > medianSpikeRate) {
-    return 'guitar';
-  }
-  
-  if (isSustained && isHarmonic) {
-    return 'strings';
-  }
-  
-  // PIANO: Versatile fallback - works for most patterns
-  // Biology: General-purpose, adaptable neuron activity
-  return 'piano';
-}
-
-const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationProps) => {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentFrame, setCurrentFrame] = useState(0);
+const MusicalSonification = ({ dataset, shouldPause = 0, onDatasetChange }: MusicalSonificationProps) => {
   const [tempo, setTempo] = useState(120);
   const [volume, setVolume] = useState(0.7);
   const [showInfo, setShowInfo] = useState(false);
   const [numClusters, setNumClusters] = useState(4);
+  const [clustering, setClustering] = useState<ClusteringSettings>(DEFAULT_CLUSTERING);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportStartFrame, setExportStartFrame] = useState(1);
+  const [exportEndFrame, setExportEndFrame] = useState(dataset.frames);
+  const [pinnedNeuron, setPinnedNeuron] = useState<number | null>(null);
+  const [soloNeuron, setSoloNeuron] = useState<number | null>(null);
+  const [keyRoot, setKeyRoot] = useState(DEFAULT_TONALITY.root);
+  const [modeChoice, setModeChoice] = useState<ScaleMode | 'auto'>(DEFAULT_TONALITY.mode);
+  const [pcaSelection, setPcaSelection] = useState<number[]>([]); // Lasso selection in the PCA scatter
+  const [progression, setProgression] = useState<ProgressionName | null>(DEFAULT_TONALITY.progression);
   
   const instrumentsRef = useRef<Map<number, Tone.PolySynth | Tone.Synth>>(new Map());
+  const channelNodesRef = useRef<Map<number, ChannelNodes>>(new Map()); // Per-cluster effects, pan and fader
   const clustersRef = useRef<Cluster[]>([]);
-  const timeoutRef = useRef<number | null>(null);
   const gainNodeRef = useRef<Tone.Gain | null>(null);
   const limiterRef = useRef<Tone.Limiter | null>(null);
   const compressorRef = useRef<Tone.Compressor | null>(null);
-  const isPlayingRef = useRef(false);
-  const currentFrameRef = useRef(0);
-  const loopRunningRef = useRef(false);
   const clusterActivityRef = useRef<Map<number, number>>(new Map()); // Track cluster activity levels
   const prevClusterActivityRef = useRef<Map<number, number>>(new Map()); // Track previous frame activity
-  const lastPlayTimeRef = useRef<Map<number, number>>(new Map()); // Track when each cluster last played
   const pcaResultRef = useRef<ReturnType<typeof performPCA> | null>(null);
-  const tempoRef = useRef(tempo);
+  const scoreRef = useRef<{ score: Score; notesByFrame: Map<number, ScoreNote[]> } | null>(null);
 
-  // Perform PCA and clustering
-  const { clusters, pcaResult, suggestedK, clusterAnalysis } = useMemo(() => {
-    if (dataset.neurons.length === 0) {
-      return { clusters: [], pcaResult: null, suggestedK: 4, clusterAnalysis: null };
-    }
+  // Play one frame of the score at the Transport's scheduled time
+  const playScoreFrame = (frame: number, time: number) => {
+    const frameScore = scoreRef.current;
+
+    // Update cluster activity for visualization
+    clustersRef.current.forEach((cluster, clusterIdx) => {
+      const activity = frameScore?.score.activity[clusterIdx]?.[frame];
+      if (activity !== null && activity !== undefined) {
+        clusterActivityRef.current.set(cluster.id, activity);
+        prevClusterActivityRef.current.set(cluster.id, activity);
+      }
+    });
+
+    (frameScore?.notesByFrame.get(frame) || []).forEach(note => {
+      const instrument = instrumentsRef.current.get(note.clusterId);
+      if (!instrument) return;
+
+      try {
+        if (instrument instanceof Tone.PolySynth) {
+          instrument.triggerAttackRelease(
+            Tone.Frequency(note.frequency).toNote(),
+            note.duration,
+            time + note.offset, // Slight stagger
+            note.volume
+          );
+        } else {
+          instrument.volume.setValueAtTime(note.volume, time + note.offset);
+          instrument.triggerAttackRelease(note.frequency, note.duration, time + note.offset);
+        }
+      } catch (error) {
+        console.warn(`Error playing cluster ${note.clusterId}:`, error);
+      }
+    });
+  };
+
+  // Stop all instruments and clear activity when playback pauses
+  const releaseInstruments = () => {
+    clusterActivityRef.current.clear();
+    prevClusterActivityRef.current.clear();
+    instrumentsRef.current.forEach(instrument => {
+      try {
+        if (instrument instanceof Tone.PolySynth) {
+          instrument.releaseAll();
+        } else {
+          instrument.triggerRelease();
+        }
+      } catch (e) {
+        // Ignore
+      }
+    });
+  };
+
+  const { isPlaying, currentFrame, loop, play, pause, seek, setLoop } = useTransportPlayback({
+    frameCount: dataset.frames,
+    frameIntervalBeats: getFrameIntervalBeats(dataset.fps, tempo),
+    tempo,
+    onFrame: playScoreFrame,
+    onStop: releaseInstruments
+  });
 
-    // Initialize seeded random for deterministic results
-    const seed = hashDataset(
-      dataset.datasetName || 'dataset',
-      dataset.neurons.length,
-      dataset.frames
-    );
-    initSeededRandom(seed);
+  // Perform PCA and clustering off the main thread; results are keyed to the dataset
+  // so clusters from a previous dataset never index into the new one
+  const [analysisState, setAnalysisState] = useState<{ dataset: CalciumDataset; analysis: DatasetAnalysis } | null>(null);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
 
-    // Extract features from traces AND spatial coordinates
+  // Density-based methods find their own cluster count, so k doesn't split their cache entries
+  const requestedK = usesClusterCount(clustering.method) ? numClusters : 0;
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setIsAnalyzing(true);
+
+    // Cached results first; fresh analyses are cached for the next visit
+    const run = async (): Promise<DatasetAnalysis> => {
+      const cached = await getCachedAnalysis(dataset, requestedK, clustering);
+      if (cached) return cached;
+
+      let analysis: DatasetAnalysis;
+      try {
+        analysis = isWorkerPoolSupported()
+          ? await analyzeDatasetInWorker(dataset, requestedK, clustering, { signal: controller.signal })
+          : analyzeDataset(dataset, requestedK, clustering);
+      } catch (error) {
+        if (controller.signal.aborted) throw error;
+        console.warn('Worker analysis failed, clustering on the main thread:', error);
+        analysis = analyzeDataset(dataset, requestedK, clustering);
+      }
+      await putCachedAnalysis(dataset, requestedK, clustering, analysis);
+      return analysis;
+    };
+
+    run()
+      .then(analysis => {
+        if (controller.signal.aborted) return;
+        setAnalysisState({ dataset, analysis });
+        setAnalysisError(null);
+      })
+      .catch(error => {
+        // Aborted runs were superseded by a newer dataset or setting
+        if (controller.signal.aborted) return;
+        console.warn('Clustering failed:', error);
+        setAnalysisError(error instanceof Error ? error.message : String(error));
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsAnalyzing(false);
+      });
+
+    return () => controller.abort();
+  }, [dataset, requestedK, clustering]);
+
+  const { clusters, pcaResult, suggestedK, clusterAnalysis, quality, noise, dendrogram } =
+    analysisState && analysisState.dataset === dataset ? analysisState.analysis : EMPTY_ANALYSIS;
+
+  const updateClustering = useCallback((patch: Partial<ClusteringSettings>) => {
+    setClustering(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  // Trace correlations for the connectivity view, computed only while it is open
+  const [showNetwork, setShowNetwork] = useState(false);
+  const [correlationState, setCorrelationState] = useState<{ dataset: CalciumDataset; matrix: Float64Array } | null>(null);
+  const [isCorrelating, setIsCorrelating] = useState(false);
+  const [edgeThreshold, setEdgeThreshold] = useState(0.5);
+  const [showGraphOnMap, setShowGraphOnMap] = useState(true);
+  const [graphLayout, setGraphLayout] = useState<GraphLayout>('anatomical');
+
+  useEffect(() => {
+    if (!showNetwork || correlationState?.dataset === dataset) return;
+    const controller = new AbortController();
     const traces = dataset.neurons.map(n => n.trace);
-    const features = extractTraceFeatures(traces, dataset.neurons, dataset.imageWidth, dataset.imageHeight);
-    
-    // Perform PCA (reduce to 3 dimensions)
-    const pca = performPCA(features, 3);
-    
-    // Determine optimal number of clusters
-    const analysis = suggestOptimalK(pca.transformed, 8);
-    const suggestedK = Math.max(2, Math.min(analysis.optimalK, 6));
-    
-    // Perform clustering
-    const clusterResult = kMeans(pca.transformed, numClusters || suggestedK, 100);
-    
-    return {
-      clusters: clusterResult,
-      pcaResult: pca,
-      suggestedK,
-      clusterAnalysis: analysis
+    setIsCorrelating(true);
+
+    const run = async (): Promise<Float64Array> => {
+      if (!isWorkerPoolSupported()) return correlationMatrix(traces);
+      try {
+        return await correlateTracesInWorker(traces, 0, { signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) throw error;
+        console.warn('Worker correlation failed, computing on the main thread:', error);
+        return correlationMatrix(traces);
+      }
     };
-  }, [dataset, numClusters]);
 
-  // Store clusters and PCA result in refs
+    // Storing the result re-runs this effect, which aborts the finished controller,
+    // so the busy flag is cleared alongside it rather than in a finally
+    run()
+      .then(matrix => {
+        if (controller.signal.aborted) return;
+        setCorrelationState({ dataset, matrix });
+        setIsCorrelating(false);
+      })
+      .catch(error => {
+        // Aborted runs were superseded by a newer dataset or a closed panel
+        if (controller.signal.aborted) return;
+        console.warn('Correlating traces failed:', error);
+        setIsCorrelating(false);
+      });
+
+    return () => controller.abort();
+  }, [showNetwork, dataset, correlationState]);
+
+  const correlation = correlationState && correlationState.dataset === dataset ? correlationState.matrix : null;
+  const connectivityEdges = useMemo(
+    () => (correlation ? thresholdEdges(correlation, dataset.neurons.length, edgeThreshold) : []),
+    [correlation, dataset.neurons.length, edgeThreshold]
+  );
+  const connectivityOverlay = useMemo<ConnectivityOverlay | null>(
+    () => (showNetwork && showGraphOnMap && connectivityEdges.length > 0
+      ? { edges: connectivityEdges.slice(0, MAX_DRAWN_EDGES), layout: graphLayout }
+      : null),
+    [showNetwork, showGraphOnMap, connectivityEdges, graphLayout]
+  );
+
+  // Mixer settings are saved per dataset and keyed to it like the analysis
+  const mixerKey = mixerStorageKey(dataset);
+  const [mixerState, setMixerState] = useState<{ key: string; channels: MixerSettings }>(() => ({
+    key: mixerKey,
+    channels: loadMixer(mixerKey)
+  }));
+  const mixer = mixerState.key === mixerKey ? mixerState.channels : NO_MIXER;
+  const mixerRef = useRef(mixer);
+  mixerRef.current = mixer;
+
+  useEffect(() => {
+    setMixerState(prev => (prev.key === mixerKey ? prev : { key: mixerKey, channels: loadMixer(mixerKey) }));
+  }, [mixerKey]);
+
+  useEffect(() => {
+    saveMixer(mixerState.key, mixerState.channels);
+  }, [mixerState]);
+
+  const handleChannelChange = useCallback((clusterIdx: number, patch: Partial<ChannelSettings>) => {
+    setMixerState(prev => ({ key: prev.key, channels: updateChannel(prev.channels, clusterIdx, patch) }));
+  }, []);
+
+  const handleMixerReset = useCallback(() => {
+    setMixerState(prev => ({ key: prev.key, channels: [] }));
+  }, []);
+
+  // Instrument each cluster plays: the mixer's override, else the one its activity suggests
+  const assignedInstruments = useMemo(
+    () => clusters.map((cluster, idx) => assignInstrumentToCluster(cluster, idx, dataset, pcaResult)),
+    [clusters, dataset, pcaResult]
+  );
+  const instrumentTypes = clusters.map((_, idx) => resolveInstrument(mixer, idx, assignedInstruments[idx]));
+  const instrumentKey = instrumentTypes.join(',');
+
+  // Data-driven mode, only computed when asked for
+  const autoMode = useMemo(
+    () => (modeChoice === 'auto' ? chooseModeFromActivity(dataset) : null),
+    [dataset, modeChoice]
+  );
+
+  const tonality = useMemo<Tonality>(() => ({
+    root: keyRoot,
+    mode: modeChoice === 'auto' ? autoMode?.mode ?? DEFAULT_TONALITY.mode : modeChoice,
+    progression
+  }), [keyRoot, modeChoice, autoMode, progression]);
+
+  // Score the whole dataset once per clustering; playback reads it frame by frame
+  const score = useMemo(() => {
+    const result = scoreFromDataset(dataset, clusters, pcaResult, { soloNeuron: soloNeuron ?? undefined, tonality });
+    return { score: result, notesByFrame: indexScoreByFrame(result) };
+  }, [dataset, clusters, pcaResult, soloNeuron, tonality]);
+
+  // Cluster of the pinned neuron, for its details
+  const pinnedClusterIdx = useMemo(() => {
+    if (pinnedNeuron === null) return null;
+    const idx = clusters.findIndex(cluster => cluster.neurons.includes(pinnedNeuron));
+    return idx === -1 ? null : idx;
+  }, [clusters, pinnedNeuron]);
+
+  // Store clusters, PCA result and score in refs
   useEffect(() => {
     clustersRef.current = clusters;
     pcaResultRef.current = pcaResult;
-  }, [clusters, pcaResult]);
+    scoreRef.current = score;
+  }, [clusters, pcaResult, score]);
 
   // Initialize instruments for each cluster
   useEffect(() => {
@@ -562,10 +381,7 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
     // Create gain node with volume scaling based on cluster count
     // More clusters = lower volume per cluster to prevent overwhelming sound
     // Use more aggressive scaling for 5+ clusters
-    const clusterVolumeScale = clusters.length > 4 
-      ? Math.max(0.2, 0.5 / clusters.length)  // More aggressive for 5+ clusters
-      : Math.max(0.4, 1.0 / Math.sqrt(clusters.length));  // Less aggressive for 4 or fewer
-    const scaledVolume = volume * clusterVolumeScale;
+    const scaledVolume = volume * getClusterVolumeScale(clusters.length);
     
     if (gainNodeRef.current) {
       gainNodeRef.current.dispose();
@@ -594,65 +410,30 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
     compressorRef.current.connect(limiterRef.current);
 
     // Create instrument for each cluster with effects
+    const types = instrumentKey.split(',') as InstrumentType[];
     clusters.forEach((cluster, idx) => {
-      const instrumentType = assignInstrumentToCluster(cluster, idx, dataset, pcaResult);
+      const instrumentType = types[idx];
       const instrument = createInstrument(instrumentType);
+      const channel = getChannel(mixerRef.current, idx);
       
-      // Add reverb and delay effects based on instrument type
-      let reverb: Tone.Reverb;
-      let delay: Tone.FeedbackDelay | null = null;
-      
-      switch (instrumentType) {
-        case 'strings':
-          reverb = new Tone.Reverb(0.8);
-          reverb.wet.value = 0.4;
-          delay = new Tone.FeedbackDelay({ delayTime: '8n', feedback: 0.3, wet: 0.2 });
-          break;
-        case 'flute':
-          reverb = new Tone.Reverb(0.5);
-          reverb.wet.value = 0.3;
-          delay = new Tone.FeedbackDelay({ delayTime: '8n', feedback: 0.2, wet: 0.15 });
-          break;
-        case 'piano':
-          reverb = new Tone.Reverb(0.4);
-          reverb.wet.value = 0.25;
-          break;
-        case 'bass':
-          reverb = new Tone.Reverb(0.2);
-          reverb.wet.value = 0.1;
-          break;
-        case 'guitar':
-          reverb = new Tone.Reverb(0.5);
-          reverb.wet.value = 0.3;
-          break;
-        case 'bell':
-          reverb = new Tone.Reverb(0.7);
-          reverb.wet.value = 0.4;
-          break;
-        case 'drum':
-          reverb = new Tone.Reverb(0.3);
-          reverb.wet.value = 0.15;
-          break;
-        case 'trumpet':
-          reverb = new Tone.Reverb(0.4);
-          reverb.wet.value = 0.25;
-          delay = new Tone.FeedbackDelay({ delayTime: '8n', feedback: 0.15, wet: 0.1 });
-          break;
-        default:
-          reverb = new Tone.Reverb(0.3);
-          reverb.wet.value = 0.2;
-      }
+      // Add reverb and delay effects based on instrument type and the channel's sends
+      // The delay is always created so its send can be raised during playback
+      const effects = resolveChannelEffects(channel, getInstrumentEffectSettings(instrumentType));
+      const reverb = new Tone.Reverb(effects.reverbDecay);
+      reverb.wet.value = effects.reverbWet;
+      const delay = new Tone.FeedbackDelay(effects.delay);
+      const panner = new Tone.Panner({ pan: channel.pan, channelCount: 2 });
+      const fader = new Tone.Gain(channelGain(mixerRef.current, idx));
       
-      // Connect: instrument -> delay (if exists) -> reverb -> gain -> destination
-      if (delay) {
-        instrument.connect(delay);
-        delay.connect(reverb);
-      } else {
-        instrument.connect(reverb);
-      }
-      reverb.connect(gainNodeRef.current!);
+      // Connect: instrument -> delay -> reverb -> pan -> channel fader -> gain -> destination
+      instrument.connect(delay);
+      delay.connect(reverb);
+      reverb.connect(panner);
+      panner.connect(fader);
+      fader.connect(gainNodeRef.current!);
       
       instrumentsRef.current.set(cluster.id, instrument);
+      channelNodesRef.current.set(cluster.id, { instrumentType, delay, reverb, panner, fader });
     });
 
     return () => {
@@ -664,6 +445,13 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
         }
       });
       instrumentsRef.current.clear();
+      channelNodesRef.current.forEach(nodes => {
+        nodes.delay.dispose();
+        nodes.reverb.dispose();
+        nodes.panner.dispose();
+        nodes.fader.dispose();
+      });
+      channelNodesRef.current.clear();
       if (gainNodeRef.current) {
         gainNodeRef.current.dispose();
       }
@@ -674,298 +462,45 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
         compressorRef.current.dispose();
       }
     };
-  }, [clusters, volume]);
+  }, [clusters, volume, instrumentKey]);
+
+  // Apply fader, pan, mute/solo and send changes to the running chains
+  useEffect(() => {
+    clusters.forEach((cluster, idx) => {
+      const nodes = channelNodesRef.current.get(cluster.id);
+      if (!nodes) return;
+      const channel = getChannel(mixer, idx);
+      const effects = resolveChannelEffects(channel, getInstrumentEffectSettings(nodes.instrumentType));
+      nodes.fader.gain.rampTo(channelGain(mixer, idx), 0.05);
+      nodes.panner.pan.rampTo(channel.pan, 0.05);
+      nodes.reverb.wet.value = effects.reverbWet;
+      nodes.delay.wet.value = effects.delay.wet;
+    });
+  }, [mixer, clusters, instrumentKey]);
 
   // Update master volume with cluster-based scaling
   useEffect(() => {
     if (gainNodeRef.current && clusters.length > 0) {
-      const clusterVolumeScale = clusters.length > 4 
-        ? Math.max(0.2, 0.5 / clusters.length)  // More aggressive for 5+ clusters
-        : Math.max(0.4, 1.0 / Math.sqrt(clusters.length));  // Less aggressive for 4 or fewer
-      gainNodeRef.current.gain.value = volume * clusterVolumeScale;
+      gainNodeRef.current.gain.value = volume * getClusterVolumeScale(clusters.length);
     }
   }, [volume, clusters.length]);
 
-  // Update tempo ref when tempo changes
+  // Reset export range and neuron inspection when a different dataset is shown
   useEffect(() => {
-    tempoRef.current = tempo;
-  }, [tempo]);
+    setExportStartFrame(1);
+    setExportEndFrame(dataset.frames);
+    setPinnedNeuron(null);
+    setSoloNeuron(null);
+    setPcaSelection([]);
+  }, [dataset]);
 
   // Pause when shouldPause prop changes (triggered by mode switch or window blur)
   useEffect(() => {
     if (shouldPause > 0 && isPlaying) {
-      setIsPlaying(false);
+      pause();
     }
   }, [shouldPause]);
 
-  // Playback loop
-  useEffect(() => {
-    const previousPlaying = isPlayingRef.current;
-    
-    if (isPlaying && !previousPlaying && clusters.length > 0) {
-      isPlayingRef.current = true;
-      currentFrameRef.current = currentFrame;
-      
-      const playFrame = () => {
-        // Use current tempo from ref (always up-to-date)
-        const currentTempo = tempoRef.current;
-      // Use frame interval based on dataset fps, scaled by tempo
-      // This preserves the actual temporal relationships in the data
-        const baseFrameInterval = (1000 / dataset.fps) * (120 / currentTempo); // Scale by tempo
-      const minInterval = 20; // Minimum 20ms for responsiveness
-      const actualInterval = Math.max(minInterval, baseFrameInterval);
-        if (!isPlayingRef.current || clustersRef.current.length === 0) {
-          loopRunningRef.current = false;
-          return;
-        }
-
-        const nextFrame = (currentFrameRef.current + 1) % dataset.frames;
-        currentFrameRef.current = nextFrame;
-
-        // Update UI every 5 frames
-        if (nextFrame % 5 === 0 || nextFrame < 20) {
-          setCurrentFrame(nextFrame);
-        }
-
-        const now = Tone.now();
-        const currentTime = Tone.now();
-
-        // Process each cluster organically based on its actual activity
-        clustersRef.current.forEach((cluster, clusterIdx) => {
-          const instrument = instrumentsRef.current.get(cluster.id);
-          if (!instrument) return;
-
-          // Get individual neuron activities for this frame
-          const neuronActivities = cluster.neurons
-            .map(neuronIdx => {
-              const neuron = dataset.neurons[neuronIdx];
-              if (!neuron || !neuron.trace || nextFrame >= neuron.trace.length) return null;
-              
-              const intensity = neuron.trace[nextFrame];
-              const prevIntensity = nextFrame > 0 && neuron.trace[nextFrame - 1] 
-                ? neuron.trace[nextFrame - 1] 
-                : 0;
-              
-              return {
-                idx: neuronIdx,
-                intensity,
-                prevIntensity,
-                change: intensity - prevIntensity
-              };
-            })
-            .filter(n => n !== null) as Array<{
-              idx: number;
-              intensity: number;
-              prevIntensity: number;
-              change: number;
-            }>;
-
-          if (neuronActivities.length === 0) return;
-
-          // Calculate cluster-level metrics from actual data
-          const avgIntensity = neuronActivities.reduce((sum, n) => sum + n.intensity, 0) / neuronActivities.length;
-          const maxIntensity = Math.max(...neuronActivities.map(n => n.intensity));
-          const activeCount = neuronActivities.filter(n => n.intensity > 0.1).length;
-          const activityRatio = activeCount / neuronActivities.length;
-          
-          // Use PCA centroid to determine pitch range (lower values = lower pitches)
-          // This maps the actual cluster characteristics to musical space
-          const pcaData = pcaResultRef.current;
-          const pcaCentroid = pcaData?.transformed[cluster.neurons[0]] || [0, 0, 0];
-          const pitchOffset = Math.floor((pcaCentroid[0] + 2) * 2) % 12; // Map to 0-11 (chromatic)
-          
-          // Determine base octave from cluster size and activity pattern
-          // Larger clusters or more active clusters get different octaves
-          const baseOctave = 3 + Math.floor(clusterIdx / 2) + (activityRatio > 0.5 ? 1 : 0);
-          
-          // Update cluster activity for visualization
-          const clusterActivity = avgIntensity * activityRatio;
-          clusterActivityRef.current.set(cluster.id, clusterActivity);
-          const prevActivity = prevClusterActivityRef.current.get(cluster.id) || 0;
-          prevClusterActivityRef.current.set(cluster.id, clusterActivity);
-
-          // Play notes based on actual activity patterns
-          // Trigger on intensity increases (spikes) or sustained high activity
-          const threshold = 0.05;
-          const spikeThreshold = 0.1; // Minimum change to trigger
-          
-          // Check for spikes (sudden increases)
-          const spikes = neuronActivities.filter(n => 
-            n.change > spikeThreshold && n.intensity > threshold
-          );
-          
-          // Check for sustained activity
-          const sustained = neuronActivities.filter(n => 
-            n.intensity > threshold && n.intensity > n.prevIntensity * 0.9 // Not decreasing much
-          );
-
-          // Determine which neurons should play based on their actual activity
-          const neuronsToPlay = spikes.length > 0 ? spikes : sustained;
-          
-          if (neuronsToPlay.length === 0) return;
-
-          try {
-            // Map each active neuron to a note based on its intensity and position
-            // This creates a direct mapping from data to music
-            // Limit simultaneous notes per cluster based on total cluster count
-            // More clusters = fewer notes per cluster to prevent overwhelming sound
-            const maxNotesPerCluster = clusters.length > 4 ? 2 : clusters.length > 6 ? 1 : 5;
-            const notesToPlay = neuronsToPlay
-              .slice(0, Math.min(maxNotesPerCluster, neuronsToPlay.length))
-              .map((neuron, noteIdx) => {
-                // Map intensity (0-1) to scale degree (0-6)
-                const scaleDegree = Math.floor(neuron.intensity * 7) % 7;
-                // Add pitch offset from PCA to create cluster-specific character
-                const finalDegree = (scaleDegree + pitchOffset) % 7;
-                
-                // Map intensity to octave (higher intensity = higher octave, but within range)
-                const octave = baseOctave + Math.floor(neuron.intensity * 2);
-                
-                // Get frequency from scale
-                const frequency = getNoteFrequency(finalDegree, octave, MAJOR_SCALE);
-                
-                // Volume directly from intensity, but scaled down based on cluster count
-                // More clusters = lower volume per note to prevent overwhelming sound
-                const baseVolume = neuron.intensity * 0.6; // Reduced from 0.8
-                const clusterScale = clusters.length > 4
-                  ? Math.max(0.3, 0.4 / clusters.length)  // More aggressive for 5+ clusters
-                  : Math.max(0.5, 1.0 / Math.sqrt(clusters.length));  // Less aggressive for 4 or fewer
-                const scaledBaseVolume = baseVolume * clusterScale;
-                const volume = Tone.gainToDb(Math.max(0.05, Math.min(0.8, scaledBaseVolume))); // Cap at 0.8 instead of 1.0
-                
-                // Duration based on intensity (stronger signals last longer)
-                const duration = neuron.intensity > 0.5 ? '8n' : '16n';
-                
-                return {
-                  frequency,
-                  volume,
-                  duration,
-                  intensity: neuron.intensity
-                };
-              })
-              .sort((a, b) => a.frequency - b.frequency); // Sort by pitch for harmony
-
-            // Play notes with slight stagger to avoid clicks
-            notesToPlay.forEach((note, noteIdx) => {
-              const lastPlay = lastPlayTimeRef.current.get(cluster.id) || 0;
-              const timeSinceLastPlay = currentTime - lastPlay;
-              
-              // Only play if enough time has passed (prevents overwhelming)
-              // Increase delay between notes when there are many clusters
-              const minDelay = clusters.length > 4 ? 0.1 : 0.05;
-              if (timeSinceLastPlay >= minDelay || noteIdx === 0) {
-                if (noteIdx === 0) {
-                  lastPlayTimeRef.current.set(cluster.id, currentTime);
-                }
-                
-                try {
-                  if (instrument instanceof Tone.PolySynth) {
-                    instrument.triggerAttackRelease(
-                      Tone.Frequency(note.frequency).toNote(),
-                      note.duration,
-                      now + noteIdx * 0.01, // Slight stagger
-                      note.volume
-                    );
-                  } else {
-                    instrument.volume.value = note.volume;
-                    instrument.triggerAttackRelease(
-                      note.frequency,
-                      note.duration,
-                      now + noteIdx * 0.01
-                    );
-                  }
-                } catch (error) {
-                  // Silently handle timing errors
-                  const errorMessage = error instanceof Error ? error.message : String(error);
-                  if (!errorMessage.includes('Start time must be strictly greater')) {
-                    // Ignore
-                  }
-                }
-              }
-            });
-          } catch (error) {
-            // Silently handle errors
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            if (!errorMessage.includes('Start time must be strictly greater')) {
-              console.warn(`Error playing cluster ${cluster.id}:`, error);
-            }
-          }
-        });
-
-        // Schedule next frame based on actual data timing
-        if (isPlayingRef.current) {
-          // Recalculate interval with current tempo for next frame
-          const nextTempo = tempoRef.current;
-          const nextBaseInterval = (1000 / dataset.fps) * (120 / nextTempo);
-          const nextMinInterval = 20;
-          const nextActualInterval = Math.max(nextMinInterval, nextBaseInterval);
-          
-          timeoutRef.current = window.setTimeout(() => {
-            if (isPlayingRef.current) {
-              playFrame();
-            } else {
-              loopRunningRef.current = false;
-            }
-          }, nextActualInterval);
-        } else {
-          loopRunningRef.current = false;
-        }
-      };
-
-      if (!loopRunningRef.current) {
-        loopRunningRef.current = true;
-        playFrame();
-      }
-
-      return () => {
-        if (!isPlaying) {
-          isPlayingRef.current = false;
-          loopRunningRef.current = false;
-          if (timeoutRef.current) {
-            clearTimeout(timeoutRef.current);
-            timeoutRef.current = null;
-          }
-          clusterActivityRef.current.clear();
-          prevClusterActivityRef.current.clear();
-          lastPlayTimeRef.current.clear();
-          // Stop all instruments
-          instrumentsRef.current.forEach(instrument => {
-            try {
-              if (instrument instanceof Tone.PolySynth) {
-                instrument.releaseAll();
-              } else {
-                instrument.triggerRelease();
-              }
-            } catch (e) {
-              // Ignore
-            }
-          });
-        }
-      };
-    } else if (!isPlaying && previousPlaying) {
-      isPlayingRef.current = false;
-      loopRunningRef.current = false;
-      if (timeoutRef.current) {
-        clearTimeout(timeoutRef.current);
-        timeoutRef.current = null;
-      }
-      clusterActivityRef.current.clear();
-      prevClusterActivityRef.current.clear();
-      lastPlayTimeRef.current.clear();
-      instrumentsRef.current.forEach(instrument => {
-        try {
-          if (instrument instanceof Tone.PolySynth) {
-            instrument.releaseAll();
-          } else {
-            instrument.triggerRelease();
-          }
-        } catch (e) {
-          // Ignore
-        }
-      });
-    }
-  }, [isPlaying, clusters, dataset, tempo, currentFrame]);
-
   const togglePlayback = async () => {
     if (!isPlaying) {
       try {
@@ -982,7 +517,58 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
         return;
       }
     }
-    setIsPlaying(prev => !prev);
+    if (isPlaying) {
+      pause();
+    } else {
+      play();
+    }
+  };
+
+  const handleExportAudio = async () => {
+    if (clusters.length === 0 || isExporting) return;
+
+    pause();
+    setIsExporting(true);
+    try {
+      const buffer = await renderMusicalSonification(dataset, clusters, pcaResult, {
+        tempo,
+        volume,
+        startFrame: exportStartFrame - 1,
+        endFrame: exportEndFrame,
+        mixer,
+        tonality
+      });
+      downloadBlob(
+        encodeWav(buffer),
+        `${toFilenameStem(dataset.datasetName)}_frames-${exportStartFrame}-${exportEndFrame}_${tempo}bpm.wav`
+      );
+    } catch (error) {
+      console.error('Failed to export audio:', error);
+      alert(`Failed to export audio: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleExportMidi = () => {
+    if (clusters.length === 0) return;
+
+    try {
+      const midi = createMidiFile(dataset, clusters, pcaResult, {
+        tempo,
+        startFrame: exportStartFrame - 1,
+        endFrame: exportEndFrame,
+        mixer,
+        tonality
+      });
+      downloadBlob(
+        midi,
+        `${toFilenameStem(dataset.datasetName)}_frames-${exportStartFrame}-${exportEndFrame}_${tempo}bpm.mid`
+      );
+    } catch (error) {
+      console.error('Failed to export MIDI:', error);
+      alert(`Failed to export MIDI: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
   };
 
   const avgActivity = dataset.neurons.reduce(
@@ -1026,7 +612,10 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
                 <li>• Timing preserves actual temporal relationships in the data</li>
                 <li>• Volume and duration directly reflect neuron activity levels</li>
                 <li>• Spikes trigger notes, sustained activity creates harmonies</li>
-                  <li>• Uses major scale with cluster-specific pitch offsets for musical coherence</li>
+                  <li>• Uses the {KEY_NAMES[tonality.root]} {SCALE_LABELS[tonality.mode].toLowerCase()} scale with cluster-specific pitch offsets for musical coherence</li>
+                {tonality.progression && (
+                  <li>• Notes follow the {tonality.progression} chord progression, one chord every bar</li>
+                )}
                 <li>• Clusters: {clusters.length}</li>
                   {dataset.datasetName && (
                     <li>• Dataset: {dataset.datasetName}</li>
@@ -1103,10 +692,12 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
               max="8"
               value={numClusters}
               onChange={(e) => setNumClusters(Math.max(2, Math.min(8, Number(e.target.value))))}
-              className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200" 
+              disabled={!usesClusterCount(clustering.method)}
+              title={usesClusterCount(clustering.method) ? undefined : `${CLUSTERING_METHOD_LABELS[clustering.method]} finds its own number of clusters`}
+              className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200 disabled:opacity-50" 
               style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
             />
-            {clusterAnalysis && (
+            {clusterAnalysis && usesClusterCount(clustering.method) && (
               <>
                 <span className="text-xs text-amber-300" style={{ fontFamily: 'Orbitron, sans-serif' }}>
                   (Suggested: {suggestedK})
@@ -1121,29 +712,211 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
                 </button>
               </>
             )}
+            {isAnalyzing && (
+              <span className="text-xs text-amber-300 animate-pulse" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+                Clustering...
+              </span>
+            )}
           </div>
 
         </div>
 
-        <div className="flex items-center gap-2">
-          <div className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
-            Frame: {currentFrame + 1} / {dataset.frames}
-          </div>
-          <div className="flex-1 bg-white/20 rounded-full h-2">
-            <div 
-              className="bg-amber-400 h-2 rounded-full transition-all duration-100"
-              style={{ width: `${((currentFrame + 1) / dataset.frames) * 100}%` }}
-            />
-          </div>
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Method:</label>
+          <select
+            value={clustering.method}
+            onChange={(e) => updateClustering({ method: e.target.value as ClusteringMethod })}
+            className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200"
+            style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          >
+            {(Object.keys(CLUSTERING_METHOD_LABELS) as ClusteringMethod[]).map(method => (
+              <option key={method} value={method}>{CLUSTERING_METHOD_LABELS[method]}</option>
+            ))}
+          </select>
+          {clustering.method === 'hierarchical' && (
+            <>
+              <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Linkage:</label>
+              <select
+                value={clustering.linkage}
+                onChange={(e) => updateClustering({ linkage: e.target.value as Linkage })}
+                className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200"
+                style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              >
+                {(Object.keys(LINKAGE_LABELS) as Linkage[]).map(linkage => (
+                  <option key={linkage} value={linkage}>{LINKAGE_LABELS[linkage]}</option>
+                ))}
+              </select>
+            </>
+          )}
+          {clustering.method === 'dbscan' && (
+            <>
+              <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Radius:</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.05"
+                placeholder="auto"
+                value={clustering.eps ?? ''}
+                onChange={(e) => updateClustering({ eps: e.target.value === '' ? null : Math.max(0.01, Number(e.target.value)) })}
+                className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-24 text-amber-200"
+                style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                title="Neighbourhood radius in PCA units; leave empty to pick one from the data"
+              />
+              <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Min points:</label>
+              <input
+                type="number"
+                min="2"
+                max="50"
+                value={clustering.minPoints}
+                onChange={(e) => updateClustering({ minPoints: Math.max(2, Math.min(50, Number(e.target.value))) })}
+                className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200"
+                style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              />
+            </>
+          )}
+          {isFunctionalMethod(clustering.method) && (
+            <>
+              <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Lag tolerance:</label>
+              <input
+                type="number"
+                min="0"
+                max={MAX_LAG_FRAMES}
+                value={clustering.maxLag}
+                onChange={(e) => updateClustering({ maxLag: Math.max(0, Math.min(MAX_LAG_FRAMES, Math.round(Number(e.target.value)))) })}
+                className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200"
+                style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+                title="Frames one neuron may lag another and still count as firing together"
+              />
+              <span className="text-xs text-amber-300" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+                frames ({(clustering.maxLag / dataset.fps).toFixed(2)} s)
+              </span>
+            </>
+          )}
+          {clustering.method === 'hdbscan' && (
+            <>
+              <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Min cluster size:</label>
+              <input
+                type="number"
+                min="2"
+                max="100"
+                value={clustering.minClusterSize}
+                onChange={(e) => updateClustering({ minClusterSize: Math.max(2, Math.min(100, Number(e.target.value))) })}
+                className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-20 text-amber-200"
+                style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+              />
+            </>
+          )}
+          {analysisError && (
+            <span className="text-xs text-red-400" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              {analysisError}
+            </span>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Key:</label>
+          <select
+            value={keyRoot}
+            onChange={(e) => setKeyRoot(Number(e.target.value))}
+            className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200"
+            style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          >
+            {KEY_NAMES.map((name, root) => (
+              <option key={name} value={root}>{name}</option>
+            ))}
+          </select>
+          <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Mode:</label>
+          <select
+            value={modeChoice}
+            onChange={(e) => setModeChoice(e.target.value as ScaleMode | 'auto')}
+            className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200"
+            style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          >
+            <option value="auto">From the data</option>
+            {(Object.keys(SCALES) as ScaleMode[]).map(mode => (
+              <option key={mode} value={mode}>{SCALE_LABELS[mode]}</option>
+            ))}
+          </select>
+          {autoMode && (
+            <span className="text-xs text-amber-300 cursor-help" style={{ fontFamily: 'Orbitron, sans-serif' }} title={`Chosen for ${autoMode.reason}`}>
+              → {SCALE_LABELS[autoMode.mode]}
+            </span>
+          )}
+          <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Progression:</label>
+          <select
+            value={progression ?? ''}
+            onChange={(e) => setProgression((e.target.value || null) as ProgressionName | null)}
+            className="bg-amber-900/40 border rounded px-3 py-2 text-sm text-amber-200"
+            style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+            title="Snap notes to a chord that changes every bar"
+          >
+            <option value="">None</option>
+            {(Object.keys(CHORD_PROGRESSIONS) as ProgressionName[]).map(name => (
+              <option key={name} value={name}>{name.charAt(0).toUpperCase() + name.slice(1)}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <label className="text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>Export frames:</label>
+          <input
+            type="number"
+            min="1"
+            max={exportEndFrame}
+            value={exportStartFrame}
+            onChange={(e) => setExportStartFrame(Math.max(1, Math.min(exportEndFrame, Number(e.target.value))))}
+            className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-24 text-amber-200"
+            style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          />
+          <span className="text-sm text-amber-300" style={{ fontFamily: 'Orbitron, sans-serif' }}>to</span>
+          <input
+            type="number"
+            min={exportStartFrame}
+            max={dataset.frames}
+            value={exportEndFrame}
+            onChange={(e) => setExportEndFrame(Math.max(exportStartFrame, Math.min(dataset.frames, Number(e.target.value))))}
+            className="bg-amber-900/40 border rounded px-3 py-2 text-sm w-24 text-amber-200"
+            style={{ fontFamily: 'Orbitron, sans-serif', borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          />
+          <button
+            onClick={handleExportAudio}
+            disabled={isExporting || clusters.length === 0}
+            className="jukebox-button flex items-center gap-2 px-4 py-2 text-sm transition-colors"
+            style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}
+            title="Render the selected frames offline at the current tempo and download a WAV file"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            {isExporting ? 'RENDERING...' : 'EXPORT AUDIO'}
+          </button>
+          <button
+            onClick={handleExportMidi}
+            disabled={clusters.length === 0}
+            className="jukebox-button flex items-center gap-2 px-4 py-2 text-sm transition-colors"
+            style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}
+            title="Download a MIDI file with one track per cluster at the current tempo"
+          >
+            <FileMusic className="w-4 h-4" />
+            EXPORT MIDI
+          </button>
         </div>
 
+        <PlaybackTimeline
+          dataset={dataset}
+          currentFrame={currentFrame}
+          loop={loop}
+          onSeek={seek}
+          onLoopChange={setLoop}
+          clusters={clusters}
+          getClusterColor={getClusterColor}
+        />
+
         {/* Cluster Activity */}
         <div className="mt-4 space-y-2">
           <div className="text-sm text-amber-200 font-semibold" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}>CLUSTER ACTIVITY:</div>
           <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
             {clusters.map((cluster, idx) => {
               const activity = clusterActivityRef.current.get(cluster.id) || 0;
-              const instrumentType = assignInstrumentToCluster(cluster, idx, dataset, pcaResultRef.current);
+              const instrumentType = instrumentTypes[idx];
               return (
                 <div
                   key={cluster.id}
@@ -1183,6 +956,16 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
         </div>
       </div>
 
+      {/* Mixer */}
+      <MixerStrip
+        clusters={clusters}
+        mixer={mixer}
+        assignedInstruments={assignedInstruments}
+        onChannelChange={handleChannelChange}
+        onReset={handleMixerReset}
+        getClusterColor={getClusterColor}
+      />
+
       {/* Visualization Grid */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
         {/* Brain Visualization */}
@@ -1192,14 +975,33 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
           frameImages={dataset.frameImages}
           clusters={clusters}
           getClusterColor={getClusterColor}
+          onDatasetChange={onDatasetChange}
+          pcaCoordinates={pcaResult?.transformed}
+          pinnedNeuron={pinnedNeuron}
+          onNeuronClick={setPinnedNeuron}
+          highlightedNeurons={pcaSelection}
+          connectivity={connectivityOverlay}
         />
         
         {/* Cluster Visualization */}
         <div className="bg-amber-900/20 border rounded-lg p-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
           <h3 className="text-xl font-semibold mb-4 text-amber-200" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>NEURON CLUSTERS</h3>
+        <div className="mb-4">
+          <ClusterQualityMetrics metrics={quality} />
+        </div>
+        {dendrogram && (
+          <div className="mb-4">
+            <DendrogramView dendrogram={dendrogram} clusters={clusters} getClusterColor={getClusterColor} />
+          </div>
+        )}
+        {noise.length > 0 && (
+          <p className="text-xs text-amber-300/80 mb-4" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            {noise.length} neuron{noise.length === 1 ? '' : 's'} in no cluster: shown uncoloured and left silent.
+          </p>
+        )}
         <div className="space-y-4">
           {clusters.map((cluster, idx) => {
-            const instrumentType = assignInstrumentToCluster(cluster, idx, dataset, pcaResult);
+            const instrumentType = instrumentTypes[idx];
             const activity = clusterActivityRef.current.get(cluster.id) || 0;
             return (
               <div
@@ -1259,6 +1061,56 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
         </div>
       </div>
 
+      {/* PCA space */}
+      <div className="mb-6">
+        <PCAScatter3D
+          dataset={dataset}
+          currentFrame={currentFrame}
+          pcaCoordinates={pcaResult?.transformed}
+          clusters={clusters}
+          getClusterColor={getClusterColor}
+          selectedNeurons={pcaSelection}
+          onSelectionChange={setPcaSelection}
+        />
+      </div>
+
+      {/* Correlation structure behind the clusters */}
+      <div className="mb-6">
+        <ConnectivityPanel
+          dataset={dataset}
+          correlation={correlation}
+          isComputing={isCorrelating}
+          enabled={showNetwork}
+          onEnabledChange={setShowNetwork}
+          clusters={clusters}
+          getClusterColor={getClusterColor}
+          edges={connectivityEdges}
+          threshold={edgeThreshold}
+          onThresholdChange={setEdgeThreshold}
+          showOnMap={showGraphOnMap}
+          onShowOnMapChange={setShowGraphOnMap}
+          layout={graphLayout}
+          onLayoutChange={setGraphLayout}
+        />
+      </div>
+
+      {/* Pinned neuron */}
+      {pinnedNeuron !== null && (
+        <div className="mb-6">
+          <NeuronDetailPanel
+            dataset={dataset}
+            neuronIndex={pinnedNeuron}
+            currentFrame={currentFrame}
+            clusterIndex={pinnedClusterIdx}
+            color={pinnedClusterIdx !== null ? getClusterColor(pinnedClusterIdx) : undefined}
+            pcaCoordinates={pcaResult?.transformed[pinnedNeuron]}
+            isSolo={soloNeuron === pinnedNeuron}
+            onToggleSolo={() => setSoloNeuron(soloNeuron === pinnedNeuron ? null : pinnedNeuron)}
+            onClose={() => setPinnedNeuron(null)}
+          />
+        </div>
+      )}
+
       {/* Activity Pattern Visualization */}
       <div className="mb-6">
         <ActivityPatternVisualization
@@ -1268,6 +1120,9 @@ const MusicalSonification = ({ dataset, shouldPause = 0 }: MusicalSonificationPr
           getClusterColor={getClusterColor}
         />
       </div>
+
+      {/* PCA behind the clustering */}
+      <PCAScreePlot pcaResult={pcaResult} />
     </div>
   );
 };
@@ -0,0 +1,114 @@
+import { memo, useMemo } from 'react';
+import { Headphones, X } from 'lucide-react';
+import { CalciumDataset } from '../types';
+import { roiForNeuron } from '../utils/roiEditing';
+import TraceSparkline from './TraceSparkline';
+
+interface NeuronDetailPanelProps {
+  dataset: CalciumDataset;
+  neuronIndex: number;
+  currentFrame: number;
+  clusterIndex?: number | null; // Position in the current clustering, when there is one
+  color?: string; // Swatch and trace colour, e.g. the neuron's cluster colour
+  pcaCoordinates?: number[];
+  isSolo: boolean;
+  onToggleSolo: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Pinned details for one neuron: full trace with inferred events, and a solo toggle
+ */
+const NeuronDetailPanel = memo(function NeuronDetailPanel({
+  dataset,
+  neuronIndex,
+  currentFrame,
+  clusterIndex,
+  color,
+  pcaCoordinates,
+  isSolo,
+  onToggleSolo,
+  onClose
+}: NeuronDetailPanelProps) {
+  const neuron = dataset.neurons[neuronIndex];
+
+  const stats = useMemo(() => {
+    if (!neuron) return null;
+    const events = neuron.events ?? [];
+    const duration = dataset.frames / dataset.fps;
+    const roi = neuron.coordinates?.length
+      ? roiForNeuron(neuron, dataset.imageWidth, dataset.imageHeight)
+      : null;
+    return {
+      eventCount: events.length,
+      eventRate: duration > 0 ? events.length / duration : 0,
+      meanAmplitude: events.length > 0 ? events.reduce((sum, e) => sum + e.amplitude, 0) / events.length : 0,
+      pixelCount: roi?.pixelCount,
+      centroid: roi?.pixelCount ? roi.centroid : undefined
+    };
+  }, [neuron, dataset.frames, dataset.fps, dataset.imageWidth, dataset.imageHeight]);
+
+  if (!neuron || !stats) return null;
+
+  const value = neuron.trace[currentFrame];
+
+  return (
+    <div className="bg-amber-900/20 border rounded-lg p-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold text-amber-200 flex items-center gap-2" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+          {color && <span className="w-3 h-3 rounded-full inline-block" style={{ backgroundColor: color }}></span>}
+          {neuron.name}
+        </h3>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onToggleSolo}
+            className={`jukebox-button flex items-center gap-2 text-xs px-3 py-1 rounded ${isSolo ? 'bg-amber-700/40' : ''}`}
+            style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}
+            title={isSolo ? 'Hear every neuron again' : 'Hear only this neuron during playback'}
+            aria-pressed={isSolo}
+          >
+            <Headphones className="w-4 h-4" />
+            {isSolo ? 'Unsolo' : 'Solo this neuron'}
+          </button>
+          <button
+            onClick={onClose}
+            className="text-amber-300 hover:text-amber-200 transition-colors"
+            aria-label="Close neuron details"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-black/30 rounded p-2 mb-4">
+        <TraceSparkline
+          trace={neuron.trace}
+          events={neuron.events}
+          currentFrame={currentFrame}
+          color={color}
+          className="w-full h-28"
+        />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-x-6 gap-y-1 text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+        <div>Value: {value !== undefined ? value.toFixed(3) : '—'}</div>
+        <div>Events: {stats.eventCount} ({stats.eventRate.toFixed(2)} Hz)</div>
+        <div>Mean event size: {stats.meanAmplitude.toFixed(3)}</div>
+        {clusterIndex !== undefined && <div>Cluster: {clusterIndex !== null ? clusterIndex + 1 : '—'}</div>}
+        {pcaCoordinates && (
+          <div className="col-span-2">
+            PCA: {pcaCoordinates.slice(0, 3).map((c, i) => `PC${i + 1} ${c.toFixed(2)}`).join(' · ')}
+          </div>
+        )}
+        {stats.centroid && (
+          <div>Centre: ({stats.centroid[0].toFixed(0)}, {stats.centroid[1].toFixed(0)})</div>
+        )}
+        {stats.pixelCount !== undefined && <div>ROI: {stats.pixelCount} px</div>}
+      </div>
+    </div>
+  );
+});
+
+NeuronDetailPanel.displayName = 'NeuronDetailPanel';
+
+export default NeuronDetailPanel;
@@ -0,0 +1,338 @@
+import { memo, useEffect, useMemo, useRef, useState, type PointerEvent } from 'react';
+import { Box, Lasso, RotateCcw, X } from 'lucide-react';
+import * as THREE from 'three';
+import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js';
+import { CalciumDataset } from '../types';
+import { Cluster } from '../utils/clustering';
+
+interface PCAScatter3DProps {
+  dataset: CalciumDataset;
+  currentFrame: number;
+  pcaCoordinates?: number[][]; // PCA scores per neuron, indexed like dataset.neurons
+  clusters?: Cluster[];
+  getClusterColor?: (clusterIdx: number) => string;
+  selectedNeurons: number[];
+  onSelectionChange: (neurons: number[]) => void;
+}
+
+interface SceneState {
+  renderer: THREE.WebGLRenderer;
+  camera: THREE.PerspectiveCamera;
+  controls: OrbitControls;
+  geometry: THREE.BufferGeometry;
+  render: () => void;
+}
+
+const CAMERA_START = new THREE.Vector3(2.2, 1.6, 2.2);
+const UNCLUSTERED_COLOR = '#a8a29e';
+
+// Round, soft-edged points whose size and colour come from per-point attributes
+const VERTEX_SHADER = `
+  attribute vec3 pointColor;
+  attribute float pointSize;
+  uniform float pixelRatio;
+  varying vec3 vColor;
+  void main() {
+    vColor = pointColor;
+    vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+    gl_PointSize = pointSize * pixelRatio * (3.0 / -mvPosition.z);
+    gl_Position = projectionMatrix * mvPosition;
+  }
+`;
+
+const FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  void main() {
+    float d = length(gl_PointCoord - 0.5);
+    if (d > 0.5) discard;
+    gl_FragColor = vec4(vColor, smoothstep(0.5, 0.3, d));
+  }
+`;
+
+function pointInPolygon(x: number, y: number, polygon: number[][]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if ((yi > y) !== (yj > y) && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Neurons plotted at their first three PCA scores, coloured by cluster and
+ * pulsing with current-frame activity; lasso selections are reported upward
+ */
+const PCAScatter3D = memo(function PCAScatter3D({
+  dataset,
+  currentFrame,
+  pcaCoordinates,
+  clusters,
+  getClusterColor,
+  selectedNeurons,
+  onSelectionChange
+}: PCAScatter3DProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const sceneRef = useRef<SceneState | null>(null);
+  const [webglError, setWebglError] = useState<string | null>(null);
+  const [lassoMode, setLassoMode] = useState(false);
+  const [lasso, setLasso] = useState<number[][] | null>(null); // Pixels inside the plot while dragging
+
+  // Scores centred and scaled into a unit cube so the camera framing suits any dataset
+  const positions = useMemo(() => {
+    const coords = pcaCoordinates ?? [];
+    const result = new Float32Array(coords.length * 3);
+    const means = [0, 1, 2].map(axis => coords.reduce((sum, c) => sum + (c[axis] ?? 0), 0) / (coords.length || 1));
+    let extent = 0;
+    coords.forEach(c => [0, 1, 2].forEach(axis => {
+      extent = Math.max(extent, Math.abs((c[axis] ?? 0) - means[axis]));
+    }));
+    coords.forEach((c, i) => [0, 1, 2].forEach(axis => {
+      result[i * 3 + axis] = extent > 0 ? ((c[axis] ?? 0) - means[axis]) / extent : 0;
+    }));
+    return result;
+  }, [pcaCoordinates]);
+
+  const clusterColors = useMemo(() => {
+    const colors = Array.from({ length: positions.length / 3 }, () => new THREE.Color(UNCLUSTERED_COLOR));
+    clusters?.forEach((cluster, clusterIdx) => {
+      const color = new THREE.Color(getClusterColor?.(clusterIdx) ?? UNCLUSTERED_COLOR);
+      cluster.neurons.forEach(neuronIdx => {
+        if (colors[neuronIdx]) colors[neuronIdx] = color;
+      });
+    });
+    return colors;
+  }, [positions, clusters, getClusterColor]);
+
+  const selectedSet = useMemo(() => new Set(selectedNeurons), [selectedNeurons]);
+
+  // Renderer, camera and controls live for the component's lifetime
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+    } catch (error) {
+      console.warn('WebGL unavailable for the PCA scatter:', error);
+      setWebglError('WebGL is not available in this browser.');
+      return;
+    }
+    renderer.setPixelRatio(Math.min(2, window.devicePixelRatio));
+    container.appendChild(renderer.domElement);
+
+    const scene = new THREE.Scene();
+    const camera = new THREE.PerspectiveCamera(50, 1, 0.01, 100);
+    camera.position.copy(CAMERA_START);
+    scene.add(new THREE.AxesHelper(1.2));
+
+    const geometry = new THREE.BufferGeometry();
+    const material = new THREE.ShaderMaterial({
+      vertexShader: VERTEX_SHADER,
+      fragmentShader: FRAGMENT_SHADER,
+      uniforms: { pixelRatio: { value: renderer.getPixelRatio() } },
+      transparent: true,
+      depthWrite: false
+    });
+    scene.add(new THREE.Points(geometry, material));
+
+    // Render on demand: after camera moves and attribute updates, never in a loop
+    const render = () => renderer.render(scene, camera);
+    const controls = new OrbitControls(camera, renderer.domElement);
+    controls.addEventListener('change', render);
+
+    const resize = () => {
+      const width = container.clientWidth;
+      const height = container.clientHeight;
+      if (width === 0 || height === 0) return;
+      renderer.setSize(width, height);
+      camera.aspect = width / height;
+      camera.updateProjectionMatrix();
+      render();
+    };
+    const observer = new ResizeObserver(resize);
+    observer.observe(container);
+    resize();
+
+    sceneRef.current = { renderer, camera, controls, geometry, render };
+
+    return () => {
+      observer.disconnect();
+      controls.dispose();
+      geometry.dispose();
+      material.dispose();
+      renderer.dispose();
+      container.removeChild(renderer.domElement);
+      sceneRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    const state = sceneRef.current;
+    if (!state) return;
+    const count = positions.length / 3;
+    state.geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    state.geometry.setAttribute('pointColor', new THREE.BufferAttribute(new Float32Array(count * 3), 3));
+    state.geometry.setAttribute('pointSize', new THREE.BufferAttribute(new Float32Array(count), 1));
+    state.geometry.computeBoundingSphere();
+  }, [positions]);
+
+  // Pulse with the current frame; selected neurons are larger and lightened
+  useEffect(() => {
+    const state = sceneRef.current;
+    if (!state) return;
+    const colorAttribute = state.geometry.getAttribute('pointColor') as THREE.BufferAttribute | undefined;
+    const sizeAttribute = state.geometry.getAttribute('pointSize') as THREE.BufferAttribute | undefined;
+    if (!colorAttribute || !sizeAttribute) return;
+
+    const color = new THREE.Color();
+    const white = new THREE.Color('#ffffff');
+    for (let i = 0; i < sizeAttribute.count; i++) {
+      const value = dataset.neurons[i]?.trace[currentFrame] ?? 0;
+      const intensity = Math.max(0, Math.min(1, value));
+      const isSelected = selectedSet.has(i);
+
+      color.copy(clusterColors[i]).multiplyScalar(0.45 + 0.55 * intensity);
+      if (isSelected) color.lerp(white, 0.5);
+      colorAttribute.setXYZ(i, color.r, color.g, color.b);
+      sizeAttribute.setX(i, 6 + intensity * 10 + (isSelected ? 6 : 0));
+    }
+    colorAttribute.needsUpdate = true;
+    sizeAttribute.needsUpdate = true;
+    state.render();
+  }, [positions, clusterColors, selectedSet, dataset, currentFrame]);
+
+  useEffect(() => {
+    if (sceneRef.current) sceneRef.current.controls.enabled = !lassoMode;
+  }, [lassoMode]);
+
+  const pointerPosition = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const handleLassoDown = (e: PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setLasso([pointerPosition(e)]);
+  };
+
+  const handleLassoMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!lasso) return;
+    const [x, y] = pointerPosition(e);
+    const [lastX, lastY] = lasso[lasso.length - 1];
+    if (Math.hypot(x - lastX, y - lastY) > 3) setLasso([...lasso, [x, y]]);
+  };
+
+  // Select the neurons whose projected positions fall inside the lasso; shift adds to the selection
+  const handleLassoUp = (e: PointerEvent<HTMLDivElement>) => {
+    const state = sceneRef.current;
+    const polygon = lasso;
+    setLasso(null);
+    if (!state || !polygon || polygon.length < 3) return;
+
+    const width = e.currentTarget.clientWidth;
+    const height = e.currentTarget.clientHeight;
+    const projected = new THREE.Vector3();
+    const inside: number[] = [];
+    for (let i = 0; i < positions.length / 3; i++) {
+      projected.set(positions[i * 3], positions[i * 3 + 1], positions[i * 3 + 2]).project(state.camera);
+      if (projected.z > 1) continue; // Behind the camera
+      const sx = ((projected.x + 1) / 2) * width;
+      const sy = ((1 - projected.y) / 2) * height;
+      if (pointInPolygon(sx, sy, polygon)) inside.push(i);
+    }
+
+    onSelectionChange(e.shiftKey ? Array.from(new Set([...selectedNeurons, ...inside])) : inside);
+  };
+
+  const resetView = () => {
+    const state = sceneRef.current;
+    if (!state) return;
+    state.camera.position.copy(CAMERA_START);
+    state.controls.target.set(0, 0, 0);
+    state.controls.update();
+    state.render();
+  };
+
+  return (
+    <div className="bg-amber-900/20 border rounded-lg p-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-xl font-semibold text-amber-200 flex items-center gap-2" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+          <Box className="w-5 h-5" />
+          PCA SPACE
+        </h3>
+        <div className="flex items-center gap-2 text-xs" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.05em' }}>
+          {selectedNeurons.length > 0 && (
+            <span className="text-amber-300/70" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+              {selectedNeurons.length} selected
+            </span>
+          )}
+          <button
+            onClick={() => setLassoMode(!lassoMode)}
+            className={`jukebox-button flex items-center gap-1 px-3 py-1 rounded ${lassoMode ? 'bg-amber-700/40' : ''}`}
+            aria-pressed={lassoMode}
+            title={lassoMode ? 'Back to rotating the view' : 'Draw around neurons to select them (Shift adds)'}
+          >
+            <Lasso className="w-4 h-4" />
+            Lasso
+          </button>
+          <button
+            onClick={() => onSelectionChange([])}
+            disabled={selectedNeurons.length === 0}
+            className="jukebox-button flex items-center gap-1 px-3 py-1 rounded"
+            title="Clear the selection"
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </button>
+          <button
+            onClick={resetView}
+            className="jukebox-button flex items-center gap-1 px-3 py-1 rounded"
+            title="Reset the camera"
+          >
+            <RotateCcw className="w-4 h-4" />
+            View
+          </button>
+        </div>
+      </div>
+
+      <div ref={containerRef} className="relative w-full h-80 bg-black/40 rounded overflow-hidden">
+        {(webglError || positions.length === 0) && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-amber-300" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            {webglError ?? 'Waiting for PCA…'}
+          </div>
+        )}
+        {lassoMode && !webglError && (
+          <div
+            className="absolute inset-0 cursor-crosshair"
+            onPointerDown={handleLassoDown}
+            onPointerMove={handleLassoMove}
+            onPointerUp={handleLassoUp}
+          >
+            {lasso && lasso.length > 1 && (
+              <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                <polyline
+                  points={lasso.map(([x, y]) => `${x},${y}`).join(' ')}
+                  fill="rgba(250, 204, 21, 0.1)"
+                  stroke="rgba(250, 204, 21, 0.9)"
+                  strokeWidth="1.5"
+                  strokeDasharray="4 3"
+                />
+              </svg>
+            )}
+          </div>
+        )}
+      </div>
+      <p className="mt-2 text-xs text-amber-300/60" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+        Red, green and blue axes are PC1, PC2 and PC3. Drag to orbit, scroll to zoom; lasso-selected neurons are ringed on the spatial map.
+      </p>
+    </div>
+  );
+});
+
+PCAScatter3D.displayName = 'PCAScatter3D';
+
+export default PCAScatter3D;
@@ -0,0 +1,143 @@
+import { memo } from 'react';
+import { BarChart3 } from 'lucide-react';
+import { performPCA, PCA_FEATURE_NAMES } from '../utils/pca';
+
+interface PCAScreePlotProps {
+  pcaResult: ReturnType<typeof performPCA> | null;
+  featureNames?: string[];
+}
+
+const VIEW_WIDTH = 400;
+const VIEW_HEIGHT = 160;
+const PADDING = { top: 10, right: 10, bottom: 22, left: 34 };
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+/**
+ * Scree plot of explained variance with the feature loadings of the kept components
+ * Features are standardized, so components with an eigenvalue below 1 (Kaiser's
+ * criterion) explain less than a single feature does on its own
+ */
+const PCAScreePlot = memo(function PCAScreePlot({
+  pcaResult,
+  featureNames = PCA_FEATURE_NAMES
+}: PCAScreePlotProps) {
+  if (!pcaResult || !pcaResult.eigenvalues?.length) return null;
+
+  const { eigenvalues, loadings, components } = pcaResult;
+  const total = eigenvalues.reduce((sum, value) => sum + value, 0) || 1;
+  const ratios = eigenvalues.map(value => value / total);
+  const kept = components.length;
+  const keptShare = ratios.slice(0, kept).reduce((sum, r) => sum + r, 0);
+  const aboveKaiser = eigenvalues.filter(value => value > 1).length;
+
+  const plotWidth = VIEW_WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = VIEW_HEIGHT - PADDING.top - PADDING.bottom;
+  const slot = plotWidth / ratios.length;
+  const toY = (ratio: number) => PADDING.top + plotHeight * (1 - ratio);
+  const kaiserY = toY(1 / total);
+
+  let cumulative = 0;
+  const cumulativePoints = ratios.map((ratio, i) => {
+    cumulative += ratio;
+    return `${PADDING.left + slot * (i + 0.5)},${toY(cumulative)}`;
+  }).join(' ');
+
+  return (
+    <div className="bg-amber-900/20 border rounded-lg p-6" style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}>
+      <h3 className="text-xl font-semibold mb-2 text-amber-200 flex items-center gap-2" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+        <BarChart3 className="w-5 h-5" />
+        PCA COMPONENTS
+      </h3>
+      <p className="text-xs text-amber-300/80 mb-4" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+        PC1–PC{kept} explain {formatPercent(keptShare)} of the feature variance; {aboveKaiser} component{aboveKaiser === 1 ? '' : 's'} above the Kaiser line.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <svg viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`} className="w-full h-auto" role="img" aria-label="Scree plot">
+          {[0, 0.5, 1].map(tick => (
+            <g key={tick}>
+              <line x1={PADDING.left} x2={VIEW_WIDTH - PADDING.right} y1={toY(tick)} y2={toY(tick)} stroke="rgba(234, 179, 8, 0.15)" />
+              <text x={PADDING.left - 4} y={toY(tick) + 3} textAnchor="end" fontSize="9" fill="#fcd34d">
+                {formatPercent(tick)}
+              </text>
+            </g>
+          ))}
+          {ratios.map((ratio, i) => (
+            <g key={i}>
+              <rect
+                x={PADDING.left + slot * i + slot * 0.15}
+                y={toY(ratio)}
+                width={slot * 0.7}
+                height={plotHeight * ratio}
+                fill={i < kept ? '#facc15' : 'rgba(250, 204, 21, 0.35)'}
+              >
+                <title>{`PC${i + 1}: ${formatPercent(ratio)} (eigenvalue ${eigenvalues[i].toFixed(2)})`}</title>
+              </rect>
+              <text x={PADDING.left + slot * (i + 0.5)} y={VIEW_HEIGHT - 8} textAnchor="middle" fontSize="9" fill="#fcd34d">
+                {i + 1}
+              </text>
+            </g>
+          ))}
+          <polyline points={cumulativePoints} fill="none" stroke="#fb923c" strokeWidth="1.5" />
+          {kaiserY >= PADDING.top && (
+            <line
+              x1={PADDING.left}
+              x2={VIEW_WIDTH - PADDING.right}
+              y1={kaiserY}
+              y2={kaiserY}
+              stroke="#f87171"
+              strokeDasharray="4 3"
+            >
+              <title>Kaiser criterion: eigenvalue 1</title>
+            </line>
+          )}
+        </svg>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-xs text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+            <thead className="text-amber-300/70">
+              <tr>
+                <th className="font-normal py-1">Feature</th>
+                {loadings.map((_, i) => (
+                  <th key={i} className="font-normal py-1 text-right">PC{i + 1}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {featureNames.map((name, f) => (
+                <tr key={name} className="border-t" style={{ borderColor: 'rgba(234, 179, 8, 0.15)' }}>
+                  <td className="py-0.5">{name}</td>
+                  {loadings.map((loading, i) => {
+                    const value = loading[f] ?? 0;
+                    const strength = Math.min(1, Math.abs(value));
+                    return (
+                      <td
+                        key={i}
+                        className="py-0.5 px-1 text-right"
+                        style={{
+                          backgroundColor: value >= 0
+                            ? `rgba(250, 204, 21, ${strength * 0.5})`
+                            : `rgba(56, 189, 248, ${strength * 0.5})`
+                        }}
+                      >
+                        {value.toFixed(2)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+      <p className="mt-3 text-xs text-amber-300/60" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+        Bars: variance per component (kept components highlighted) · orange: cumulative · red dashes: eigenvalue 1. Loadings are each feature's correlation-like weight on a component.
+      </p>
+    </div>
+  );
+});
+
+PCAScreePlot.displayName = 'PCAScreePlot';
+
+export default PCAScreePlot;
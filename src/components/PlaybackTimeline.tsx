@@ -0,0 +1,230 @@
+import { memo, useMemo, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Repeat, X } from 'lucide-react';
+import { CalciumDataset } from '../types';
+import { Cluster } from '../utils/clustering';
+import { computeActivitySeries, computePopulationActivity } from '../utils/activitySeries';
+import { FrameRange } from '../hooks/useTransportPlayback';
+
+interface PlaybackTimelineProps {
+  dataset: CalciumDataset;
+  currentFrame: number;
+  loop: FrameRange | null;
+  onSeek: (frame: number) => void;
+  onLoopChange: (loop: FrameRange | null) => void;
+  clusters?: Cluster[];
+  getClusterColor?: (clusterIdx: number) => string;
+}
+
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 80;
+const MAX_POINTS = 500; // Keep the SVG light on long recordings
+const DRAG_THRESHOLD_PX = 4; // Shorter drags count as a click-to-seek
+
+/**
+ * Downsample a series to at most MAX_POINTS, keeping each bucket's peak so short bursts stay visible
+ */
+function toPolylinePoints(values: number[], maxValue: number): string {
+  if (values.length === 0) return '';
+  const bucket = Math.max(1, Math.ceil(values.length / MAX_POINTS));
+  const points: string[] = [];
+
+  for (let start = 0; start < values.length; start += bucket) {
+    let peak = 0;
+    for (let i = start; i < Math.min(values.length, start + bucket); i++) {
+      peak = Math.max(peak, values[i] || 0);
+    }
+    const x = values.length > 1 ? (start / (values.length - 1)) * VIEW_WIDTH : 0;
+    const y = VIEW_HEIGHT - (peak / maxValue) * (VIEW_HEIGHT - 4);
+    points.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+  }
+
+  return points.join(' ');
+}
+
+/**
+ * Timeline of population activity with click-to-seek, drag-to-loop and frame stepping
+ */
+const PlaybackTimeline = memo(function PlaybackTimeline({
+  dataset,
+  currentFrame,
+  loop,
+  onSeek,
+  onLoopChange,
+  clusters,
+  getClusterColor
+}: PlaybackTimelineProps) {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [drag, setDrag] = useState<{ startX: number; startFrame: number; frame: number } | null>(null);
+
+  const series = useMemo(() => computeActivitySeries(dataset, clusters), [dataset, clusters]);
+  const population = useMemo(() => computePopulationActivity(series, clusters), [series, clusters]);
+  const maxActivity = useMemo(() => {
+    let max = 0;
+    series.forEach(s => s.activity.forEach(v => { if (v > max) max = v; }));
+    return max || 1;
+  }, [series]);
+
+  const frameToX = (frame: number) => (dataset.frames > 1 ? (frame / (dataset.frames - 1)) * VIEW_WIDTH : 0);
+
+  const frameAtClientX = (clientX: number): number => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    const fraction = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return Math.round(fraction * (dataset.frames - 1));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const frame = frameAtClientX(e.clientX);
+    setDrag({ startX: e.clientX, startFrame: frame, frame });
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    setDrag({ ...drag, frame: frameAtClientX(e.clientX) });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+
+    if (Math.abs(e.clientX - drag.startX) < DRAG_THRESHOLD_PX) {
+      onSeek(drag.startFrame);
+    } else {
+      const frame = frameAtClientX(e.clientX);
+      onLoopChange({
+        start: Math.min(drag.startFrame, frame),
+        end: Math.max(drag.startFrame, frame) + 1
+      });
+    }
+    setDrag(null);
+  };
+
+  const step = (delta: number) => {
+    const next = (currentFrame + delta + dataset.frames) % dataset.frames;
+    onSeek(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key === 'ArrowLeft') {
+      e.preventDefault();
+      step(-1);
+    } else if (e.key === 'ArrowRight') {
+      e.preventDefault();
+      step(1);
+    }
+  };
+
+  // While dragging, preview the region being selected instead of the current loop
+  const region = drag && Math.abs(drag.frame - drag.startFrame) > 0
+    ? { start: Math.min(drag.startFrame, drag.frame), end: Math.max(drag.startFrame, drag.frame) + 1 }
+    : loop;
+
+  const populationPoints = toPolylinePoints(population, maxActivity);
+
+  return (
+    <div className="space-y-2" tabIndex={0} onKeyDown={handleKeyDown} aria-label="Playback timeline">
+      <div className="flex flex-wrap items-center gap-2 text-sm text-amber-200" style={{ fontFamily: 'Orbitron, sans-serif' }}>
+        <button
+          onClick={() => step(-1)}
+          className="jukebox-button flex items-center px-2 py-1"
+          title="Previous frame (←)"
+          aria-label="Previous frame"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => step(1)}
+          className="jukebox-button flex items-center px-2 py-1"
+          title="Next frame (→)"
+          aria-label="Next frame"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </button>
+        <span>Frame: {currentFrame + 1} / {dataset.frames}</span>
+        <span className="text-amber-300/70" title="Acquisition frame rate">
+          {(currentFrame / dataset.fps).toFixed(1)}s @ {Number(dataset.fps.toFixed(2))} Hz
+        </span>
+        {loop && (
+          <span className="flex items-center gap-1 text-amber-300">
+            <Repeat className="w-4 h-4" />
+            Loop {loop.start + 1}–{loop.end}
+            <button
+              onClick={() => onLoopChange(null)}
+              className="text-amber-300 hover:text-amber-200 transition-colors"
+              title="Clear loop"
+              aria-label="Clear loop"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </span>
+        )}
+        <span className="ml-auto text-xs text-amber-300/70">Click to seek · drag to loop</span>
+      </div>
+
+      <svg
+        ref={svgRef}
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 bg-black/50 rounded-lg cursor-crosshair select-none touch-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+      >
+        {/* Loop region */}
+        {region && (
+          <rect
+            x={frameToX(region.start)}
+            y={0}
+            width={Math.max(1, frameToX(region.end - 1) - frameToX(region.start))}
+            height={VIEW_HEIGHT}
+            fill="rgba(234, 179, 8, 0.15)"
+            stroke="rgba(234, 179, 8, 0.6)"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+
+        {/* Per-cluster activity */}
+        {clusters && clusters.length > 0 && series.map(s => (
+          <polyline
+            key={s.clusterIdx}
+            points={toPolylinePoints(s.activity, maxActivity)}
+            fill="none"
+            stroke={getClusterColor ? getClusterColor(s.clusterIdx) : '#EAB308'}
+            strokeOpacity={0.5}
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+
+        {/* Population activity */}
+        {populationPoints && (
+          <polygon
+            points={`0,${VIEW_HEIGHT} ${populationPoints} ${VIEW_WIDTH},${VIEW_HEIGHT}`}
+            fill="rgba(234, 179, 8, 0.25)"
+            stroke="#EAB308"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+
+        {/* Playhead */}
+        <line
+          x1={frameToX(currentFrame)}
+          y1={0}
+          x2={frameToX(currentFrame)}
+          y2={VIEW_HEIGHT}
+          stroke="rgba(251, 191, 36, 1)"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+    </div>
+  );
+});
+
+PlaybackTimeline.displayName = 'PlaybackTimeline';
+
+export default PlaybackTimeline;
@@ -0,0 +1,112 @@
+import { memo, useMemo, useState } from 'react';
+import { Target } from 'lucide-react';
+import { CalciumDataset } from '../types';
+import { roiForNeuron } from '../utils/roiEditing';
+import { DEFAULT_MATCH_THRESHOLD, scoreSegmentation } from '../utils/segmentationMetrics';
+
+interface SegmentationScorePanelProps {
+  datasets: CalciumDataset[];
+  activeIndex: number | null;
+  onSelect?: (index: number) => void;
+}
+
+const formatScore = (value: number) => value.toFixed(2);
+
+/**
+ * Neurofinder scores for every loaded dataset whose ROIs were detected
+ * despite ground-truth regions, one row per detection setting
+ */
+const SegmentationScorePanel = memo(function SegmentationScorePanel({
+  datasets,
+  activeIndex,
+  onSelect
+}: SegmentationScorePanelProps) {
+  const [threshold, setThreshold] = useState(DEFAULT_MATCH_THRESHOLD);
+
+  const rows = useMemo(() => datasets.flatMap((dataset, index) => {
+    if (!dataset.groundTruth) return [];
+    // Hand-drawn ROIs may be polygons, so compare rasterized footprints
+    const detected = dataset.neurons.map(neuron => roiForNeuron(neuron, dataset.imageWidth, dataset.imageHeight).pixels);
+    return [{ index, dataset, scores: scoreSegmentation(dataset.groundTruth, detected, threshold) }];
+  }), [datasets, threshold]);
+
+  if (rows.length === 0) return null;
+
+  return (
+    <div className="mt-6 pt-4 border-t text-xs text-amber-200" style={{ borderColor: 'rgba(234, 179, 8, 0.3)', fontFamily: 'Orbitron, sans-serif' }}>
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <Target className="w-4 h-4" />
+        <span style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }} className="text-sm">
+          SEGMENTATION SCORES
+        </span>
+        <label className="flex items-center gap-2 text-amber-300/80">
+          Match within
+          <input
+            type="number"
+            min={1}
+            max={50}
+            step={0.5}
+            value={threshold}
+            onChange={e => {
+              const value = parseFloat(e.target.value);
+              if (Number.isFinite(value) && value > 0) setThreshold(value);
+            }}
+            className="w-16 bg-amber-900/40 border rounded px-2 py-1 text-amber-200"
+            style={{ borderColor: 'rgba(234, 179, 8, 0.3)' }}
+          />
+          px of centroid
+        </label>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-left">
+          <thead className="text-amber-300/70">
+            <tr>
+              <th className="font-normal py-1">Dataset</th>
+              <th className="font-normal py-1">Detection</th>
+              <th className="font-normal py-1">Motion</th>
+              <th className="font-normal py-1" title="Detected / ground-truth regions">ROIs</th>
+              <th className="font-normal py-1" title="Share of ground-truth regions matched">Recall</th>
+              <th className="font-normal py-1" title="Share of detected regions matched">Precision</th>
+              <th className="font-normal py-1" title="Mean share of each matched ground-truth region covered">Inclusion</th>
+              <th className="font-normal py-1" title="Mean share of each matched detection inside its region">Exclusion</th>
+              <th className="font-normal py-1" title="Harmonic mean of recall and precision">Combined</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ index, dataset, scores }) => (
+              <tr
+                key={index}
+                onClick={() => onSelect?.(index)}
+                className={`border-t ${onSelect ? 'cursor-pointer hover:bg-amber-900/30' : ''} ${index === activeIndex ? 'text-amber-100 bg-amber-900/20' : ''}`}
+                style={{ borderColor: 'rgba(234, 179, 8, 0.15)' }}
+              >
+                <td className="py-1">{dataset.datasetName || `Record ${index + 1}`}</td>
+                <td className="py-1">
+                  {dataset.segmentation
+                    ? `${dataset.segmentation.method} · max ${dataset.segmentation.maxNeurons}`
+                    : '—'}
+                  {dataset.roiEdited && ' · edited'}
+                </td>
+                <td className="py-1">{dataset.motionCorrection?.mode ?? 'off'}</td>
+                <td className="py-1">{scores.detectedCount} / {scores.groundTruthCount}</td>
+                <td className="py-1">{formatScore(scores.recall)}</td>
+                <td className="py-1">{formatScore(scores.precision)}</td>
+                <td className="py-1">{formatScore(scores.inclusion)}</td>
+                <td className="py-1">{formatScore(scores.exclusion)}</td>
+                <td className="py-1 text-amber-300">{formatScore(scores.combined)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-amber-300/60">
+        Load a dataset with "Ignore ground-truth regions" to score its detected ROIs; change detection settings and load it again to compare.
+      </p>
+    </div>
+  );
+});
+
+SegmentationScorePanel.displayName = 'SegmentationScorePanel';
+
+export default SegmentationScorePanel;
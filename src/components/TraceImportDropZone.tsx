@@ -0,0 +1,64 @@
+import { memo, useRef, useState } from 'react';
+import { Upload } from 'lucide-react';
+
+interface TraceImportDropZoneProps {
+  onFilesImport: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Drop target for Suite2p outputs, CSV trace exports and raw TIFF recordings
+ */
+const TraceImportDropZone = memo(function TraceImportDropZone({ onFilesImport, disabled = false }: TraceImportDropZoneProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (fileList: FileList | null) => {
+    const files = fileList ? Array.from(fileList) : [];
+    if (files.length > 0 && !disabled) onFilesImport(files);
+  };
+
+  return (
+    <div
+      onDragOver={(e) => {
+        e.preventDefault();
+        if (!disabled) setIsDragging(true);
+      }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDragging(false);
+        handleFiles(e.dataTransfer.files);
+      }}
+      onClick={() => !disabled && inputRef.current?.click()}
+      className={`mt-4 rounded-lg border border-dashed p-4 text-center text-xs text-amber-200 transition-colors ${
+        disabled ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:bg-amber-900/30'
+      } ${isDragging ? 'bg-amber-900/40' : 'bg-amber-900/10'}`}
+      style={{ borderColor: 'rgba(234, 179, 8, 0.5)', fontFamily: 'Orbitron, sans-serif' }}
+    >
+      <Upload className="w-5 h-5 mx-auto mb-2 text-amber-300" />
+      <div className="text-sm" style={{ fontFamily: 'Bebas Neue, sans-serif', letterSpacing: '0.1em' }}>
+        IMPORT YOUR OWN DATA
+      </div>
+      <p className="text-amber-300/70 mt-1">
+        Drop Suite2p outputs (F.npy, iscell.npy, stat.npy, ops.npy), a CSV of traces with an optional ROI table,
+        or TIFF recordings with an optional regions.json
+      </p>
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        accept=".npy,.csv,.tsv,.txt,.tif,.tiff,.json"
+        className="hidden"
+        onChange={(e) => {
+          handleFiles(e.target.files);
+          e.target.value = '';
+        }}
+      />
+    </div>
+  );
+});
+
+TraceImportDropZone.displayName = 'TraceImportDropZone';
+
+export default TraceImportDropZone;
@@ -0,0 +1,87 @@
+import { memo, useMemo } from 'react';
+import { SpikeEvent } from '../utils/spikeInference';
+
+interface TraceSparklineProps {
+  trace: number[];
+  events?: SpikeEvent[]; // Drawn as ticks along the bottom
+  currentFrame?: number; // Drawn as a cursor line
+  color?: string;
+  className?: string;
+}
+
+const VIEW_WIDTH = 1000;
+const VIEW_HEIGHT = 100;
+const MAX_POINTS = 300; // Keep hover tooltips cheap on long recordings
+
+/**
+ * Min-max scaled line plot of one trace
+ * Traces may be ΔF/F or z-scores, so the range comes from the data rather than [0, 1]
+ */
+const TraceSparkline = memo(function TraceSparkline({
+  trace,
+  events,
+  currentFrame,
+  color = '#facc15',
+  className = 'w-full h-8'
+}: TraceSparklineProps) {
+  const points = useMemo(() => {
+    if (trace.length === 0) return '';
+    let min = Infinity;
+    let max = -Infinity;
+    trace.forEach(value => {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    });
+    const range = max - min || 1;
+    const bucket = Math.max(1, Math.ceil(trace.length / MAX_POINTS));
+    const result: string[] = [];
+
+    // Keep each bucket's peak so brief transients stay visible
+    for (let start = 0; start < trace.length; start += bucket) {
+      let peak = -Infinity;
+      for (let i = start; i < Math.min(trace.length, start + bucket); i++) {
+        peak = Math.max(peak, trace[i]);
+      }
+      const x = trace.length > 1 ? (start / (trace.length - 1)) * VIEW_WIDTH : 0;
+      const y = VIEW_HEIGHT - 4 - ((peak - min) / range) * (VIEW_HEIGHT - 8);
+      result.push(`${x.toFixed(1)},${y.toFixed(1)}`);
+    }
+    return result.join(' ');
+  }, [trace]);
+
+  const frameToX = (frame: number) => (trace.length > 1 ? (frame / (trace.length - 1)) * VIEW_WIDTH : 0);
+
+  return (
+    <svg className={className} viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`} preserveAspectRatio="none">
+      <polyline points={points} fill="none" stroke={color} strokeWidth="1.5" vectorEffect="non-scaling-stroke" />
+      {events?.map(event => (
+        <line
+          key={event.frame}
+          x1={frameToX(event.frame)}
+          x2={frameToX(event.frame)}
+          y1={VIEW_HEIGHT - 12}
+          y2={VIEW_HEIGHT}
+          stroke="#f87171"
+          strokeWidth="1"
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+      {currentFrame !== undefined && (
+        <line
+          x1={frameToX(currentFrame)}
+          x2={frameToX(currentFrame)}
+          y1={0}
+          y2={VIEW_HEIGHT}
+          stroke="white"
+          strokeWidth="1"
+          opacity="0.7"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+});
+
+TraceSparkline.displayName = 'TraceSparkline';
+
+export default TraceSparkline;
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import * as Tone from 'tone';
+
+export interface FrameRange {
+  start: number; // Inclusive, 0-based
+  end: number; // Exclusive
+}
+
+interface UseTransportPlaybackOptions {
+  frameCount: number;
+  frameIntervalBeats: number; // Quarter notes between frames at the current tempo
+  tempo: number; // BPM, drives Tone.Transport
+  onFrame: (frame: number, time: number) => void; // Schedule the frame's audio at `time`
+  onStop?: () => void; // Release anything still sounding when playback pauses
+}
+
+interface UseTransportPlaybackReturn {
+  isPlaying: boolean;
+  currentFrame: number;
+  loop: FrameRange | null;
+  play: () => void;
+  pause: () => void;
+  toggle: () => void;
+  seek: (frame: number) => void;
+  setLoop: (loop: FrameRange | null) => void;
+}
+
+/**
+ * Frame-by-frame playback scheduled on Tone.Transport
+ *
+ * Frames are queued with the Transport's lookahead, so audio stays
+ * sample-accurate when the main thread is busy; the visible frame follows
+ * through Tone.Draw so it changes when the frame is actually heard.
+ */
+export const useTransportPlayback = ({
+  frameCount,
+  frameIntervalBeats,
+  tempo,
+  onFrame,
+  onStop
+}: UseTransportPlaybackOptions): UseTransportPlaybackReturn => {
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [currentFrame, setCurrentFrame] = useState(0);
+  const [loop, setLoopState] = useState<FrameRange | null>(null);
+  const nextFrameRef = useRef(0);
+  const loopRef = useRef<FrameRange | null>(null);
+  const frameCountRef = useRef(frameCount);
+  const onFrameRef = useRef(onFrame);
+  const onStopRef = useRef(onStop);
+
+  // Keep callbacks current without rescheduling the Transport
+  useEffect(() => {
+    onFrameRef.current = onFrame;
+    onStopRef.current = onStop;
+  }, [onFrame, onStop]);
+
+  useEffect(() => {
+    frameCountRef.current = frameCount;
+    // A shorter recording keeps only the part of the loop it still has
+    const current = loopRef.current;
+    if (current && current.end > frameCount) {
+      const clamped = current.start < frameCount ? { start: current.start, end: frameCount } : null;
+      loopRef.current = clamped;
+      setLoopState(clamped);
+    }
+    if (nextFrameRef.current >= frameCount) {
+      nextFrameRef.current = 0;
+      setCurrentFrame(0);
+    }
+  }, [frameCount]);
+
+  // Tempo changes take effect on the next Transport tick
+  useEffect(() => {
+    Tone.getTransport().bpm.value = tempo;
+  }, [tempo]);
+
+  // Schedule one repeating event per frame while playing
+  useEffect(() => {
+    if (!isPlaying || frameCount === 0) return;
+
+    const transport = Tone.getTransport();
+    const draw = Tone.getDraw();
+    const intervalTicks = frameIntervalBeats * transport.PPQ;
+
+    const eventId = transport.scheduleRepeat(time => {
+      const frame = nextFrameRef.current;
+      const activeLoop = loopRef.current;
+      let next = frame + 1;
+      if (activeLoop && next >= activeLoop.end) {
+        next = activeLoop.start;
+      } else if (next >= frameCountRef.current) {
+        next = activeLoop ? activeLoop.start : 0;
+      }
+      if (next >= frameCountRef.current) next = 0;
+      nextFrameRef.current = next;
+
+      onFrameRef.current(frame, time);
+      draw.schedule(() => setCurrentFrame(frame), time);
+    }, `${intervalTicks}i`, `${Math.ceil(transport.ticks)}i`);
+
+    if (transport.state !== 'started') {
+      transport.start();
+    }
+
+    return () => {
+      transport.clear(eventId);
+    };
+  }, [isPlaying, frameIntervalBeats, frameCount]);
+
+  // Stop the Transport if the component unmounts mid-playback
+  useEffect(() => {
+    return () => {
+      const transport = Tone.getTransport();
+      if (transport.state === 'started') {
+        transport.pause();
+      }
+      Tone.getDraw().cancel();
+    };
+  }, []);
+
+  const play = useCallback(() => {
+    setIsPlaying(true);
+  }, []);
+
+  const pause = useCallback(() => {
+    setIsPlaying(false);
+    const transport = Tone.getTransport();
+    if (transport.state === 'started') {
+      transport.pause();
+    }
+    Tone.getDraw().cancel();
+    onStopRef.current?.();
+  }, []);
+
+  const toggle = useCallback(() => {
+    if (isPlaying) {
+      pause();
+    } else {
+      play();
+    }
+  }, [isPlaying, pause, play]);
+
+  const seek = useCallback((frame: number) => {
+    const target = Math.max(0, Math.min(frameCountRef.current - 1, Math.round(frame)));
+    nextFrameRef.current = target;
+    Tone.getDraw().cancel(); // Drop pending frame updates from before the seek
+    setCurrentFrame(target);
+  }, []);
+
+  const setLoop = useCallback((range: FrameRange | null) => {
+    const normalized = range
+      ? {
+          start: Math.max(0, Math.min(range.start, range.end)),
+          end: Math.min(frameCountRef.current, Math.max(range.start, range.end))
+        }
+      : null;
+    const valid = normalized && normalized.end > normalized.start ? normalized : null;
+
+    loopRef.current = valid;
+    setLoopState(valid);
+
+    // Jump into the loop if the playhead is outside it
+    if (valid && (nextFrameRef.current < valid.start || nextFrameRef.current >= valid.end)) {
+      seek(valid.start);
+    }
+  }, [seek]);
+
+  return {
+    isPlaying,
+    currentFrame,
+    loop,
+    play,
+    pause,
+    toggle,
+    seek,
+    setLoop
+  };
+};
@@ -1,9 +1,15 @@
 import { TIFFFrame } from './utils/tiffLoader';
+import { TraceProcessingOptions } from './utils/traceProcessing';
+import { SpikeEvent } from './utils/spikeInference';
+import { MotionCorrectionResult } from './utils/motionCorrection';
+import { SegmentationResult } from './utils/roiSegmentation';
 
 export interface Neuron {
   id: number;
   name: string;
-  trace: number[];
+  trace: number[]; // Processed trace (see CalciumDataset.traceProcessing)
+  rawTrace?: number[]; // Mean ROI fluorescence before any processing
+  events?: SpikeEvent[]; // Inferred spikes, sorted by frame
   coordinates?: number[][];
   frequency?: number;
   phase?: number;
@@ -16,9 +22,15 @@ export interface CalciumDataset {
   frames: number;
   fps: number;
   datasetName?: string;
+  datasetId?: string; // Source id (e.g. Neurofinder '00.00'), keys the local cache
   imageWidth?: number; // Original image width in pixels
   imageHeight?: number; // Original image height in pixels
   frameImages?: TIFFFrame[]; // Optional: original frame images for visualization
+  traceProcessing?: TraceProcessingOptions; // How raw fluorescence became `trace`
+  motionCorrection?: MotionCorrectionResult; // Registration applied before extraction, with per-frame shifts
+  segmentation?: SegmentationResult; // Accepted and rejected ROI candidates, when ROIs were detected automatically
+  groundTruth?: number[][][]; // Pixel lists of the ground-truth regions ROI detection ran without
+  roiEdited?: boolean; // ROIs were changed by hand after extraction
   metadata?: {
     source?: string;
     region?: string;
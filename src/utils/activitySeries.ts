@@ -0,0 +1,71 @@
+/**
+ * Activity time series for clusters and the whole population
+ * Shared by the activity heatmap and the playback timeline
+ */
+
+import { CalciumDataset } from '../types';
+import { Cluster } from './clustering';
+
+export interface ActivitySeries {
+  clusterIdx: number; // -1 for the overall population
+  activity: number[]; // Mean trace value per frame
+  name: string;
+}
+
+/**
+ * Mean trace value of a set of neurons at every frame
+ */
+function meanActivity(dataset: CalciumDataset, neuronIndices: number[]): number[] {
+  const activity: number[] = [];
+
+  for (let frame = 0; frame < dataset.frames; frame++) {
+    let totalActivity = 0;
+    let count = 0;
+
+    neuronIndices.forEach(neuronIdx => {
+      const neuron = dataset.neurons[neuronIdx];
+      if (neuron && neuron.trace && frame < neuron.trace.length) {
+        totalActivity += neuron.trace[frame] || 0;
+        count++;
+      }
+    });
+
+    activity.push(count > 0 ? totalActivity / count : 0);
+  }
+
+  return activity;
+}
+
+/**
+ * Activity over time for each cluster, or for all neurons when there are no clusters
+ */
+export function computeActivitySeries(dataset: CalciumDataset, clusters?: Cluster[]): ActivitySeries[] {
+  if (clusters && clusters.length > 0) {
+    return clusters.map((cluster, clusterIdx) => ({
+      clusterIdx,
+      activity: meanActivity(dataset, cluster.neurons),
+      name: `Cluster ${clusterIdx + 1}`
+    }));
+  }
+
+  return [{
+    clusterIdx: -1,
+    activity: meanActivity(dataset, dataset.neurons.map((_, idx) => idx)),
+    name: 'Overall Activity'
+  }];
+}
+
+/**
+ * Combine cluster series into one population curve, weighted by cluster size
+ */
+export function computePopulationActivity(series: ActivitySeries[], clusters?: Cluster[]): number[] {
+  if (series.length === 0) return [];
+  if (series.length === 1) return series[0].activity;
+
+  const weights = series.map(s => clusters?.[s.clusterIdx]?.neurons.length ?? 1);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0) || 1;
+
+  return series[0].activity.map((_, frame) =>
+    series.reduce((sum, s, idx) => sum + (s.activity[frame] || 0) * weights[idx], 0) / totalWeight
+  );
+}
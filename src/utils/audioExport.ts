@@ -0,0 +1,229 @@
+/**
+ * Offline audio export for the musical sonification
+ *
+ * Renders the piece with Tone.Offline using the same cluster instruments,
+ * effect chains, compressor and limiter as live playback, then encodes the
+ * result as a 16-bit PCM WAV file.
+ */
+
+import * as Tone from 'tone';
+import { CalciumDataset } from '../types';
+import { Cluster } from './clustering';
+import { performPCA } from './pca';
+import { initSeededRandom, seededRandom, hashDataset } from './seededRandom';
+import { scoreFromDataset } from './scoreEngine';
+import { Tonality } from './tonality';
+import {
+  assignInstrumentToCluster,
+  createInstrument,
+  getClusterVolumeScale,
+  getInstrumentEffectSettings
+} from './instruments';
+import { channelGain, getChannel, MixerSettings, resolveChannelEffects, resolveInstrument } from './mixer';
+
+export interface AudioExportOptions {
+  tempo: number;
+  startFrame?: number; // Inclusive, 0-based
+  endFrame?: number; // Exclusive
+  volume?: number;
+  sampleRate?: number;
+  tailSeconds?: number; // Extra time after the last frame for reverb/release tails
+  mixer?: MixerSettings; // Per-cluster channel settings from the mixer strip
+  tonality?: Tonality; // Key, mode and progression used for the score
+}
+
+const REVERB_PRE_DELAY = 0.01;
+
+/**
+ * Build a reverb impulse response from the seeded generator
+ * Tone.Reverb generates its impulse from Math.random, which would make every
+ * export sound (and hash) slightly different
+ */
+function createSeededImpulseResponse(decay: number, sampleRate: number): Tone.ToneAudioBuffer {
+  const length = Math.max(1, Math.ceil((decay + REVERB_PRE_DELAY) * sampleRate));
+  const preDelaySamples = Math.floor(REVERB_PRE_DELAY * sampleRate);
+  const channels = [new Float32Array(length), new Float32Array(length)];
+
+  channels.forEach(channel => {
+    for (let i = preDelaySamples; i < length; i++) {
+      const t = (i - preDelaySamples) / sampleRate;
+      // Exponential decay reaching roughly -60dB at `decay` seconds
+      channel[i] = (seededRandom() * 2 - 1) * Math.exp((-6.9 * t) / decay);
+    }
+  });
+
+  return Tone.ToneAudioBuffer.fromArray(channels);
+}
+
+/**
+ * Deterministic replacement for Tone.Reverb: dry/wet crossfade around a convolver
+ */
+function createSeededReverb(decay: number, wet: number, sampleRate: number): { input: Tone.Gain; output: Tone.CrossFade } {
+  const input = new Tone.Gain();
+  const output = new Tone.CrossFade(wet);
+  const convolver = new Tone.Convolver(createSeededImpulseResponse(decay, sampleRate));
+
+  input.connect(output.a);
+  input.connect(convolver);
+  convolver.connect(output.b);
+
+  return { input, output };
+}
+
+/**
+ * Render the musical sonification of a dataset offline
+ * The same dataset, clusters and options always produce the same samples
+ */
+export async function renderMusicalSonification(
+  dataset: CalciumDataset,
+  clusters: Cluster[],
+  pcaResult: ReturnType<typeof performPCA> | null,
+  options: AudioExportOptions
+): Promise<AudioBuffer> {
+  if (clusters.length === 0 || dataset.frames === 0) {
+    throw new Error('Nothing to render: dataset has no clusters or frames');
+  }
+
+  const score = scoreFromDataset(dataset, clusters, pcaResult, {
+    tempo: options.tempo,
+    startFrame: options.startFrame,
+    endFrame: options.endFrame,
+    tonality: options.tonality
+  });
+  const sampleRate = options.sampleRate ?? 44100;
+  const tailSeconds = options.tailSeconds ?? 2;
+  const duration = score.duration + tailSeconds;
+  const volume = options.volume ?? 0.7;
+  const mixer = options.mixer ?? [];
+
+  // Seed from the dataset so reverb tails are identical across exports
+  initSeededRandom(hashDataset(
+    dataset.datasetName || 'dataset',
+    dataset.neurons.length,
+    dataset.frames
+  ));
+
+  const rendered = await Tone.Offline(() => {
+    // Same master chain as live playback: gain -> compressor -> limiter -> destination
+    const compressor = new Tone.Compressor({
+      threshold: -24,
+      ratio: 4,
+      attack: 0.003,
+      release: 0.1
+    });
+    const limiter = new Tone.Limiter(-12).toDestination();
+    const gain = new Tone.Gain(volume * getClusterVolumeScale(clusters.length));
+    gain.connect(compressor);
+    compressor.connect(limiter);
+
+    const instruments = new Map<number, Tone.PolySynth | Tone.Synth>();
+    clusters.forEach((cluster, idx) => {
+      const instrumentType = resolveInstrument(mixer, idx, assignInstrumentToCluster(cluster, idx, dataset, pcaResult));
+      const instrument = createInstrument(instrumentType);
+      const channel = getChannel(mixer, idx);
+      const effects = resolveChannelEffects(channel, getInstrumentEffectSettings(instrumentType));
+      const reverb = createSeededReverb(effects.reverbDecay, effects.reverbWet, sampleRate);
+
+      // Instrument -> delay (if sent) -> reverb -> pan -> channel fader -> master gain
+      if (effects.delay.wet > 0) {
+        const delay = new Tone.FeedbackDelay(effects.delay);
+        instrument.connect(delay);
+        delay.connect(reverb.input);
+      } else {
+        instrument.connect(reverb.input);
+      }
+      const panner = new Tone.Panner({ pan: channel.pan, channelCount: 2 });
+      const fader = new Tone.Gain(channelGain(mixer, idx));
+      reverb.output.connect(panner);
+      panner.connect(fader);
+      fader.connect(gain);
+
+      instruments.set(cluster.id, instrument);
+    });
+
+    // Schedule the whole score up front
+    score.notes.forEach(note => {
+      const instrument = instruments.get(note.clusterId);
+      if (!instrument) return;
+
+      try {
+        if (instrument instanceof Tone.PolySynth) {
+          instrument.triggerAttackRelease(
+            Tone.Frequency(note.frequency).toNote(),
+            note.duration,
+            note.time,
+            note.volume
+          );
+        } else {
+          instrument.volume.setValueAtTime(note.volume, note.time);
+          instrument.triggerAttackRelease(note.frequency, note.duration, note.time);
+        }
+      } catch (error) {
+        // Overlapping monophonic notes can be rejected; skip them like live playback does
+      }
+    });
+  }, duration, 2, sampleRate);
+
+  const buffer = rendered.get();
+  if (!buffer) {
+    throw new Error('Offline rendering produced no audio');
+  }
+  return buffer;
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Encode an AudioBuffer as a 16-bit PCM WAV file
+ */
+export function encodeWav(buffer: AudioBuffer): Blob {
+  const numChannels = buffer.numberOfChannels;
+  const sampleRate = buffer.sampleRate;
+  const length = buffer.length;
+  const bytesPerSample = 2;
+  const blockAlign = numChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+
+  const arrayBuffer = new ArrayBuffer(44 + dataSize);
+  const view = new DataView(arrayBuffer);
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // Chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true); // Byte rate
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  // data chunk
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  const channels: Float32Array[] = [];
+  for (let c = 0; c < numChannels; c++) {
+    channels.push(buffer.getChannelData(c));
+  }
+
+  // Interleave channels and convert to 16-bit integers
+  let offset = 44;
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < numChannels; c++) {
+      const sample = Math.max(-1, Math.min(1, channels[c][i]));
+      view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([arrayBuffer], { type: 'audio/wav' });
+}
@@ -1,5 +1,22 @@
 import { TIFFFrame } from './tiffLoader';
+import { FrameSource, frameSourceFromArray, isFrameSource } from './frameSource';
+import { MotionCorrectionOptions, MotionCorrectionResult, motionCorrectSource } from './motionCorrection';
+import {
+  createCorrelationAccumulator,
+  DEFAULT_SEGMENTATION,
+  segmentCorrelationImage,
+  SegmentationOptions,
+  SegmentationResult
+} from './roiSegmentation';
 import { Neuron, CalciumDataset } from '../types';
+import {
+  computeNeuropilMasks,
+  DEFAULT_TRACE_PROCESSING,
+  minMaxNormalize,
+  processTraces,
+  TraceProcessingOptions
+} from './traceProcessing';
+import { inferSpikes, SpikeEvent } from './spikeInference';
 
 /**
  * Extract calcium traces from TIFF image sequence
@@ -8,48 +25,188 @@ import { Neuron, CalciumDataset } from '../types';
  * intensity over time from the image sequence.
  */
 
+export interface ROIBoundingBox {
+  minX: number;
+  minY: number;
+  maxX: number; // Inclusive
+  maxY: number; // Inclusive
+}
+
 export interface ROI {
   id: number;
-  coordinates: number[][];
-  mask: boolean[][];
+  coordinates: number[][]; // As supplied: pixel list or polygon vertices, [x, y]
+  mask: boolean[][]; // mask[y][x], only populated inside the bounding box
+  pixels: number[][]; // Every [x, y] pixel covered by the ROI
+  pixelCount: number;
+  centroid: [number, number]; // Mean [x, y] of covered pixels
+  bbox: ROIBoundingBox;
+  quality?: number; // Segmentation score (0-1) for automatically detected ROIs
 }
 
+// A pixel list covers most of its bounding box; a polygon outline only its perimeter
+const PIXEL_LIST_MIN_DENSITY = 0.35;
+
 /**
- * Extract ROIs from ground truth regions (if available)
+ * Decide whether a regions.json coordinate list enumerates pixels or traces a polygon
+ * Neurofinder ships pixel lists; hand-drawn regions are usually polygon outlines
  */
-export function extractROIsFromRegions(regions: any[]): ROI[] {
-  return regions.map((region, index) => {
-    const coordinates = region.coordinates || [];
-    // Create a bounding box and mask for the ROI
-    const xs = coordinates.map((c: number[]) => c[0]);
-    const ys = coordinates.map((c: number[]) => c[1]);
-    const minX = Math.min(...xs);
-    const maxX = Math.max(...xs);
-    const minY = Math.min(...ys);
-    const maxY = Math.max(...ys);
-
-    // Simple rectangular mask (could be improved with polygon filling)
-    const mask: boolean[][] = [];
-    for (let y = minY; y <= maxY; y++) {
-      mask[y] = [];
-      for (let x = minX; x <= maxX; x++) {
-        // Check if point is inside polygon (simplified)
-        mask[y][x] = coordinates.some((c: number[]) => 
-          Math.abs(c[0] - x) < 2 && Math.abs(c[1] - y) < 2
-        );
+export function isPixelList(coordinates: number[][]): boolean {
+  if (coordinates.length < 3) return true;
+  if (!coordinates.every(c => Number.isInteger(c[0]) && Number.isInteger(c[1]))) return false;
+
+  const unique = new Set(coordinates.map(c => `${c[0]},${c[1]}`));
+  const xs = coordinates.map(c => c[0]);
+  const ys = coordinates.map(c => c[1]);
+  const bboxArea = (Math.max(...xs) - Math.min(...xs) + 1) * (Math.max(...ys) - Math.min(...ys) + 1);
+
+  return unique.size / bboxArea >= PIXEL_LIST_MIN_DENSITY;
+}
+
+/**
+ * Pixels along a line segment (Bresenham), so polygon edges are always covered
+ */
+function rasterizeSegment(x0: number, y0: number, x1: number, y1: number, add: (x: number, y: number) => void): void {
+  let x = Math.round(x0);
+  let y = Math.round(y0);
+  const xEnd = Math.round(x1);
+  const yEnd = Math.round(y1);
+  const dx = Math.abs(xEnd - x);
+  const dy = -Math.abs(yEnd - y);
+  const sx = x < xEnd ? 1 : -1;
+  const sy = y < yEnd ? 1 : -1;
+  let err = dx + dy;
+
+  for (;;) {
+    add(x, y);
+    if (x === xEnd && y === yEnd) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+}
+
+/**
+ * Fill a polygon with the even-odd rule, sampling pixel centres on the integer grid
+ */
+export function rasterizePolygon(vertices: number[][]): number[][] {
+  const seen = new Set<string>();
+  const pixels: number[][] = [];
+  const add = (x: number, y: number) => {
+    const key = `${x},${y}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      pixels.push([x, y]);
+    }
+  };
+
+  if (vertices.length === 0) return pixels;
+
+  const ys = vertices.map(v => v[1]);
+  const minY = Math.ceil(Math.min(...ys));
+  const maxY = Math.floor(Math.max(...ys));
+
+  // Scanline fill of the interior
+  for (let y = minY; y <= maxY; y++) {
+    const crossings: number[] = [];
+    for (let i = 0; i < vertices.length; i++) {
+      const [x1, y1] = vertices[i];
+      const [x2, y2] = vertices[(i + 1) % vertices.length];
+      if ((y1 <= y && y < y2) || (y2 <= y && y < y1)) {
+        crossings.push(x1 + ((y - y1) * (x2 - x1)) / (y2 - y1));
+      }
+    }
+    crossings.sort((a, b) => a - b);
+    for (let i = 0; i + 1 < crossings.length; i += 2) {
+      for (let x = Math.ceil(crossings[i]); x <= Math.floor(crossings[i + 1]); x++) {
+        add(x, y);
       }
     }
+  }
 
-    return {
-      id: index,
-      coordinates,
-      mask
-    };
+  // Include the outline itself so thin or tiny polygons keep their pixels
+  for (let i = 0; i < vertices.length; i++) {
+    const [x1, y1] = vertices[i];
+    const [x2, y2] = vertices[(i + 1) % vertices.length];
+    rasterizeSegment(x1, y1, x2, y2, add);
+  }
+
+  return pixels;
+}
+
+/**
+ * Build an ROI from the pixels it covers, clipped to the image when its size is known
+ */
+export function createROI(
+  id: number,
+  coordinates: number[][],
+  pixels: number[][],
+  width?: number,
+  height?: number
+): ROI {
+  const inBounds = pixels.filter(([x, y]) =>
+    (width === undefined || (x >= 0 && x < width)) && (height === undefined || (y >= 0 && y < height))
+  );
+
+  const bbox: ROIBoundingBox = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  let sumX = 0;
+  let sumY = 0;
+  inBounds.forEach(([x, y]) => {
+    bbox.minX = Math.min(bbox.minX, x);
+    bbox.minY = Math.min(bbox.minY, y);
+    bbox.maxX = Math.max(bbox.maxX, x);
+    bbox.maxY = Math.max(bbox.maxY, y);
+    sumX += x;
+    sumY += y;
+  });
+
+  const mask: boolean[][] = [];
+  inBounds.forEach(([x, y]) => {
+    if (!mask[y]) mask[y] = [];
+    mask[y][x] = true;
+  });
+
+  const pixelCount = inBounds.length;
+  return {
+    id,
+    coordinates,
+    mask,
+    pixels: inBounds,
+    pixelCount,
+    centroid: pixelCount > 0 ? [sumX / pixelCount, sumY / pixelCount] : [0, 0],
+    bbox: pixelCount > 0 ? bbox : { minX: 0, minY: 0, maxX: -1, maxY: -1 }
+  };
+}
+
+/**
+ * Extract ROIs from ground truth regions (if available)
+ * Accepts both pixel-list and polygon coordinate forms
+ */
+export function extractROIsFromRegions(regions: any[], width?: number, height?: number): ROI[] {
+  return regions.map((region, index) => {
+    const coordinates: number[][] = (region.coordinates || []).filter(
+      (c: unknown) => Array.isArray(c) && c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1])
+    );
+
+    const pixels = isPixelList(coordinates)
+      ? coordinates.map(([x, y]) => [Math.round(x), Math.round(y)])
+      : rasterizePolygon(coordinates);
+
+    // Drop duplicate pixels so each one is weighted once in the trace
+    const unique = Array.from(new Map(pixels.map(p => [`${p[0]},${p[1]}`, p])).values());
+
+    return createROI(index, coordinates, unique, width, height);
   });
 }
 
 /**
  * Extract calcium trace for a single ROI from frame sequence
+ * Averages every pixel in the ROI footprint
  */
 export function extractTraceForROI(
   frames: TIFFFrame[],
@@ -57,32 +214,54 @@ export function extractTraceForROI(
   width: number,
   height: number
 ): number[] {
-  const trace: number[] = [];
+  const indices = roi.pixels
+    .filter(([x, y]) => x >= 0 && x < width && y >= 0 && y < height)
+    .map(([x, y]) => y * width + x);
 
-  for (const frame of frames) {
+  return frames.map(frame => {
     let sum = 0;
     let count = 0;
 
-    // Sample pixels within the ROI
-    for (const coord of roi.coordinates) {
-      const x = Math.floor(coord[0]);
-      const y = Math.floor(coord[1]);
-      
-      if (x >= 0 && x < width && y >= 0 && y < height) {
-        const index = y * width + x;
-        if (index < frame.data.length) {
-          sum += frame.data[index];
-          count++;
-        }
+    for (const index of indices) {
+      if (index < frame.data.length) {
+        sum += frame.data[index];
+        count++;
       }
     }
 
     // Average intensity for this frame
-    const avgIntensity = count > 0 ? sum / count : 0;
-    trace.push(avgIntensity);
-  }
+    return count > 0 ? sum / count : 0;
+  });
+}
 
-  return trace;
+/**
+ * Per-pixel temporal variance, accumulated one frame at a time
+ */
+function createVarianceAccumulator(size: number) {
+  const sum = new Float64Array(size);
+  const sumOfSquares = new Float64Array(size);
+  let count = 0;
+
+  return {
+    add(frame: TIFFFrame) {
+      const length = Math.min(size, frame.data.length);
+      for (let i = 0; i < length; i++) {
+        const value = frame.data[i];
+        sum[i] += value;
+        sumOfSquares[i] += value * value;
+      }
+      count++;
+    },
+    variance(): Float32Array {
+      const variance = new Float32Array(size);
+      if (count === 0) return variance;
+      for (let i = 0; i < size; i++) {
+        const mean = sum[i] / count;
+        variance[i] = Math.max(0, sumOfSquares[i] / count - mean * mean);
+      }
+      return variance;
+    }
+  };
 }
 
 /**
@@ -95,31 +274,20 @@ export function detectROIsAuto(
   width: number,
   height: number
 ): ROI[] {
-  // Calculate temporal variance for each pixel
-  const variance = new Float32Array(width * height);
-  
-  // First pass: calculate mean for each pixel
-  const means = new Float32Array(width * height);
-  for (const frame of frames) {
-    for (let i = 0; i < frame.data.length; i++) {
-      means[i] += frame.data[i];
-    }
-  }
-  for (let i = 0; i < means.length; i++) {
-    means[i] /= frames.length;
-  }
-
-  // Second pass: calculate variance
-  for (const frame of frames) {
-    for (let i = 0; i < frame.data.length; i++) {
-      const diff = frame.data[i] - means[i];
-      variance[i] += diff * diff;
-    }
-  }
-  for (let i = 0; i < variance.length; i++) {
-    variance[i] /= frames.length;
-  }
+  const accumulator = createVarianceAccumulator(width * height);
+  frames.forEach(frame => accumulator.add(frame));
+  return detectROIsFromVariance(accumulator.variance(), numROIs, width, height);
+}
 
+/**
+ * Pick ROIs at well-separated local maxima of a temporal variance image
+ */
+export function detectROIsFromVariance(
+  variance: Float32Array,
+  numROIs: number,
+  width: number,
+  height: number
+): ROI[] {
   // Find peaks (high variance pixels)
   const threshold = Array.from(variance).sort((a, b) => b - a)[numROIs * 10];
   const peaks: { x: number; y: number; variance: number }[] = [];
@@ -183,88 +351,213 @@ export function detectROIsAuto(
       }
     }
 
-    return {
-      id: index,
-      coordinates,
-      mask: [] // Not needed for coordinate-based extraction
-    };
+    return createROI(index, coordinates, coordinates, width, height);
   });
 }
 
+/**
+ * Mean intensity inside each pixel-index list, for every frame, in one pass
+ */
+async function extractMeanTraces(
+  source: FrameSource,
+  pixelLists: number[][],
+  signal?: AbortSignal,
+  onFrame?: (frameIndex: number) => void
+): Promise<number[][]> {
+  const traces = pixelLists.map(() => new Array<number>(source.frameCount).fill(0));
+  let t = 0;
+
+  for await (const frame of source.frames(signal)) {
+    if (t >= source.frameCount) break;
+    pixelLists.forEach((indices, i) => {
+      let sum = 0;
+      let count = 0;
+      for (const index of indices) {
+        if (index < frame.data.length) {
+          sum += frame.data[index];
+          count++;
+        }
+      }
+      traces[i][t] = count > 0 ? sum / count : 0;
+    });
+    onFrame?.(t);
+    t++;
+  }
+
+  return traces;
+}
+
 /**
  * Normalize calcium traces (baseline subtraction and normalization)
  */
 export function normalizeTraces(traces: number[][]): number[][] {
-  return traces.map(trace => {
-    // Calculate baseline (percentile)
-    const sorted = [...trace].sort((a, b) => a - b);
-    const baseline = sorted[Math.floor(sorted.length * 0.1)]; // 10th percentile
-    
-    // Subtract baseline and normalize
-    const max = Math.max(...trace.map(v => v - baseline));
-    if (max === 0) return trace.map(() => 0);
-    
-    return trace.map(v => Math.max(0, (v - baseline) / max));
+  return traces.map(minMaxNormalize);
+}
+
+// Used when neither the dataset metadata nor the user supplies a sampling rate
+export const DEFAULT_FPS = 10;
+
+/**
+ * The frame rate a conversion will use: the requested rate if valid, else DEFAULT_FPS
+ */
+export function resolveFps(fps?: number): number {
+  return fps !== undefined && Number.isFinite(fps) && fps > 0 ? fps : DEFAULT_FPS;
+}
+
+export interface DatasetConversionOptions {
+  fps?: number; // Acquisition rate in Hz (from dataset metadata or a user override)
+  traceProcessing?: TraceProcessingOptions;
+  motionCorrection?: MotionCorrectionOptions; // Registration applied before ROI detection and extraction
+  segmentation?: SegmentationOptions; // ROI detection when regions are missing (or ignored)
+  onProgress?: (progress: number, message: string) => void;
+  signal?: AbortSignal; // Checked between frames
+}
+
+/**
+ * Build neurons from processed traces
+ * Spike events are inferred unless supplied (e.g. by an importer that ships its own)
+ */
+export function createNeurons(
+  traces: number[][],
+  rawTraces: number[][],
+  fps: number,
+  extras: { coordinates?: Array<number[][] | undefined>; names?: string[]; events?: Array<SpikeEvent[] | undefined> } = {}
+): Neuron[] {
+  return traces.map((trace, i) => {
+    // Calculate oscillation properties
+    const mean = trace.reduce((a, b) => a + b, 0) / trace.length;
+    const variance = trace.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / trace.length;
+
+    return {
+      id: i,
+      name: extras.names?.[i] ?? `Neuron ${i + 1}`,
+      trace,
+      rawTrace: rawTraces[i],
+      events: extras.events?.[i] ?? inferSpikes(trace, fps),
+      coordinates: extras.coordinates?.[i],
+      amplitude: Math.sqrt(variance),
+      baseline: mean
+    };
   });
 }
 
 /**
  * Convert TIFF frames to CalciumDataset
+ * Accepts decoded frames or a FrameSource; a source is read in at most two
+ * streaming passes (ROI detection, then traces), so recordings of any length
+ * fit in memory. Only in-memory frames are kept as frameImages.
  */
 export async function framesToCalciumDataset(
-  frames: TIFFFrame[],
+  frames: TIFFFrame[] | FrameSource,
   regions?: any[],
-  metadata?: { datasetName?: string; region?: string; condition?: 'control' | 'disease' | 'unknown' }
+  metadata?: { datasetName?: string; region?: string; condition?: 'control' | 'disease' | 'unknown' },
+  options: DatasetConversionOptions = {}
 ): Promise<CalciumDataset> {
-  if (frames.length === 0) {
+  let source = isFrameSource(frames) ? frames : frameSourceFromArray(frames);
+  if (source.frameCount === 0) {
     throw new Error('No frames provided');
   }
 
-  const width = frames[0].width;
-  const height = frames[0].height;
+  const { width, height, frameCount } = source;
+  const { onProgress, signal } = options;
+  const reportEvery = Math.max(1, Math.floor(frameCount / 100));
+
+  // Register frames to a common reference; in-memory frames are corrected here (0-20%)
+  let motionCorrection: MotionCorrectionResult | undefined;
+  if (options.motionCorrection && options.motionCorrection.mode !== 'off') {
+    const corrected = await motionCorrectSource(source, options.motionCorrection, signal, (value, message) =>
+      onProgress?.(value * 0.2, message)
+    );
+    source = corrected.source;
+    motionCorrection = corrected.result;
+  }
+  const start = motionCorrection ? 20 : 0; // Progress already reported
 
   // Extract ROIs
+  const segmentationOptions = options.segmentation ?? DEFAULT_SEGMENTATION;
   let rois: ROI[];
-  if (regions && regions.length > 0) {
-    rois = extractROIsFromRegions(regions);
+  let segmentation: SegmentationResult | undefined;
+  let groundTruth: number[][][] | undefined;
+  if (regions && regions.length > 0 && !segmentationOptions.ignoreRegions) {
+    onProgress?.(start, 'Rasterizing regions...');
+    rois = extractROIsFromRegions(regions, width, height);
   } else {
-    // Auto-detect ROIs
-    rois = detectROIsAuto(frames, 20, width, height);
+    // Auto-detect ROIs from a variance or local correlation image, one pass over the frames
+    onProgress?.(start, 'Detecting ROIs...');
+    if (regions && regions.length > 0) {
+      // Keep the ignored regions so detection can be scored against them
+      groundTruth = extractROIsFromRegions(regions, width, height).map(roi => roi.pixels);
+    }
+    const useCorrelation = segmentationOptions.method === 'correlation';
+    const accumulator = useCorrelation
+      ? createCorrelationAccumulator(width, height)
+      : createVarianceAccumulator(width * height);
+    let t = 0;
+    for await (const frame of source.frames(signal)) {
+      accumulator.add(frame);
+      if (++t % reportEvery === 0) {
+        onProgress?.(start + (t / frameCount) * 10, `Detecting ROIs (frame ${t}/${frameCount})...`);
+      }
+    }
+
+    if ('image' in accumulator) {
+      segmentation = segmentCorrelationImage(accumulator.image(), width, height, segmentationOptions);
+      rois = segmentation.candidates
+        .filter(candidate => candidate.accepted)
+        .map((candidate, index) => ({
+          ...createROI(index, candidate.pixels, candidate.pixels, width, height),
+          quality: candidate.quality
+        }));
+    } else {
+      rois = detectROIsFromVariance(accumulator.variance(), segmentationOptions.maxNeurons, width, height);
+      segmentation = { ...segmentationOptions, candidates: [] };
+    }
   }
 
-  // Extract traces
-  const rawTraces = rois.map(roi => 
-    extractTraceForROI(frames, roi, width, height)
-  );
+  const fps = resolveFps(options.fps);
+  const traceProcessing = options.traceProcessing ?? DEFAULT_TRACE_PROCESSING;
+
+  // ROI and neuropil annulus traces in a single pass; the annuli only when subtraction is requested
+  const roiPixels = rois.map(roi => roi.pixels
+    .filter(([x, y]) => x >= 0 && x < width && y >= 0 && y < height)
+    .map(([x, y]) => y * width + x));
+  const neuropilMasks = traceProcessing.neuropil
+    ? computeNeuropilMasks(rois, width, height, traceProcessing.neuropilGap, traceProcessing.neuropilWidth)
+    : [];
+
+  onProgress?.(start + 10, `Extracting ${rois.length} traces${traceProcessing.neuropil ? ' and neuropil' : ''}...`);
+  const allTraces = await extractMeanTraces(source, [...roiPixels, ...neuropilMasks], signal, t => {
+    if ((t + 1) % reportEvery === 0) {
+      onProgress?.(start + 10 + ((t + 1) / frameCount) * (75 - start), `Extracting traces (frame ${t + 1}/${frameCount})...`);
+    }
+  });
+  const rawTraces = allTraces.slice(0, rois.length);
+  const neuropilTraces = traceProcessing.neuropil ? allTraces.slice(rois.length) : undefined;
 
   // Normalize traces
-  const normalizedTraces = normalizeTraces(rawTraces);
+  onProgress?.(85, 'Processing traces...');
+  const normalizedTraces = processTraces(rawTraces, fps, traceProcessing, neuropilTraces);
 
   // Create neurons
-  const neurons: Neuron[] = normalizedTraces.map((trace, i) => {
-    // Calculate oscillation properties
-    const mean = trace.reduce((a, b) => a + b, 0) / trace.length;
-    const variance = trace.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / trace.length;
-    
-    return {
-      id: i,
-      name: `Neuron ${i + 1}`,
-      trace,
-      coordinates: rois[i].coordinates,
-      amplitude: Math.sqrt(variance),
-      baseline: mean
-    };
+  onProgress?.(92, 'Inferring spikes...');
+  const neurons = createNeurons(normalizedTraces, rawTraces, fps, {
+    coordinates: rois.map(roi => roi.coordinates)
   });
 
+  onProgress?.(100, 'Traces extracted');
+
   return {
     neurons,
-    frames: frames.length,
-    fps: 10, // Default, should be configurable
+    frames: frameCount,
+    fps,
     datasetName: metadata?.datasetName,
     imageWidth: width,
     imageHeight: height,
-    frameImages: frames, // Store frames for visualization
+    frameImages: source.decodedFrames, // Store frames for visualization
+    traceProcessing,
+    motionCorrection,
+    segmentation,
+    groundTruth,
     metadata
   };
 }
-
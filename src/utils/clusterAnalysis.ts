@@ -0,0 +1,90 @@
+/**
+ * PCA + clustering analysis behind the musical sonification
+ *
+ * Pure and seeded from the dataset's identity, so running it in the pipeline
+ * worker or on the main thread gives identical clusters.
+ */
+
+import { CalciumDataset } from '../types';
+import { extractTraceFeatures, performPCA } from './pca';
+import { suggestOptimalK, Cluster } from './clustering';
+import { ClusteringMethod, ClusteringSettings, ClusterQualityMetric, DEFAULT_CLUSTERING, runClustering } from './clusteringMethods';
+import { Dendrogram } from './hierarchicalClustering';
+import { initSeededRandom, hashDataset } from './seededRandom';
+
+export interface DatasetAnalysis {
+  clusters: Cluster[];
+  pcaResult: ReturnType<typeof performPCA> | null;
+  suggestedK: number;
+  clusterAnalysis: ReturnType<typeof suggestOptimalK> | null;
+  method: ClusteringMethod;
+  quality: ClusterQualityMetric[];
+  noise: number[]; // Neurons in no cluster (density-based methods)
+  dendrogram: Dendrogram | null; // Hierarchical only
+}
+
+export const EMPTY_ANALYSIS: DatasetAnalysis = {
+  clusters: [],
+  pcaResult: null,
+  suggestedK: 4,
+  clusterAnalysis: null,
+  method: 'kmeans',
+  quality: [],
+  noise: [],
+  dendrogram: null
+};
+
+/**
+ * The subset of a dataset the analysis reads; small enough to post to a worker
+ */
+export type AnalysisInput = Pick<CalciumDataset, 'datasetName' | 'frames' | 'imageWidth' | 'imageHeight'> & {
+  neurons: Array<{ trace: number[]; coordinates?: number[][] }>;
+};
+
+/**
+ * Reduce neuron features to 3 principal components and cluster them (or their
+ * traces' correlations, for the functional methods)
+ * numClusters of 0 uses the suggested k; methods that find their own count ignore it
+ */
+export function analyzeDataset(
+  dataset: AnalysisInput,
+  numClusters: number,
+  clustering: ClusteringSettings = DEFAULT_CLUSTERING
+): DatasetAnalysis {
+  if (dataset.neurons.length === 0) {
+    return EMPTY_ANALYSIS;
+  }
+
+  // Initialize seeded random for deterministic results
+  const seed = hashDataset(
+    dataset.datasetName || 'dataset',
+    dataset.neurons.length,
+    dataset.frames
+  );
+  initSeededRandom(seed);
+
+  // Extract features from traces AND spatial coordinates
+  const traces = dataset.neurons.map(n => n.trace);
+  const features = extractTraceFeatures(traces, dataset.neurons, dataset.imageWidth, dataset.imageHeight);
+
+  // Perform PCA (reduce to 3 dimensions)
+  const pca = performPCA(features, 3);
+
+  // Determine optimal number of clusters (the k-means elbow and silhouette)
+  const analysis = suggestOptimalK(pca.transformed, 8);
+  const suggestedK = Math.max(2, Math.min(analysis.optimalK, 6));
+
+  // Perform clustering
+  const result = runClustering(pca.transformed, numClusters || suggestedK, clustering, traces);
+
+  return {
+    clusters: result.clusters,
+    pcaResult: pca,
+    suggestedK,
+    clusterAnalysis: analysis,
+    method: clustering.method,
+    quality: result.metrics,
+    noise: result.noise,
+    dendrogram: result.dendrogram ?? null
+  };
+}
@@ -14,7 +14,7 @@ export interface Cluster {
 /**
  * Compute Euclidean distance between two points
  */
-function distance(a: number[], b: number[]): number {
+export function distance(a: number[], b: number[]): number {
   let sum = 0;
   for (let i = 0; i < a.length; i++) {
     sum += Math.pow(a[i] - b[i], 2);
@@ -172,8 +172,9 @@ export function kMeans(
 /**
  * Calculate silhouette score for a clustering
  * Higher score = better clustering (range: -1 to 1)
+ * Points outside every cluster (density-based noise) are skipped
  */
-function silhouetteScore(data: number[][], clusters: Cluster[]): number {
+export function silhouetteScore(data: number[][], clusters: Cluster[]): number {
   if (clusters.length < 2 || data.length < 2) return 0;
   
   let totalScore = 0;
@@ -0,0 +1,329 @@
+/**
+ * Clustering methods behind one interface
+ *
+ * Every method returns Cluster[] plus its own quality metrics. Most cluster
+ * the PCA-reduced neuron features; the functional methods cluster the trace
+ * correlation matrix instead, but still report centroids in PCA space, which
+ * the score uses for pitch. Density-based and Louvain clustering may leave
+ * neurons out of every cluster; those are returned as noise.
+ */
+
+import { Cluster, distance, kMeans, silhouetteScore } from './clustering';
+import { Dendrogram, Linkage, copheneticCorrelation, hierarchicalClustering, MAX_HIERARCHICAL_POINTS } from './hierarchicalClustering';
+import { dbscan, hdbscan, suggestEps, NOISE } from './densityClustering';
+import { gaussianMixture } from './gaussianMixture';
+import {
+  correlationAffinity,
+  correlationContrast,
+  correlationMatrix,
+  louvain,
+  MAX_FUNCTIONAL_NEURONS,
+  modularity,
+  spectralClustering
+} from './functionalClustering';
+
+export type ClusteringMethod = 'kmeans' | 'hierarchical' | 'dbscan' | 'hdbscan' | 'gmm' | 'spectral' | 'louvain';
+
+export const CLUSTERING_METHOD_LABELS: Record<ClusteringMethod, string> = {
+  kmeans: 'K-means',
+  hierarchical: 'Hierarchical',
+  dbscan: 'DBSCAN',
+  hdbscan: 'HDBSCAN',
+  gmm: 'Gaussian mixture',
+  spectral: 'Spectral (co-activity)',
+  louvain: 'Louvain (co-activity)'
+};
+
+export const LINKAGE_LABELS: Record<Linkage, string> = {
+  ward: 'Ward',
+  average: 'Average',
+  complete: 'Complete',
+  single: 'Single'
+};
+
+export interface ClusteringSettings {
+  method: ClusteringMethod;
+  linkage: Linkage; // Hierarchical only
+  eps: number | null; // DBSCAN radius in PCA units; null picks one from the k-distance knee
+  minPoints: number; // DBSCAN core point threshold
+  minClusterSize: number; // HDBSCAN
+  maxLag: number; // Spectral and Louvain: frames one trace may lead the other and still count as co-active
+}
+
+export const DEFAULT_CLUSTERING: ClusteringSettings = {
+  method: 'kmeans',
+  linkage: 'ward',
+  eps: null,
+  minPoints: 5,
+  minClusterSize: 5,
+  maxLag: 0
+};
+
+export interface ClusterQualityMetric {
+  label: string;
+  value: number;
+  format: 'number' | 'percent';
+  description: string;
+}
+
+export interface ClusteringResult {
+  clusters: Cluster[];
+  noise: number[]; // Neurons left out of every cluster
+  metrics: ClusterQualityMetric[];
+  dendrogram?: Dendrogram;
+}
+
+// Density and community methods can find many tiny groups; the sonification has voices for this many
+const MAX_FOUND_CLUSTERS = 8;
+
+/**
+ * Whether the method takes the number of clusters as input
+ */
+export function usesClusterCount(method: ClusteringMethod): boolean {
+  return method === 'kmeans' || method === 'hierarchical' || method === 'gmm' || method === 'spectral';
+}
+
+/**
+ * Whether the method clusters trace correlations rather than PCA features
+ */
+export function isFunctionalMethod(method: ClusteringMethod): boolean {
+  return method === 'spectral' || method === 'louvain';
+}
+
+/**
+ * The settings that change the result, for cache keys and memo dependencies
+ */
+export function clusteringKey(settings: ClusteringSettings): string {
+  switch (settings.method) {
+    case 'hierarchical':
+      return `hierarchical-${settings.linkage}`;
+    case 'dbscan':
+      return `dbscan-${settings.eps ?? 'auto'}-${settings.minPoints}`;
+    case 'hdbscan':
+      return `hdbscan-${settings.minClusterSize}`;
+    case 'spectral':
+    case 'louvain':
+      return `${settings.method}-lag${settings.maxLag}`;
+    default:
+      return settings.method;
+  }
+}
+
+function inertia(data: number[][], clusters: Cluster[]): number {
+  return clusters.reduce(
+    (sum, cluster) => sum + cluster.neurons.reduce((s, i) => s + distance(data[i], cluster.centroid) ** 2, 0),
+    0
+  );
+}
+
+/**
+ * Turn per-neuron labels into clusters, keeping the largest few; the rest become noise
+ */
+function clustersFromLabels(data: number[][], labels: number[]): { clusters: Cluster[]; noise: number[] } {
+  const groups = new Map<number, number[]>();
+  const noise: number[] = [];
+  labels.forEach((label, i) => {
+    if (label === NOISE) {
+      noise.push(i);
+      return;
+    }
+    if (!groups.has(label)) groups.set(label, []);
+    groups.get(label)!.push(i);
+  });
+
+  const ranked = Array.from(groups.values()).sort((a, b) => b.length - a.length || a[0] - b[0]);
+  ranked.slice(MAX_FOUND_CLUSTERS).forEach(neurons => noise.push(...neurons));
+  noise.sort((a, b) => a - b);
+
+  const dims = data[0]?.length ?? 0;
+  const clusters = ranked.slice(0, MAX_FOUND_CLUSTERS).map((neurons, id) => {
+    const centroid = new Array(dims).fill(0);
+    neurons.forEach(i => data[i].forEach((value, dim) => { centroid[dim] += value / neurons.length; }));
+    return { id, centroid, neurons };
+  });
+  return { clusters, noise };
+}
+
+/**
+ * Correlation-based methods: the metrics compare co-activity inside and across clusters
+ */
+function runFunctional(
+  data: number[][],
+  k: number,
+  settings: ClusteringSettings,
+  traces: number[][]
+): { clusters: Cluster[]; noise: number[]; metrics: ClusterQualityMetric[] } {
+  const n = traces.length;
+  if (n > MAX_FUNCTIONAL_NEURONS) {
+    throw new Error(`Correlation clustering supports up to ${MAX_FUNCTIONAL_NEURONS} neurons; choose another method`);
+  }
+  const correlation = correlationMatrix(traces, settings.maxLag);
+  const affinity = correlationAffinity(correlation, n);
+
+  let labels: number[];
+  if (settings.method === 'spectral') {
+    labels = spectralClustering(affinity, n, k);
+  } else {
+    // A neuron alone in its community has no ensemble to voice
+    labels = louvain(affinity, n).labels;
+    const sizes = new Map<number, number>();
+    labels.forEach(label => sizes.set(label, (sizes.get(label) ?? 0) + 1));
+    labels = labels.map(label => (sizes.get(label)! > 1 ? label : NOISE));
+  }
+
+  const { clusters, noise } = clustersFromLabels(data, labels);
+  const kept = new Array(n).fill(NOISE);
+  clusters.forEach((cluster, id) => cluster.neurons.forEach(i => { kept[i] = id; }));
+  const { within, between } = correlationContrast(correlation, n, kept);
+
+  const metrics: ClusterQualityMetric[] = [
+    {
+      label: 'Modularity',
+      value: modularity(affinity, n, kept),
+      format: 'number',
+      description: 'Correlation weight inside clusters beyond chance (above 0.3 is clear community structure)'
+    },
+    {
+      label: 'Within r',
+      value: within,
+      format: 'number',
+      description: 'Mean trace correlation between neurons of the same cluster'
+    },
+    {
+      label: 'Between r',
+      value: between,
+      format: 'number',
+      description: 'Mean trace correlation between neurons of different clusters (lower separates better)'
+    }
+  ];
+  return { clusters, noise, metrics };
+}
+
+/**
+ * Cluster the data with the chosen method
+ * k is ignored by the density-based and Louvain methods, which find their own count;
+ * the functional methods need the neurons' traces, in the same order as data
+ */
+export function runClustering(
+  data: number[][],
+  k: number,
+  settings: ClusteringSettings = DEFAULT_CLUSTERING,
+  traces?: number[][]
+): ClusteringResult {
+  if (data.length === 0) return { clusters: [], noise: [], metrics: [] };
+
+  let clusters: Cluster[] = [];
+  let noise: number[] = [];
+  let dendrogram: Dendrogram | undefined;
+  const metrics: ClusterQualityMetric[] = [];
+
+  switch (settings.method) {
+    case 'kmeans': {
+      clusters = kMeans(data, k, 100);
+      metrics.push({
+        label: 'Inertia',
+        value: inertia(data, clusters),
+        format: 'number',
+        description: 'Within-cluster sum of squared distances to the centroids (lower is tighter)'
+      });
+      break;
+    }
+    case 'hierarchical': {
+      if (data.length > MAX_HIERARCHICAL_POINTS) {
+        throw new Error(`Hierarchical clustering supports up to ${MAX_HIERARCHICAL_POINTS} neurons; choose another method`);
+      }
+      const result = hierarchicalClustering(data, k, settings.linkage);
+      clusters = result.clusters;
+      dendrogram = result.dendrogram;
+      metrics.push({
+        label: 'Cophenetic r',
+        value: copheneticCorrelation(data, dendrogram),
+        format: 'number',
+        description: 'Correlation between tree merge heights and the original distances (closer to 1 is more faithful)'
+      });
+      break;
+    }
+    case 'dbscan': {
+      const eps = settings.eps ?? suggestEps(data, settings.minPoints);
+      ({ clusters, noise } = clustersFromLabels(data, dbscan(data, eps, settings.minPoints)));
+      metrics.push({
+        label: 'Radius (eps)',
+        value: eps,
+        format: 'number',
+        description: settings.eps === null ? 'Picked from the knee of the k-distance curve' : 'Neighbourhood radius in PCA units'
+      });
+      break;
+    }
+    case 'hdbscan': {
+      const { labels, stabilities } = hdbscan(data, settings.minClusterSize);
+      ({ clusters, noise } = clustersFromLabels(data, labels));
+      metrics.push({
+        label: 'Mean stability',
+        value: stabilities.length > 0 ? stabilities.reduce((sum, s) => sum + s, 0) / stabilities.length : 0,
+        format: 'number',
+        description: 'How long the selected clusters persist across density levels (higher is more robust)'
+      });
+      break;
+    }
+    case 'spectral':
+    case 'louvain': {
+      if (!traces) throw new Error(`${CLUSTERING_METHOD_LABELS[settings.method]} clustering needs the neuron traces`);
+      const result = runFunctional(data, k, settings, traces);
+      ({ clusters, noise } = result);
+      metrics.push(...result.metrics);
+      break;
+    }
+    case 'gmm': {
+      const result = gaussianMixture(data, k);
+      clusters = result.clusters;
+      metrics.push(
+        {
+          label: 'Log-likelihood',
+          value: result.logLikelihood / data.length,
+          format: 'number',
+          description: 'Average log density of a neuron under the fitted mixture (higher fits better)'
+        },
+        {
+          label: 'BIC',
+          value: result.bic,
+          format: 'number',
+          description: 'Bayesian information criterion; compare across k, lower is better'
+        }
+      );
+      break;
+    }
+  }
+
+  // Empty components carry no voice; renumber so ids stay contiguous
+  clusters = clusters
+    .filter(cluster => cluster.neurons.length > 0)
+    .map((cluster, id) => ({ ...cluster, id }));
+
+  // Silhouette measures separation in PCA space, which functional clusters don't aim for
+  if (!isFunctionalMethod(settings.method)) {
+    metrics.unshift({
+      label: 'Silhouette',
+      value: silhouetteScore(data, clusters),
+      format: 'number',
+      description: 'Separation between clusters from -1 to 1 (higher is better); noise neurons are skipped'
+    });
+  }
+  if (!usesClusterCount(settings.method)) {
+    metrics.push(
+      {
+        label: 'Clusters found',
+        value: clusters.length,
+        format: 'number',
+        description: `Largest ${MAX_FOUND_CLUSTERS} kept; smaller groups count as noise`
+      },
+      {
+        label: 'Noise',
+        value: noise.length / data.length,
+        format: 'percent',
+        description: 'Share of neurons in no cluster; they stay silent'
+      }
+    );
+  }
+
+  return { clusters, noise, metrics, dendrogram };
+}
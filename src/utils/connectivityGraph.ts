@@ -0,0 +1,128 @@
+/**
+ * Functional connectivity graph: edges between strongly correlated neurons
+ *
+ * Edges come from the trace correlation matrix (see functionalClustering).
+ * Positions are in the map's image coordinates, either each neuron's own
+ * location or a force-directed layout that pulls co-active neurons together.
+ */
+
+import Papa from 'papaparse';
+import { Neuron } from '../types';
+
+export interface ConnectivityEdge {
+  source: number; // Neuron index
+  target: number;
+  weight: number; // Correlation coefficient
+}
+
+export type GraphLayout = 'anatomical' | 'force';
+
+export interface ConnectivityOverlay {
+  edges: ConnectivityEdge[];
+  layout: GraphLayout;
+}
+
+// Drawing more lines than this turns the map into a solid blob
+export const MAX_DRAWN_EDGES = 3000;
+
+/**
+ * Every pair correlated at or above the threshold, strongest first
+ */
+export function thresholdEdges(correlation: Float64Array, n: number, threshold: number): ConnectivityEdge[] {
+  const edges: ConnectivityEdge[] = [];
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const weight = correlation[i * n + j];
+      if (weight >= threshold) edges.push({ source: i, target: j, weight });
+    }
+  }
+  return edges.sort((a, b) => b.weight - a.weight);
+}
+
+/**
+ * Force-directed layout (Fruchterman-Reingold) started from the given positions
+ *
+ * Edges pull in proportion to their weight and connected nodes push each other
+ * apart. A weak pull back to each node's starting point keeps the picture
+ * registered to the map; unconnected nodes stay where they are.
+ */
+export function forceLayout(
+  initial: Array<[number, number]>,
+  edges: ConnectivityEdge[],
+  width: number,
+  height: number,
+  iterations: number = 150
+): Array<[number, number]> {
+  const positions = initial.map(([x, y]) => [x, y] as [number, number]);
+  const connected = Array.from(new Set(edges.flatMap(edge => [edge.source, edge.target])));
+  if (connected.length < 2) return positions;
+
+  const ideal = Math.sqrt((width * height) / connected.length); // Preferred spacing
+  const anchor = 0.05;
+  const displacement = initial.map(() => [0, 0]);
+  let temperature = Math.max(width, height) / 10;
+
+  for (let iter = 0; iter < iterations; iter++) {
+    connected.forEach(i => {
+      displacement[i][0] = 0;
+      displacement[i][1] = 0;
+    });
+
+    // Repulsion between connected nodes
+    for (let a = 0; a < connected.length; a++) {
+      const i = connected[a];
+      for (let b = a + 1; b < connected.length; b++) {
+        const j = connected[b];
+        const dx = positions[i][0] - positions[j][0];
+        const dy = positions[i][1] - positions[j][1];
+        const dist = Math.max(Math.hypot(dx, dy), 0.01);
+        const force = (ideal * ideal) / dist;
+        displacement[i][0] += (dx / dist) * force;
+        displacement[i][1] += (dy / dist) * force;
+        displacement[j][0] -= (dx / dist) * force;
+        displacement[j][1] -= (dy / dist) * force;
+      }
+    }
+
+    // Attraction along edges
+    edges.forEach(({ source, target, weight }) => {
+      const dx = positions[source][0] - positions[target][0];
+      const dy = positions[source][1] - positions[target][1];
+      const dist = Math.max(Math.hypot(dx, dy), 0.01);
+      const force = (weight * dist * dist) / ideal;
+      displacement[source][0] -= (dx / dist) * force;
+      displacement[source][1] -= (dy / dist) * force;
+      displacement[target][0] += (dx / dist) * force;
+      displacement[target][1] += (dy / dist) * force;
+    });
+
+    // Move, capped by the cooling temperature, with the pull home
+    connected.forEach(i => {
+      const dx = displacement[i][0] + anchor * ideal * (initial[i][0] - positions[i][0]);
+      const dy = displacement[i][1] + anchor * ideal * (initial[i][1] - positions[i][1]);
+      const length = Math.max(Math.hypot(dx, dy), 0.01);
+      const step = Math.min(length, temperature);
+      positions[i][0] = Math.max(0, Math.min(width, positions[i][0] + (dx / length) * step));
+      positions[i][1] = Math.max(0, Math.min(height, positions[i][1] + (dy / length) * step));
+    });
+    temperature *= 0.97;
+  }
+
+  return positions;
+}
+
+/**
+ * Edge list as CSV, with neuron ids and names so rows match other exports
+ */
+export function edgesToCsv(edges: ConnectivityEdge[], neurons: Neuron[]): string {
+  return Papa.unparse({
+    fields: ['source_id', 'source_name', 'target_id', 'target_name', 'correlation'],
+    data: edges.map(({ source, target, weight }) => [
+      neurons[source]?.id ?? source,
+      neurons[source]?.name ?? '',
+      neurons[target]?.id ?? target,
+      neurons[target]?.name ?? '',
+      weight.toFixed(4)
+    ])
+  });
+}
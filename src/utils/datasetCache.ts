@@ -0,0 +1,291 @@
+/**
+ * Persistent IndexedDB cache for loaded datasets
+ *
+ * Three stores, all tagged with the source dataset id so a dataset can be
+ * evicted as a unit:
+ * - frames: decoded TIFF frames with their regions and metadata
+ * - datasets: extracted neurons, keyed by the processing parameters
+ * - analyses: PCA + k-means results, keyed by processing parameters and k
+ * plus an entries store of sizes, so the cache panel never reads the payloads.
+ *
+ * The cache is best-effort: quota errors and unavailable IndexedDB are logged
+ * and treated as misses, never as load failures.
+ */
+
+import { CalciumDataset } from '../types';
+import { TIFFFrame } from './tiffLoader';
+import { DatasetMetadata } from './neurofinderFetcher';
+import { DatasetAnalysis } from './clusterAnalysis';
+import { ClusteringSettings, clusteringKey } from './clusteringMethods';
+import { TraceProcessingOptions } from './traceProcessing';
+import { MotionCorrectionOptions } from './motionCorrection';
+import { DEFAULT_SEGMENTATION, SegmentationOptions } from './roiSegmentation';
+
+const DB_NAME = 'biobeats-cache';
+const DB_VERSION = 1;
+const STORES = ['frames', 'datasets', 'analyses'] as const;
+const ENTRIES_STORE = 'entries';
+const ALL_STORES = [...STORES, ENTRIES_STORE];
+type StoreName = typeof STORES[number];
+
+interface CacheRecord<T> {
+  key: string;
+  datasetId: string;
+  value: T;
+}
+
+interface CacheEntry {
+  key: string; // `${store}|${record key}`
+  store: StoreName;
+  datasetId: string;
+  byteSize: number;
+  cachedAt: number;
+}
+
+export interface CachedFrames {
+  frames: TIFFFrame[];
+  regions?: any;
+  metadata?: DatasetMetadata;
+}
+
+export interface CacheSummary {
+  datasetId: string;
+  framesBytes: number;
+  datasetsBytes: number;
+  analysesBytes: number;
+  totalBytes: number;
+  cachedAt: number; // Most recent write, ms since epoch
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isCacheSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        ALL_STORES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            const store = db.createObjectStore(name, { keyPath: 'key' });
+            store.createIndex('datasetId', 'datasetId');
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call retry if opening failed (e.g. private browsing)
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+async function getRecord<T>(storeName: StoreName, key: string): Promise<T | null> {
+  if (!isCacheSupported()) return null;
+  try {
+    const db = await openDatabase();
+    const record = await requestToPromise<CacheRecord<T> | undefined>(
+      db.transaction(storeName, 'readonly').objectStore(storeName).get(key)
+    );
+    return record ? record.value : null;
+  } catch (error) {
+    console.warn(`Cache read failed (${storeName}):`, error);
+    return null;
+  }
+}
+
+async function putRecord<T>(storeName: StoreName, datasetId: string, key: string, value: T, byteSize: number): Promise<void> {
+  if (!isCacheSupported()) return;
+  try {
+    const db = await openDatabase();
+    const transaction = db.transaction([storeName, ENTRIES_STORE], 'readwrite');
+    const record: CacheRecord<T> = { key, datasetId, value };
+    const entry: CacheEntry = { key: `${storeName}|${key}`, store: storeName, datasetId, byteSize, cachedAt: Date.now() };
+    // put() clones the value synchronously, so callers may transfer buffers right after
+    transaction.objectStore(storeName).put(record);
+    transaction.objectStore(ENTRIES_STORE).put(entry);
+    await transactionDone(transaction);
+  } catch (error) {
+    console.warn(`Cache write failed (${storeName}), continuing without caching:`, error);
+  }
+}
+
+/**
+ * Stable key for the parameters that change extracted traces
+ * Motion correction and segmentation only appear when changed from their defaults,
+ * so keys from before they existed stay valid
+ */
+export function processingKey(dataset: {
+  fps: number;
+  traceProcessing?: TraceProcessingOptions;
+  motionCorrection?: MotionCorrectionOptions;
+  segmentation?: SegmentationOptions;
+}): string {
+  const processing = dataset.traceProcessing;
+  const fields = processing
+    ? Object.keys(processing).sort().map(key => `${key}=${processing[key as keyof typeof processing]}`)
+    : [];
+  const motion = dataset.motionCorrection;
+  const motionFields = motion && motion.mode !== 'off'
+    ? [`motion=${motion.mode}`, `maxShift=${motion.maxShift}`, ...(motion.mode === 'piecewise' ? [`blockSize=${motion.blockSize}`] : [])]
+    : [];
+  const segmentation = dataset.segmentation;
+  const segmentationFields = segmentation && (Object.keys(DEFAULT_SEGMENTATION) as Array<keyof SegmentationOptions>)
+    .some(key => segmentation[key] !== DEFAULT_SEGMENTATION[key])
+    ? [`rois=${segmentation.method}`, `maxNeurons=${segmentation.maxNeurons}`, `ignoreRegions=${segmentation.ignoreRegions}`]
+    : [];
+  return [`fps=${dataset.fps}`, ...fields, ...motionFields, ...segmentationFields].join('&');
+}
+
+export function getCachedFrames(datasetId: string): Promise<CachedFrames | null> {
+  return getRecord<CachedFrames>('frames', datasetId);
+}
+
+export function putCachedFrames(datasetId: string, entry: CachedFrames): Promise<void> {
+  const byteSize = entry.frames.reduce((sum, frame) => sum + frame.data.byteLength, 0);
+  return putRecord('frames', datasetId, datasetId, entry, byteSize);
+}
+
+/**
+ * Extracted dataset without frame images; attach the cached frames on load
+ */
+export function getCachedDataset(datasetId: string, paramsKey: string): Promise<CalciumDataset | null> {
+  return getRecord<CalciumDataset>('datasets', `${datasetId}|${paramsKey}`);
+}
+
+export function putCachedDataset(datasetId: string, paramsKey: string, dataset: CalciumDataset): Promise<void> {
+  const withoutFrames: CalciumDataset = { ...dataset, frameImages: undefined };
+  const shiftsBytes = (dataset.motionCorrection?.shifts.length ?? 0) * 16
+    + (dataset.motionCorrection?.blockShifts?.reduce((sum, blocks) => sum + blocks.length * 16, 0) ?? 0);
+  const candidatesBytes = dataset.segmentation?.candidates.reduce((sum, c) => sum + c.pixels.length * 16, 0) ?? 0;
+  const groundTruthBytes = dataset.groundTruth?.reduce((sum, pixels) => sum + pixels.length * 16, 0) ?? 0;
+  const byteSize = shiftsBytes + candidatesBytes + groundTruthBytes + dataset.neurons.reduce(
+    (sum, neuron) => sum
+      + (neuron.trace.length + (neuron.rawTrace?.length ?? 0)) * 8
+      + (neuron.coordinates?.length ?? 0) * 16
+      + (neuron.events?.length ?? 0) * 16,
+    0
+  );
+  return putRecord('datasets', datasetId, `${datasetId}|${paramsKey}`, withoutFrames, byteSize);
+}
+
+// Bump when the analysis output changes so stale results are recomputed
+const ANALYSIS_VERSION = 3;
+
+// Hand-edited ROIs have no stable key, so their analyses are never cached
+function analysisKey(dataset: CalciumDataset, numClusters: number, clustering: ClusteringSettings): string | null {
+  return dataset.datasetId && !dataset.roiEdited
+    ? `${dataset.datasetId}|${processingKey(dataset)}|k=${numClusters}|${clusteringKey(clustering)}|v${ANALYSIS_VERSION}`
+    : null;
+}
+
+/**
+ * Cached PCA + clustering result; only unedited datasets loaded from a known source are cached
+ */
+export function getCachedAnalysis(
+  dataset: CalciumDataset,
+  numClusters: number,
+  clustering: ClusteringSettings
+): Promise<DatasetAnalysis | null> {
+  const key = analysisKey(dataset, numClusters, clustering);
+  return key ? getRecord<DatasetAnalysis>('analyses', key) : Promise.resolve(null);
+}
+
+export function putCachedAnalysis(
+  dataset: CalciumDataset,
+  numClusters: number,
+  clustering: ClusteringSettings,
+  analysis: DatasetAnalysis
+): Promise<void> {
+  const key = analysisKey(dataset, numClusters, clustering);
+  if (!key || !dataset.datasetId) return Promise.resolve();
+  return putRecord('analyses', dataset.datasetId, key, analysis, JSON.stringify(analysis).length);
+}
+
+/**
+ * Size of everything cached, grouped by dataset id
+ */
+export async function listCacheEntries(): Promise<CacheSummary[]> {
+  if (!isCacheSupported()) return [];
+  try {
+    const db = await openDatabase();
+    const entries = await requestToPromise<CacheEntry[]>(
+      db.transaction(ENTRIES_STORE, 'readonly').objectStore(ENTRIES_STORE).getAll()
+    );
+    const summaries = new Map<string, CacheSummary>();
+
+    entries.forEach(({ datasetId, store, byteSize, cachedAt }) => {
+      const summary = summaries.get(datasetId) ?? {
+        datasetId,
+        framesBytes: 0,
+        datasetsBytes: 0,
+        analysesBytes: 0,
+        totalBytes: 0,
+        cachedAt: 0
+      };
+      summary[`${store}Bytes`] += byteSize;
+      summary.totalBytes += byteSize;
+      summary.cachedAt = Math.max(summary.cachedAt, cachedAt);
+      summaries.set(datasetId, summary);
+    });
+
+    return [...summaries.values()].sort((a, b) => a.datasetId.localeCompare(b.datasetId));
+  } catch (error) {
+    console.warn('Cache listing failed:', error);
+    return [];
+  }
+}
+
+/**
+ * Remove every cached record for one dataset
+ */
+export async function evictDataset(datasetId: string): Promise<void> {
+  if (!isCacheSupported()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(ALL_STORES, 'readwrite');
+  ALL_STORES.forEach(storeName => {
+    const request = transaction.objectStore(storeName).index('datasetId').openKeyCursor(IDBKeyRange.only(datasetId));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      transaction.objectStore(storeName).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+  });
+  await transactionDone(transaction);
+}
+
+export async function clearCache(): Promise<void> {
+  if (!isCacheSupported()) return;
+  const db = await openDatabase();
+  const transaction = db.transaction(ALL_STORES, 'readwrite');
+  ALL_STORES.forEach(storeName => transaction.objectStore(storeName).clear());
+  await transactionDone(transaction);
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
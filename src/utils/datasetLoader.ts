@@ -4,7 +4,7 @@
  * Loads datasets directly from Neurofinder S3 buckets or provided URLs
  */
 
-import { TIFFFrame, loadTIFFFile } from './tiffLoader';
+import { TIFFFrame, loadTIFFSequence } from './tiffLoader';
 
 export interface DatasetInfo {
   id: string;
@@ -422,22 +422,8 @@ export async function loadDatasetFromFiles(
   imageFiles: File[],
   regionsFile?: File
 ): Promise<{ frames: TIFFFrame[]; regions?: any }> {
-  const frames: TIFFFrame[] = [];
-  
-  // Sort files by frame number
-  const sortedFiles = [...imageFiles].sort((a, b) => {
-    const aNum = extractFrameNumber(a.name);
-    const bNum = extractFrameNumber(b.name);
-    return aNum - bNum;
-  });
-
-  for (let i = 0; i < sortedFiles.length; i++) {
-    const frame = await loadTIFFFile(sortedFiles[i]);
-    if (frame) {
-      frame.frameIndex = i;
-      frames.push(frame);
-    }
-  }
+  // Single-frame files and multi-page stacks alike
+  const frames = await loadTIFFSequence(imageFiles);
 
   let regions = null;
   if (regionsFile) {
@@ -452,11 +438,6 @@ export async function loadDatasetFromFiles(
   return { frames, regions };
 }
 
-function extractFrameNumber(filename: string): number {
-  const match = filename.match(/(\d+)/);
-  return match ? parseInt(match[1], 10) : 0;
-}
-
 /**
  * Generate demo/synthetic dataset for testing
  * This creates a dataset with realistic calcium imaging patterns
@@ -0,0 +1,252 @@
+/**
+ * Density-based clustering: DBSCAN and HDBSCAN
+ *
+ * Both find clusters of any shape and leave points in sparse regions
+ * unassigned, returned as label -1. Neighbour searches are brute force,
+ * which is fine for the few thousand points of a PCA embedding.
+ */
+
+import { distance } from './clustering';
+
+export const NOISE = -1;
+
+/**
+ * Distance from each point to its k-th nearest other point
+ */
+function kthNeighborDistances(data: number[][], k: number): number[] {
+  return data.map((point, i) => {
+    const distances: number[] = [];
+    data.forEach((other, j) => {
+      if (i !== j) distances.push(distance(point, other));
+    });
+    distances.sort((a, b) => a - b);
+    return distances[Math.min(k, distances.length) - 1] ?? 0;
+  });
+}
+
+/**
+ * Pick a DBSCAN radius from the knee of the sorted k-distance curve:
+ * the point farthest below the line joining its ends
+ */
+export function suggestEps(data: number[][], minPoints: number): number {
+  if (data.length < 2) return 1;
+  const sorted = kthNeighborDistances(data, Math.max(1, minPoints - 1)).sort((a, b) => a - b);
+  const last = sorted.length - 1;
+  const rise = sorted[last] - sorted[0];
+  let knee = last;
+  let bestGap = 0;
+  sorted.forEach((value, i) => {
+    const onLine = sorted[0] + (rise * i) / (last || 1);
+    if (onLine - value > bestGap) {
+      bestGap = onLine - value;
+      knee = i;
+    }
+  });
+  return sorted[knee] || sorted[last] || 1;
+}
+
+/**
+ * DBSCAN: points with at least minPoints neighbours within eps (counting
+ * themselves) are core points; clusters are core points chained by eps plus
+ * the border points they reach. Returns a label per point, NOISE for the rest.
+ */
+export function dbscan(data: number[][], eps: number, minPoints: number): number[] {
+  const n = data.length;
+  const labels = new Array(n).fill(NOISE);
+  const visited = new Uint8Array(n);
+  const neighbors = (i: number) => {
+    const result: number[] = [];
+    for (let j = 0; j < n; j++) {
+      if (distance(data[i], data[j]) <= eps) result.push(j);
+    }
+    return result;
+  };
+
+  let cluster = 0;
+  for (let i = 0; i < n; i++) {
+    if (visited[i]) continue;
+    visited[i] = 1;
+    const seeds = neighbors(i);
+    if (seeds.length < minPoints) continue;
+
+    labels[i] = cluster;
+    for (let s = 0; s < seeds.length; s++) {
+      const j = seeds[s];
+      if (labels[j] === NOISE) labels[j] = cluster;
+      if (visited[j]) continue;
+      visited[j] = 1;
+      const reach = neighbors(j);
+      if (reach.length >= minPoints) seeds.push(...reach);
+    }
+    cluster++;
+  }
+
+  return labels;
+}
+
+interface CondensedEdge {
+  parent: number; // Condensed cluster id
+  child: number; // Point index, or cluster id when isCluster
+  lambda: number; // 1 / distance at which the child left the parent
+  size: number;
+  isCluster: boolean;
+}
+
+/**
+ * HDBSCAN: single-linkage tree over mutual reachability distances, condensed
+ * so splits smaller than minClusterSize count as points falling out, then the
+ * most stable clusters are selected (excess of mass). The root is never
+ * selected, so a dataset without density structure comes back all noise.
+ */
+export function hdbscan(
+  data: number[][],
+  minClusterSize: number,
+  minSamples: number = minClusterSize
+): { labels: number[]; stabilities: number[] } {
+  const n = data.length;
+  const labels = new Array(n).fill(NOISE);
+  if (n < 2 || n < minClusterSize) return { labels, stabilities: [] };
+
+  // Minimum spanning tree of mutual reachability (Prim, dense)
+  const core = kthNeighborDistances(data, Math.max(1, minSamples - 1));
+  const inTree = new Uint8Array(n);
+  const bestDistance = new Float64Array(n).fill(Infinity);
+  const bestFrom = new Int32Array(n).fill(-1);
+  const edges: Array<{ a: number; b: number; weight: number }> = [];
+  let current = 0;
+  inTree[0] = 1;
+  for (let step = 1; step < n; step++) {
+    for (let j = 0; j < n; j++) {
+      if (inTree[j]) continue;
+      const reach = Math.max(core[current], core[j], distance(data[current], data[j]));
+      if (reach < bestDistance[j]) {
+        bestDistance[j] = reach;
+        bestFrom[j] = current;
+      }
+    }
+    let next = -1;
+    for (let j = 0; j < n; j++) {
+      if (!inTree[j] && (next === -1 || bestDistance[j] < bestDistance[next])) next = j;
+    }
+    edges.push({ a: bestFrom[next], b: next, weight: bestDistance[next] });
+    inTree[next] = 1;
+    current = next;
+  }
+  edges.sort((x, y) => x.weight - y.weight);
+
+  // Single-linkage tree: node n + i is made by the i-th shortest edge
+  const parent = new Int32Array(2 * n - 1).map((_, i) => i);
+  const find = (i: number) => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+  const children: Array<[number, number]> = [];
+  const weights: number[] = [];
+  const sizes = new Int32Array(2 * n - 1).fill(1);
+  edges.forEach((edge, i) => {
+    const left = find(edge.a);
+    const right = find(edge.b);
+    const node = n + i;
+    parent[left] = node;
+    parent[right] = node;
+    children.push([left, right]);
+    weights.push(edge.weight);
+    sizes[node] = sizes[left] + sizes[right];
+  });
+
+  // Duplicate points join at distance 0; cap their lambda so stabilities stay finite
+  const toLambda = (weight: number) => 1 / Math.max(weight, 1e-9);
+  const leavesOf = (node: number): number[] => {
+    const result: number[] = [];
+    const stack = [node];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current < n) result.push(current);
+      else stack.push(...children[current - n]);
+    }
+    return result;
+  };
+
+  // Condense: walk down from the root, keeping a cluster id while splits are too small to count
+  const condensed: CondensedEdge[] = [];
+  const birth: number[] = [0];
+  let nextCluster = 1;
+  const stack: Array<{ node: number; cluster: number }> = [{ node: 2 * n - 2, cluster: 0 }];
+  while (stack.length > 0) {
+    const { node, cluster } = stack.pop()!;
+    if (node < n) continue;
+    const [left, right] = children[node - n];
+    const lambda = toLambda(weights[node - n]);
+    const leftBig = sizes[left] >= minClusterSize;
+    const rightBig = sizes[right] >= minClusterSize;
+
+    if (leftBig && rightBig) {
+      [left, right].forEach(child => {
+        const id = nextCluster++;
+        birth[id] = lambda;
+        condensed.push({ parent: cluster, child: id, lambda, size: sizes[child], isCluster: true });
+        stack.push({ node: child, cluster: id });
+      });
+    } else {
+      [left, right].forEach(child => {
+        if (sizes[child] >= minClusterSize) {
+          stack.push({ node: child, cluster });
+        } else {
+          leavesOf(child).forEach(point => {
+            condensed.push({ parent: cluster, child: point, lambda, size: 1, isCluster: false });
+          });
+        }
+      });
+    }
+  }
+
+  // Stability: mass each cluster holds between its birth and its points' or children's departure
+  const stability = new Array(nextCluster).fill(0);
+  const childClusters: number[][] = Array.from({ length: nextCluster }, () => []);
+  condensed.forEach(edge => {
+    stability[edge.parent] += (edge.lambda - birth[edge.parent]) * edge.size;
+    if (edge.isCluster) childClusters[edge.parent].push(edge.child);
+  });
+
+  // Excess of mass: children were created after parents, so walk ids backwards
+  const selected = new Uint8Array(nextCluster);
+  const subtreeStability = new Array(nextCluster).fill(0);
+  for (let c = nextCluster - 1; c >= 1; c--) {
+    const childSum = childClusters[c].reduce((sum, child) => sum + subtreeStability[child], 0);
+    if (childClusters[c].length === 0 || stability[c] >= childSum) {
+      selected[c] = 1;
+      subtreeStability[c] = stability[c];
+      // Deselect everything below
+      const below = [...childClusters[c]];
+      while (below.length > 0) {
+        const d = below.pop()!;
+        selected[d] = 0;
+        below.push(...childClusters[d]);
+      }
+    } else {
+      subtreeStability[c] = childSum;
+    }
+  }
+
+  // Label each point with the selected cluster above the cluster it fell out of
+  const parentCluster = new Array(nextCluster).fill(-1);
+  condensed.forEach(edge => {
+    if (edge.isCluster) parentCluster[edge.child] = edge.parent;
+  });
+  const selectedIds = Array.from(selected).flatMap((isSelected, c) => (isSelected ? [c] : []));
+  const labelOf = new Map(selectedIds.map((c, label) => [c, label]));
+  condensed.forEach(edge => {
+    if (edge.isCluster) return;
+    for (let c = edge.parent; c > 0; c = parentCluster[c]) {
+      if (labelOf.has(c)) {
+        labels[edge.child] = labelOf.get(c)!;
+        break;
+      }
+    }
+  });
+
+  return { labels, stabilities: selectedIds.map(c => stability[c]) };
+}
@@ -0,0 +1,22 @@
+/**
+ * Trigger a browser download for generated content (audio, MIDI, JSON, CSV)
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Revoke after the click has been handled so the download can start
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Turn a dataset name into a safe filename stem
+ */
+export function toFilenameStem(name: string | undefined, fallback: string = 'dataset'): string {
+  const stem = (name || fallback).trim().replace(/[^a-zA-Z0-9._-]+/g, '_');
+  return stem || fallback;
+}
@@ -0,0 +1,83 @@
+/**
+ * Radix-2 fast Fourier transforms on split real/imaginary arrays
+ *
+ * Transforms run in place; lengths must be powers of two (pad with
+ * nextPowerOfTwo). Inverse transforms are scaled by 1/N.
+ */
+
+export function nextPowerOfTwo(n: number): number {
+  let size = 1;
+  while (size < n) size *= 2;
+  return size;
+}
+
+/**
+ * In-place 1-D complex FFT
+ */
+export function fft1d(re: Float64Array, im: Float64Array, inverse = false): void {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size *= 2) {
+    const angle = ((inverse ? 2 : -2) * Math.PI) / size;
+    const stepRe = Math.cos(angle);
+    const stepIm = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wRe = 1;
+      let wIm = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tRe = re[b] * wRe - im[b] * wIm;
+        const tIm = re[b] * wIm + im[b] * wRe;
+        re[b] = re[a] - tRe;
+        im[b] = im[a] - tIm;
+        re[a] += tRe;
+        im[a] += tIm;
+        const nextWRe = wRe * stepRe - wIm * stepIm;
+        wIm = wRe * stepIm + wIm * stepRe;
+        wRe = nextWRe;
+      }
+    }
+  }
+
+  if (inverse) {
+    for (let i = 0; i < n; i++) {
+      re[i] /= n;
+      im[i] /= n;
+    }
+  }
+}
+
+/**
+ * In-place 2-D complex FFT of a row-major width × height image
+ */
+export function fft2d(re: Float64Array, im: Float64Array, width: number, height: number, inverse = false): void {
+  for (let y = 0; y < height; y++) {
+    fft1d(re.subarray(y * width, (y + 1) * width), im.subarray(y * width, (y + 1) * width), inverse);
+  }
+
+  const columnRe = new Float64Array(height);
+  const columnIm = new Float64Array(height);
+  for (let x = 0; x < width; x++) {
+    for (let y = 0; y < height; y++) {
+      columnRe[y] = re[y * width + x];
+      columnIm[y] = im[y * width + x];
+    }
+    fft1d(columnRe, columnIm, inverse);
+    for (let y = 0; y < height; y++) {
+      re[y * width + x] = columnRe[y];
+      im[y * width + x] = columnIm[y];
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Frame sources: re-iterable streams of TIFF frames
+ *
+ * Lets trace extraction walk recordings that are too long to hold in memory.
+ * A source knows its dimensions and frame count up front and decodes frames
+ * on demand, one pass per call to frames(). Arrays of already decoded frames
+ * are wrapped in the same interface so extraction has a single code path.
+ */
+
+import type { GeoTIFF } from 'geotiff';
+import { TIFFFrame } from './tiffLoader';
+import { countTIFFPages, decodeTIFFImage, iterateTIFFPages, openTIFF } from './tiffDecode';
+
+export interface FrameSource {
+  width: number;
+  height: number;
+  frameCount: number;
+  frames(signal?: AbortSignal): AsyncIterable<TIFFFrame>; // Starts a new pass over every frame, in order
+  decodedFrames?: TIFFFrame[]; // Set when the frames are already in memory
+}
+
+export function isFrameSource(frames: TIFFFrame[] | FrameSource): frames is FrameSource {
+  return !Array.isArray(frames);
+}
+
+/**
+ * Extract frame number from filename
+ * Handles patterns like: frame_000.tif, 000.tif, frame000.tif, etc.
+ */
+export function extractFrameNumber(filename: string): number {
+  const match = filename.match(/(\d+)/);
+  return match ? parseInt(match[1], 10) : 0;
+}
+
+export function sortByFrameNumber<T extends { name: string }>(files: T[]): T[] {
+  return [...files].sort((a, b) => extractFrameNumber(a.name) - extractFrameNumber(b.name));
+}
+
+/**
+ * Wrap frames that are already in memory
+ */
+export function frameSourceFromArray(frames: TIFFFrame[]): FrameSource {
+  return {
+    width: frames[0]?.width ?? 0,
+    height: frames[0]?.height ?? 0,
+    frameCount: frames.length,
+    decodedFrames: frames,
+    async *frames(signal?: AbortSignal) {
+      for (const frame of frames) {
+        signal?.throwIfAborted();
+        yield frame;
+      }
+    }
+  };
+}
+
+/**
+ * Stream frames from TIFF files, each holding one page or a whole stack
+ * Files are ordered by the number in their name and their pages concatenated;
+ * only IFD headers are read up front.
+ */
+export async function createTIFFFrameSource(files: File[], signal?: AbortSignal): Promise<FrameSource> {
+  const sortedFiles = sortByFrameNumber(files);
+  const tiffs: GeoTIFF[] = [];
+  const pageCounts: number[] = [];
+
+  for (const file of sortedFiles) {
+    signal?.throwIfAborted();
+    const tiff = await openTIFF(file);
+    tiffs.push(tiff);
+    pageCounts.push(await countTIFFPages(tiff));
+  }
+
+  if (tiffs.length === 0 || pageCounts.every(count => count === 0)) {
+    throw new Error('No TIFF pages found');
+  }
+
+  const first = await decodeTIFFImage(await tiffs[0].getImage(0), 0);
+
+  return {
+    width: first.width,
+    height: first.height,
+    frameCount: pageCounts.reduce((sum, count) => sum + count, 0),
+    async *frames(passSignal?: AbortSignal) {
+      let frameIndex = 0;
+      for (let i = 0; i < tiffs.length; i++) {
+        yield* iterateTIFFPages(tiffs[i], { firstFrameIndex: frameIndex, signal: passSignal });
+        frameIndex += pageCounts[i];
+      }
+    }
+  };
+}
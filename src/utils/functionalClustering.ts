@@ -0,0 +1,362 @@
+/**
+ * Functional clustering: group neurons that are active together
+ *
+ * Works on the pairwise correlation of their traces rather than on summary
+ * features. Positive correlations become edge weights of a graph, which is
+ * split by spectral clustering (a chosen k) or Louvain community detection
+ * (its own count).
+ */
+
+import { kMeans } from './clustering';
+import { seededRandom } from './seededRandom';
+
+// The dense n × n matrix costs 8n² bytes; beyond this it gets too large to hold and share
+export const MAX_FUNCTIONAL_NEURONS = 3000;
+export const MAX_LAG_FRAMES = 10;
+
+/**
+ * Pearson correlation between every pair of traces, flattened row-major (n × n)
+ * With maxLag > 0 each pair takes its best correlation with one trace shifted
+ * by up to maxLag frames either way, so slightly delayed co-activation counts
+ */
+export function correlationMatrix(traces: ArrayLike<number>[], maxLag: number = 0): Float64Array {
+  const n = traces.length;
+  const result = new Float64Array(n * n);
+  if (n === 0) return result;
+
+  const frames = Math.min(...traces.map(trace => trace.length));
+  const lagLimit = Math.max(0, Math.min(Math.floor(maxLag), MAX_LAG_FRAMES, frames - 2));
+
+  // z-score once so each correlation is a mean of products; flat traces stay all zero
+  const z = traces.map(trace => {
+    let mean = 0;
+    for (let t = 0; t < frames; t++) mean += trace[t] / frames;
+    let variance = 0;
+    for (let t = 0; t < frames; t++) variance += (trace[t] - mean) ** 2 / frames;
+    const std = Math.sqrt(variance);
+    const normalized = new Float64Array(frames);
+    if (std > 0) {
+      for (let t = 0; t < frames; t++) normalized[t] = (trace[t] - mean) / std;
+    }
+    return normalized;
+  });
+
+  for (let i = 0; i < n; i++) {
+    result[i * n + i] = 1;
+    for (let j = i + 1; j < n; j++) {
+      let best = -1;
+      for (let lag = -lagLimit; lag <= lagLimit; lag++) {
+        const a = lag >= 0 ? z[i] : z[j];
+        const b = lag >= 0 ? z[j] : z[i];
+        const shift = Math.abs(lag);
+        const overlap = frames - shift;
+        let sum = 0;
+        for (let t = 0; t < overlap; t++) sum += a[t] * b[t + shift];
+        best = Math.max(best, sum / overlap);
+      }
+      const r = Math.max(-1, Math.min(1, best));
+      result[i * n + j] = r;
+      result[j * n + i] = r;
+    }
+  }
+  return result;
+}
+
+/**
+ * Graph weights from correlations: positive values only, no self-loops
+ */
+export function correlationAffinity(correlation: Float64Array, n: number): Float64Array {
+  const affinity = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      if (i !== j && correlation[i * n + j] > 0) affinity[i * n + j] = correlation[i * n + j];
+    }
+  }
+  return affinity;
+}
+
+/**
+ * Make columns orthonormal in place (modified Gram-Schmidt)
+ * A column that collapses onto the others is replaced with a random one
+ */
+function orthonormalize(columns: Float64Array[]): void {
+  columns.forEach((column, c) => {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      for (let p = 0; p < c; p++) {
+        let dot = 0;
+        for (let i = 0; i < column.length; i++) dot += column[i] * columns[p][i];
+        for (let i = 0; i < column.length; i++) column[i] -= dot * columns[p][i];
+      }
+      let norm = 0;
+      for (let i = 0; i < column.length; i++) norm += column[i] * column[i];
+      norm = Math.sqrt(norm);
+      if (norm > 1e-10) {
+        for (let i = 0; i < column.length; i++) column[i] /= norm;
+        return;
+      }
+      for (let i = 0; i < column.length; i++) column[i] = seededRandom() - 0.5;
+    }
+  });
+}
+
+/**
+ * Spectral clustering (Ng, Jordan & Weiss): embed each neuron with the top k
+ * eigenvectors of the normalized affinity D^-1/2 A D^-1/2, scale rows to unit
+ * length and run k-means on them. Returns a label per neuron.
+ */
+export function spectralClustering(affinity: Float64Array, n: number, k: number, maxIterations: number = 300): number[] {
+  if (n === 0) return [];
+  const dims = Math.max(1, Math.min(k, n));
+
+  const scale = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let degree = 0;
+    for (let j = 0; j < n; j++) degree += affinity[i * n + j];
+    scale[i] = degree > 0 ? 1 / Math.sqrt(degree) : 0;
+  }
+
+  const normalized = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) normalized[i * n + j] = scale[i] * affinity[i * n + j] * scale[j];
+  }
+
+  // Block power iteration on the shifted matrix (eigenvalues moved from [-1, 1] to [0, 2])
+  let basis = Array.from({ length: dims }, () => Float64Array.from({ length: n }, () => seededRandom() - 0.5));
+  orthonormalize(basis);
+  let previous = -Infinity;
+  for (let iter = 0; iter < maxIterations; iter++) {
+    let rayleigh = 0;
+    const next = basis.map(column => {
+      const product = new Float64Array(n);
+      for (let i = 0; i < n; i++) {
+        let sum = column[i];
+        const row = i * n;
+        for (let j = 0; j < n; j++) sum += normalized[row + j] * column[j];
+        product[i] = sum;
+        rayleigh += column[i] * sum;
+      }
+      return product;
+    });
+    orthonormalize(next);
+    basis = next;
+    if (Math.abs(rayleigh - previous) < 1e-9 * dims) break;
+    previous = rayleigh;
+  }
+
+  const embedding = Array.from({ length: n }, (_, i) => {
+    const row = basis.map(column => column[i]);
+    const norm = Math.sqrt(row.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? row.map(value => value / norm) : row;
+  });
+
+  const labels = new Array(n).fill(0);
+  kMeans(embedding, dims, 100).forEach((cluster, label) => {
+    cluster.neurons.forEach(i => { labels[i] = label; });
+  });
+  return labels;
+}
+
+/**
+ * Weighted undirected graph in compressed rows; every edge is stored both ways
+ */
+interface WeightedGraph {
+  offsets: Int32Array;
+  targets: Int32Array;
+  weights: Float64Array;
+  selfLoops: Float64Array; // Weight inside a merged node, counted in both directions
+}
+
+function graphFromAffinity(affinity: Float64Array, n: number): WeightedGraph {
+  const offsets = new Int32Array(n + 1);
+  for (let i = 0; i < n; i++) {
+    let count = 0;
+    for (let j = 0; j < n; j++) if (affinity[i * n + j] > 0) count++;
+    offsets[i + 1] = offsets[i] + count;
+  }
+  const targets = new Int32Array(offsets[n]);
+  const weights = new Float64Array(offsets[n]);
+  for (let i = 0; i < n; i++) {
+    let e = offsets[i];
+    for (let j = 0; j < n; j++) {
+      if (affinity[i * n + j] > 0) {
+        targets[e] = j;
+        weights[e] = affinity[i * n + j];
+        e++;
+      }
+    }
+  }
+  return { offsets, targets, weights, selfLoops: new Float64Array(n) };
+}
+
+function strengths(graph: WeightedGraph): Float64Array {
+  const n = graph.selfLoops.length;
+  const result = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    let sum = graph.selfLoops[i];
+    for (let e = graph.offsets[i]; e < graph.offsets[i + 1]; e++) sum += graph.weights[e];
+    result[i] = sum;
+  }
+  return result;
+}
+
+/**
+ * Louvain local moving phase: move nodes to the neighbouring community with the
+ * largest modularity gain until none helps. Returns contiguous community ids.
+ */
+function moveNodes(graph: WeightedGraph, resolution: number, totalWeight: number): { community: Int32Array; count: number } {
+  const n = graph.selfLoops.length;
+  const strength = strengths(graph);
+  const community = Int32Array.from({ length: n }, (_, i) => i);
+  const total = Float64Array.from(strength);
+  const linkWeight = new Float64Array(n);
+  const touched: number[] = [];
+
+  for (let pass = 0; pass < 100; pass++) {
+    let moved = false;
+    for (let i = 0; i < n; i++) {
+      const own = community[i];
+      for (let e = graph.offsets[i]; e < graph.offsets[i + 1]; e++) {
+        const c = community[graph.targets[e]];
+        if (linkWeight[c] === 0) touched.push(c);
+        linkWeight[c] += graph.weights[e];
+      }
+      total[own] -= strength[i];
+
+      let best = own;
+      let bestGain = linkWeight[own] - (resolution * total[own] * strength[i]) / totalWeight;
+      touched.forEach(c => {
+        const gain = linkWeight[c] - (resolution * total[c] * strength[i]) / totalWeight;
+        if (gain > bestGain + 1e-12) {
+          bestGain = gain;
+          best = c;
+        }
+      });
+
+      total[best] += strength[i];
+      community[i] = best;
+      if (best !== own) moved = true;
+      touched.forEach(c => { linkWeight[c] = 0; });
+      touched.length = 0;
+    }
+    if (!moved) break;
+  }
+
+  const renumber = new Map<number, number>();
+  community.forEach((c, i) => {
+    if (!renumber.has(c)) renumber.set(c, renumber.size);
+    community[i] = renumber.get(c)!;
+  });
+  return { community, count: renumber.size };
+}
+
+/**
+ * Collapse each community into one node for the next Louvain level
+ */
+function aggregate(graph: WeightedGraph, community: Int32Array, count: number): WeightedGraph {
+  const n = graph.selfLoops.length;
+  const selfLoops = new Float64Array(count);
+  const links: Array<Map<number, number>> = Array.from({ length: count }, () => new Map());
+  for (let i = 0; i < n; i++) {
+    const ci = community[i];
+    selfLoops[ci] += graph.selfLoops[i];
+    for (let e = graph.offsets[i]; e < graph.offsets[i + 1]; e++) {
+      const cj = community[graph.targets[e]];
+      if (cj === ci) selfLoops[ci] += graph.weights[e];
+      else links[ci].set(cj, (links[ci].get(cj) ?? 0) + graph.weights[e]);
+    }
+  }
+
+  const offsets = new Int32Array(count + 1);
+  links.forEach((map, c) => { offsets[c + 1] = offsets[c] + map.size; });
+  const targets = new Int32Array(offsets[count]);
+  const weights = new Float64Array(offsets[count]);
+  links.forEach((map, c) => {
+    let e = offsets[c];
+    map.forEach((weight, target) => {
+      targets[e] = target;
+      weights[e] = weight;
+      e++;
+    });
+  });
+  return { offsets, targets, weights, selfLoops };
+}
+
+/**
+ * Newman modularity of a labelling on a weighted graph, from about -0.5 to 1
+ * Positive when communities hold more weight than chance; noise labels (-1) are skipped
+ */
+export function modularity(affinity: Float64Array, n: number, labels: number[], resolution: number = 1): number {
+  const strength = new Float64Array(n);
+  let totalWeight = 0;
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) strength[i] += affinity[i * n + j];
+    totalWeight += strength[i];
+  }
+  if (totalWeight === 0) return 0;
+
+  const inside = new Map<number, number>();
+  const total = new Map<number, number>();
+  for (let i = 0; i < n; i++) {
+    const label = labels[i];
+    if (label < 0) continue;
+    total.set(label, (total.get(label) ?? 0) + strength[i]);
+    for (let j = 0; j < n; j++) {
+      if (labels[j] === label) inside.set(label, (inside.get(label) ?? 0) + affinity[i * n + j]);
+    }
+  }
+  let q = 0;
+  total.forEach((tot, label) => {
+    q += (inside.get(label) ?? 0) / totalWeight - resolution * (tot / totalWeight) ** 2;
+  });
+  return q;
+}
+
+/**
+ * Louvain community detection (Blondel et al.): local moving, then merge
+ * communities into nodes and repeat until nothing moves
+ */
+export function louvain(affinity: Float64Array, n: number, resolution: number = 1): { labels: number[]; modularity: number } {
+  const labels = Array.from({ length: n }, (_, i) => i);
+  if (n === 0) return { labels, modularity: 0 };
+
+  let graph = graphFromAffinity(affinity, n);
+  const totalWeight = strengths(graph).reduce((sum, value) => sum + value, 0);
+  if (totalWeight === 0) return { labels, modularity: 0 };
+
+  for (let level = 0; level < 32; level++) {
+    const nodes = graph.selfLoops.length;
+    const { community, count } = moveNodes(graph, resolution, totalWeight);
+    for (let i = 0; i < n; i++) labels[i] = community[labels[i]];
+    if (count === nodes) break;
+    graph = aggregate(graph, community, count);
+  }
+
+  return { labels, modularity: modularity(affinity, n, labels, resolution) };
+}
+
+/**
+ * Mean correlation between neurons in the same cluster and between clusters
+ */
+export function correlationContrast(correlation: Float64Array, n: number, labels: number[]): { within: number; between: number } {
+  let within = 0;
+  let withinCount = 0;
+  let between = 0;
+  let betweenCount = 0;
+  for (let i = 0; i < n; i++) {
+    if (labels[i] < 0) continue;
+    for (let j = i + 1; j < n; j++) {
+      if (labels[j] < 0) continue;
+      if (labels[i] === labels[j]) {
+        within += correlation[i * n + j];
+        withinCount++;
+      } else {
+        between += correlation[i * n + j];
+        betweenCount++;
+      }
+    }
+  }
+  return {
+    within: withinCount > 0 ? within / withinCount : 0,
+    between: betweenCount > 0 ? between / betweenCount : 0
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * Gaussian mixture model fitted by expectation-maximization
+ *
+ * Full covariance per component, initialized from k-means. Each covariance
+ * gets a small ridge so tight or tiny clusters stay invertible. Points are
+ * labelled with their most likely component.
+ */
+
+import { Cluster, kMeans } from './clustering';
+
+export interface GaussianMixtureResult {
+  clusters: Cluster[];
+  weights: number[]; // Mixing proportion per component
+  logLikelihood: number; // Total over all points
+  bic: number; // Bayesian information criterion, lower is better
+}
+
+const LOG_2PI = Math.log(2 * Math.PI);
+const RIDGE = 1e-6;
+
+/**
+ * Lower-triangular Cholesky factor of a symmetric positive definite matrix
+ * Non-positive pivots are clamped so a degenerate covariance still factors
+ */
+function cholesky(matrix: number[][]): number[][] {
+  const d = matrix.length;
+  const L: number[][] = Array.from({ length: d }, () => new Array(d).fill(0));
+  for (let i = 0; i < d; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      L[i][j] = i === j ? Math.sqrt(Math.max(sum, RIDGE)) : sum / L[j][j];
+    }
+  }
+  return L;
+}
+
+/**
+ * Log density of a point under N(mean, LLᵀ)
+ */
+function logGaussian(point: number[], mean: number[], L: number[][]): number {
+  const d = mean.length;
+  const y = new Array(d).fill(0);
+  let mahalanobis = 0;
+  let logDet = 0;
+  for (let i = 0; i < d; i++) {
+    let sum = point[i] - mean[i];
+    for (let k = 0; k < i; k++) sum -= L[i][k] * y[k];
+    y[i] = sum / L[i][i];
+    mahalanobis += y[i] * y[i];
+    logDet += 2 * Math.log(L[i][i]);
+  }
+  return -0.5 * (d * LOG_2PI + logDet + mahalanobis);
+}
+
+/**
+ * Weighted covariance around a mean, plus the ridge on the diagonal
+ */
+function covariance(data: number[][], weights: ArrayLike<number>, mean: number[], total: number): number[][] {
+  const d = mean.length;
+  const cov: number[][] = Array.from({ length: d }, () => new Array(d).fill(0));
+  data.forEach((point, n) => {
+    const w = weights[n];
+    if (w === 0) return;
+    for (let i = 0; i < d; i++) {
+      const di = point[i] - mean[i];
+      for (let j = 0; j <= i; j++) cov[i][j] += w * di * (point[j] - mean[j]);
+    }
+  });
+  for (let i = 0; i < d; i++) {
+    for (let j = 0; j <= i; j++) {
+      cov[i][j] = total > 0 ? cov[i][j] / total : 0;
+      cov[j][i] = cov[i][j];
+    }
+    cov[i][i] += RIDGE;
+  }
+  return cov;
+}
+
+/**
+ * Fit a k-component mixture and assign each point to its most likely component
+ */
+export function gaussianMixture(
+  data: number[][],
+  k: number,
+  maxIterations: number = 100,
+  tolerance: number = 1e-4
+): GaussianMixtureResult {
+  const n = data.length;
+  if (n === 0) return { clusters: [], weights: [], logLikelihood: 0, bic: 0 };
+
+  const d = data[0].length;
+  const components = Math.min(k, n);
+  const initial = kMeans(data, components, 100);
+  let means = initial.map(cluster => [...cluster.centroid]);
+  let weights = initial.map(cluster => Math.max(cluster.neurons.length, 1) / n);
+  let factors = initial.map((cluster, c) => {
+    const membership = new Float64Array(n);
+    cluster.neurons.forEach(i => { membership[i] = 1; });
+    // A singleton cluster has no spread; borrow the overall covariance instead
+    return cluster.neurons.length > 1
+      ? cholesky(covariance(data, membership, means[c], cluster.neurons.length))
+      : cholesky(covariance(data, new Float64Array(n).fill(1), means[c], n));
+  });
+
+  const responsibilities = Array.from({ length: components }, () => new Float64Array(n));
+  let logLikelihood = -Infinity;
+
+  for (let iter = 0; iter < maxIterations; iter++) {
+    // E step: responsibilities via log-sum-exp
+    let total = 0;
+    const logDensity = new Array(components).fill(0);
+    for (let i = 0; i < n; i++) {
+      let max = -Infinity;
+      for (let c = 0; c < components; c++) {
+        logDensity[c] = Math.log(weights[c]) + logGaussian(data[i], means[c], factors[c]);
+        if (logDensity[c] > max) max = logDensity[c];
+      }
+      let sum = 0;
+      for (let c = 0; c < components; c++) sum += Math.exp(logDensity[c] - max);
+      const logSum = max + Math.log(sum);
+      for (let c = 0; c < components; c++) {
+        responsibilities[c][i] = Math.exp(logDensity[c] - logSum);
+      }
+      total += logSum;
+    }
+
+    const converged = Math.abs(total - logLikelihood) < tolerance * n;
+    logLikelihood = total;
+    if (converged) break;
+
+    // M step
+    const mass = responsibilities.map(r => r.reduce((sum, value) => sum + value, 0));
+    weights = mass.map(m => Math.max(m, 1e-12) / n);
+    means = responsibilities.map((r, c) => {
+      const mean = new Array(d).fill(0);
+      if (mass[c] === 0) return means[c];
+      data.forEach((point, i) => {
+        for (let j = 0; j < d; j++) mean[j] += r[i] * point[j];
+      });
+      return mean.map(value => value / mass[c]);
+    });
+    factors = responsibilities.map((r, c) => cholesky(covariance(data, r, means[c], mass[c])));
+  }
+
+  const clusters: Cluster[] = means.map((centroid, id) => ({ id, centroid, neurons: [] }));
+  for (let i = 0; i < n; i++) {
+    let best = 0;
+    for (let c = 1; c < components; c++) {
+      if (responsibilities[c][i] > responsibilities[best][i]) best = c;
+    }
+    clusters[best].neurons.push(i);
+  }
+
+  // Free parameters: means, covariances and all but one mixing weight
+  const parameters = components * d + (components * d * (d + 1)) / 2 + (components - 1);
+  const bic = -2 * logLikelihood + parameters * Math.log(n);
+
+  return { clusters, weights, logLikelihood, bic };
+}
@@ -0,0 +1,248 @@
+/**
+ * Hierarchical agglomerative clustering
+ *
+ * Builds the full merge tree with the nearest-neighbour chain algorithm and
+ * Lance-Williams distance updates (O(n²) time and memory), then cuts it into
+ * k clusters. The tree is kept so it can be drawn as a dendrogram.
+ */
+
+import { Cluster, distance } from './clustering';
+
+export type Linkage = 'ward' | 'average' | 'complete' | 'single';
+
+/**
+ * One merge in the tree, SciPy style: ids below leafCount are points,
+ * leafCount + i is the cluster made by merges[i]
+ */
+export interface DendrogramMerge {
+  left: number;
+  right: number;
+  height: number; // Linkage distance at which the two joined
+  size: number; // Points under this merge
+}
+
+export interface Dendrogram {
+  leafCount: number;
+  merges: DendrogramMerge[]; // Sorted by height
+}
+
+// Above this the distance matrix alone would take hundreds of megabytes
+export const MAX_HIERARCHICAL_POINTS = 4000;
+
+function findRoot(parent: Int32Array, i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+/**
+ * Build the merge tree for the given linkage
+ * Ward works on squared Euclidean distances and reports their square root as heights
+ */
+export function buildDendrogram(data: number[][], linkage: Linkage = 'ward'): Dendrogram {
+  const n = data.length;
+  if (n > MAX_HIERARCHICAL_POINTS) {
+    throw new Error(`Hierarchical clustering supports up to ${MAX_HIERARCHICAL_POINTS} neurons (got ${n})`);
+  }
+  if (n < 2) return { leafCount: n, merges: [] };
+
+  // Condensed storage would save half, but the full matrix keeps indexing simple
+  const d = new Float64Array(n * n);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const dist = distance(data[i], data[j]);
+      const value = linkage === 'ward' ? dist * dist : dist;
+      d[i * n + j] = value;
+      d[j * n + i] = value;
+    }
+  }
+
+  const active = new Uint8Array(n).fill(1);
+  const size = new Int32Array(n).fill(1);
+  const raw: Array<{ a: number; b: number; height: number }> = [];
+  const chain: number[] = [];
+
+  while (raw.length < n - 1) {
+    if (chain.length === 0) {
+      chain.push(active.indexOf(1));
+    }
+
+    const a = chain[chain.length - 1];
+    const previous = chain.length > 1 ? chain[chain.length - 2] : -1;
+
+    // Nearest active cluster to a; ties go to the previous chain element so the chain terminates
+    let b = previous;
+    let best = previous >= 0 ? d[a * n + previous] : Infinity;
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a) continue;
+      if (d[a * n + k] < best) {
+        best = d[a * n + k];
+        b = k;
+      }
+    }
+
+    if (b !== previous) {
+      chain.push(b);
+      continue;
+    }
+
+    // a and b are reciprocal nearest neighbours: merge b into a's slot
+    chain.pop();
+    chain.pop();
+    raw.push({ a, b, height: linkage === 'ward' ? Math.sqrt(best) : best });
+
+    const na = size[a];
+    const nb = size[b];
+    for (let k = 0; k < n; k++) {
+      if (!active[k] || k === a || k === b) continue;
+      const dak = d[a * n + k];
+      const dbk = d[b * n + k];
+      let updated: number;
+      switch (linkage) {
+        case 'single':
+          updated = Math.min(dak, dbk);
+          break;
+        case 'complete':
+          updated = Math.max(dak, dbk);
+          break;
+        case 'average':
+          updated = (na * dak + nb * dbk) / (na + nb);
+          break;
+        case 'ward': {
+          const nk = size[k];
+          updated = ((na + nk) * dak + (nb + nk) * dbk - nk * best) / (na + nb + nk);
+          break;
+        }
+      }
+      d[a * n + k] = updated;
+      d[k * n + a] = updated;
+    }
+    active[b] = 0;
+    size[a] = na + nb;
+  }
+
+  // The chain finds merges out of order; sort by height and relabel with union-find
+  const order = raw.map((_, i) => i).sort((i, j) => raw[i].height - raw[j].height || i - j);
+  const parent = new Int32Array(n).map((_, i) => i);
+  const nodeId = new Int32Array(n).map((_, i) => i);
+  const nodeSize = new Int32Array(n).fill(1);
+  const merges: DendrogramMerge[] = order.map((rawIdx, mergeIdx) => {
+    const { a, b, height } = raw[rawIdx];
+    const rootA = findRoot(parent, a);
+    const rootB = findRoot(parent, b);
+    const merge = {
+      left: nodeId[rootA],
+      right: nodeId[rootB],
+      height,
+      size: nodeSize[rootA] + nodeSize[rootB]
+    };
+    parent[rootB] = rootA;
+    nodeId[rootA] = n + mergeIdx;
+    nodeSize[rootA] = merge.size;
+    return merge;
+  });
+
+  return { leafCount: n, merges };
+}
+
+/**
+ * Cluster label per point after applying all but the last k - 1 merges
+ * Labels are numbered in order of each cluster's lowest point index
+ */
+export function cutDendrogram(dendrogram: Dendrogram, k: number): number[] {
+  const n = dendrogram.leafCount;
+  const clusterCount = Math.max(1, Math.min(k, n));
+  const parent = new Int32Array(n).map((_, i) => i);
+  const representative: number[] = []; // Any leaf under each merge node
+  const leafOf = (id: number) => (id < n ? id : representative[id - n]);
+
+  dendrogram.merges.forEach((merge, i) => {
+    representative[i] = leafOf(merge.left);
+    if (i < n - clusterCount) {
+      const rootLeft = findRoot(parent, leafOf(merge.left));
+      const rootRight = findRoot(parent, leafOf(merge.right));
+      parent[Math.max(rootLeft, rootRight)] = Math.min(rootLeft, rootRight);
+    }
+  });
+
+  const labelOfRoot = new Map<number, number>();
+  return Array.from({ length: n }, (_, i) => {
+    const root = findRoot(parent, i);
+    if (!labelOfRoot.has(root)) labelOfRoot.set(root, labelOfRoot.size);
+    return labelOfRoot.get(root)!;
+  });
+}
+
+/**
+ * Pearson correlation between cophenetic (merge height) and original distances
+ * Close to 1 when the tree preserves the data's pairwise structure
+ */
+export function copheneticCorrelation(data: number[][], dendrogram: Dendrogram): number {
+  const n = dendrogram.leafCount;
+  if (n < 3) return 0;
+
+  const members: number[][] = [];
+  const membersOf = (id: number) => (id < n ? [id] : members[id - n]);
+  let count = 0;
+  let sumX = 0;
+  let sumY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  let sumXY = 0;
+
+  dendrogram.merges.forEach((merge, i) => {
+    const left = membersOf(merge.left);
+    const right = membersOf(merge.right);
+    const y = merge.height;
+    left.forEach(a => right.forEach(b => {
+      const x = distance(data[a], data[b]);
+      count++;
+      sumX += x;
+      sumY += y;
+      sumXX += x * x;
+      sumYY += y * y;
+      sumXY += x * y;
+    }));
+    members[i] = left.concat(right);
+  });
+
+  const covariance = sumXY / count - (sumX / count) * (sumY / count);
+  const varX = sumXX / count - (sumX / count) ** 2;
+  const varY = sumYY / count - (sumY / count) ** 2;
+  return varX > 0 && varY > 0 ? covariance / Math.sqrt(varX * varY) : 0;
+}
+
+/**
+ * Agglomerative clustering into k clusters, with the tree it was cut from
+ */
+export function hierarchicalClustering(
+  data: number[][],
+  k: number,
+  linkage: Linkage = 'ward'
+): { clusters: Cluster[]; dendrogram: Dendrogram } {
+  const dendrogram = buildDendrogram(data, linkage);
+  if (data.length === 0) return { clusters: [], dendrogram };
+
+  const labels = cutDendrogram(dendrogram, k);
+  const clusterCount = Math.max(...labels) + 1;
+  const dims = data[0].length;
+  const clusters: Cluster[] = Array.from({ length: clusterCount }, (_, id) => ({
+    id,
+    centroid: new Array(dims).fill(0),
+    neurons: []
+  }));
+
+  labels.forEach((label, i) => {
+    clusters[label].neurons.push(i);
+    data[i].forEach((value, dim) => {
+      clusters[label].centroid[dim] += value;
+    });
+  });
+  clusters.forEach(cluster => {
+    cluster.centroid = cluster.centroid.map(sum => sum / cluster.neurons.length);
+  });
+
+  return { clusters, dendrogram };
+}
@@ -0,0 +1,470 @@
+/**
+ * Cluster instruments for the musical sonification
+ *
+ * Tone.js synths and effect settings per instrument, and the rule that picks
+ * an instrument for a cluster from its activity, synchrony and PCA position.
+ * Shared by live playback, the audio and MIDI exporters and the comparison view.
+ */
+
+import * as Tone from 'tone';
+import { CalciumDataset } from '../types';
+import { Cluster } from './clustering';
+import { performPCA } from './pca';
+
+/**
+ * Create different instrument sounds using Tone.js with effects
+ * Returns synth that should be connected to gain node
+ */
+export function createInstrument(type: 'piano' | 'bass' | 'strings' | 'flute' | 'guitar' | 'bell' | 'drum' | 'trumpet'): Tone.PolySynth | Tone.Synth {
+  let synth: Tone.PolySynth | Tone.Synth;
+  
+  switch (type) {
+    case 'piano':
+      // Piano-like: bright attack with quick decay
+      synth = new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: 'triangle' },
+        envelope: {
+          attack: 0.005,
+          decay: 0.2,
+          sustain: 0.1,
+          release: 0.4
+        }
+      });
+      break;
+    
+    case 'bass':
+      // Bass: low, warm, sustained
+      synth = new Tone.Synth({
+        oscillator: { type: 'sawtooth' },
+        envelope: {
+          attack: 0.01,
+          decay: 0.2,
+          sustain: 0.6,
+          release: 0.4
+        },
+        // filter: {
+        //   type: 'lowpass',
+        //   frequency: 300,
+        //   Q: 1
+        // }
+      });
+      break;
+    
+    case 'strings':
+      // Strings: smooth, sustained, warm
+      synth = new Tone.PolySynth(Tone.Synth, {
+        oscillator: { type: 'sine' },
+        envelope: {
+          attack: 0.3,
+          decay: 0.2,
+          sustain: 0.8,
+          release: 1.2
+        }
+      });
+      break;
+    
+    case 'flute':
+      // Flute: breathy, melodic, quick attack
+      synth = new Tone.Synth({
+        oscillator: { type: 'sine' },
+        envelope: {
+          attack: 0.1,
+          decay: 0.2,
+          sustain: 0.6,
+          release: 0.5
+        },
+        // filter: {
+        //   type: 'lowpass',
+        //   frequency: 2000,
+        //   Q: 1
+        // }
+      });
+      break;
+    
+    case 'guitar':
+      // Guitar: plucky, percussive
+      synth = new Tone.Synth({
+        oscillator: { type: 'triangle' },
+        envelope: {
+          attack: 0.001,
+          decay: 0.2,
+          sustain: 0.1,
+          release: 0.4
+        },
+        // filter: {
+        //   type: 'lowpass',
+        //   frequency: 2000,
+        //   Q: 2
+        // }
+      });
+      break;
+    
+    case 'bell':
+      // Bell: bright, metallic, long decay
+      synth = new Tone.Synth({
+        oscillator: { type: 'sine' },
+        envelope: {
+          attack: 0.01,
+          decay: 0.3,
+          sustain: 0.2,
+          release: 1.2
+        }
+      });
+      break;
+    
+    case 'drum':
+      // Drum: percussive, short, punchy
+      synth = new Tone.Synth({
+        oscillator: { type: 'square' },
+        envelope: {
+          attack: 0.001,
+          decay: 0.1,
+          sustain: 0,
+          release: 0.2
+        },
+        // filter: {
+        //   type: 'lowpass',
+        //   frequency: 500,
+        //   Q: 3
+        // }
+      });
+      break;
+    
+    case 'trumpet':
+      // Trumpet: bright, brassy, quick attack
+      synth = new Tone.Synth({
+        oscillator: { type: 'sawtooth' },
+        envelope: {
+          attack: 0.01,
+          decay: 0.1,
+          sustain: 0.7,
+          release: 0.3
+        },
+        // filter: {
+        //   type: 'bandpass',
+        //   frequency: 1000,
+        //   Q: 2
+        // }
+      });
+      break;
+    
+    default:
+      synth = new Tone.Synth();
+  }
+  
+  return synth;
+}
+
+// All available instrument types
+export type InstrumentType = 'piano' | 'bass' | 'strings' | 'flute' | 'guitar' | 'bell' | 'drum' | 'trumpet';
+
+/**
+ * Reverb and delay settings for each instrument's effect chain
+ */
+export interface InstrumentEffectSettings {
+  reverbDecay: number;
+  reverbWet: number;
+  delay?: { delayTime: string; feedback: number; wet: number };
+}
+
+/**
+ * Get effect settings for an instrument type
+ * Sustained instruments get longer tails, percussive ones stay dry
+ */
+export function getInstrumentEffectSettings(type: InstrumentType): InstrumentEffectSettings {
+  switch (type) {
+    case 'strings':
+      return { reverbDecay: 0.8, reverbWet: 0.4, delay: { delayTime: '8n', feedback: 0.3, wet: 0.2 } };
+    case 'flute':
+      return { reverbDecay: 0.5, reverbWet: 0.3, delay: { delayTime: '8n', feedback: 0.2, wet: 0.15 } };
+    case 'piano':
+      return { reverbDecay: 0.4, reverbWet: 0.25 };
+    case 'bass':
+      return { reverbDecay: 0.2, reverbWet: 0.1 };
+    case 'guitar':
+      return { reverbDecay: 0.5, reverbWet: 0.3 };
+    case 'bell':
+      return { reverbDecay: 0.7, reverbWet: 0.4 };
+    case 'drum':
+      return { reverbDecay: 0.3, reverbWet: 0.15 };
+    case 'trumpet':
+      return { reverbDecay: 0.4, reverbWet: 0.25, delay: { delayTime: '8n', feedback: 0.15, wet: 0.1 } };
+    default:
+      return { reverbDecay: 0.3, reverbWet: 0.2 };
+  }
+}
+
+/**
+ * Master gain scaling based on cluster count
+ * More clusters = lower volume per cluster to prevent overwhelming sound
+ */
+export function getClusterVolumeScale(clusterCount: number): number {
+  return clusterCount > 4
+    ? Math.max(0.2, 0.5 / clusterCount)  // More aggressive for 5+ clusters
+    : Math.max(0.4, 1.0 / Math.sqrt(clusterCount));  // Less aggressive for 4 or fewer
+}
+
+/**
+ * Calculate oscillation frequency from trace using autocorrelation
+ * Returns dominant frequency in Hz (scaled to dataset fps)
+ */
+export function calculateOscillationFrequency(trace: number[], fps: number): number {
+  if (trace.length < 10) return 0;
+  
+  // Simple autocorrelation to find period
+  const maxLag = Math.min(trace.length / 2, 50);
+  let maxCorrelation = 0;
+  let bestPeriod = 1;
+  
+  for (let lag = 2; lag < maxLag; lag++) {
+    let correlation = 0;
+    for (let i = 0; i < trace.length - lag; i++) {
+      correlation += trace[i] * trace[i + lag];
+    }
+    correlation /= (trace.length - lag);
+    
+    if (correlation > maxCorrelation) {
+      maxCorrelation = correlation;
+      bestPeriod = lag;
+    }
+  }
+  
+  // Convert period to frequency (frames to Hz)
+  return bestPeriod > 0 ? fps / bestPeriod : 0;
+}
+
+/**
+ * Calculate synchronization between neurons in cluster
+ * Returns 0-1, where 1 = perfectly synchronized
+ */
+export function calculateSynchronization(cluster: Cluster, dataset: CalciumDataset): number {
+  if (cluster.neurons.length < 2) return 0;
+  
+  let totalSync = 0;
+  let pairs = 0;
+  
+  for (let i = 0; i < cluster.neurons.length; i++) {
+    for (let j = i + 1; j < cluster.neurons.length; j++) {
+      const neuron1 = dataset.neurons[cluster.neurons[i]];
+      const neuron2 = dataset.neurons[cluster.neurons[j]];
+      if (!neuron1 || !neuron1.trace || !neuron2 || !neuron2.trace) continue;
+      
+      const trace1 = neuron1.trace;
+      const trace2 = neuron2.trace;
+      const minLen = Math.min(trace1.length, trace2.length);
+      
+      // Calculate cross-correlation
+      let correlation = 0;
+      const mean1 = trace1.slice(0, minLen).reduce((a, b) => a + b, 0) / minLen;
+      const mean2 = trace2.slice(0, minLen).reduce((a, b) => a + b, 0) / minLen;
+      
+      for (let f = 0; f < minLen; f++) {
+        correlation += (trace1[f] - mean1) * (trace2[f] - mean2);
+      }
+      
+      // Normalize to 0-1 range
+      totalSync += (correlation / minLen + 1) / 2;
+      pairs++;
+    }
+  }
+  
+  return pairs > 0 ? totalSync / pairs : 0;
+}
+
+/**
+ * Assign instrument to cluster based on music theory, biology, and CS principles
+ * 
+ * Music Theory: Frequency range, harmonic role, timbre
+ * Biology: Oscillation frequency, synchronization, spike patterns
+ * CS: PCA dimensions, statistical properties
+ */
+export function assignInstrumentToCluster(
+  cluster: Cluster,
+  clusterIdx: number,
+  dataset: CalciumDataset,
+  pcaResult: ReturnType<typeof performPCA> | null
+): InstrumentType {
+  if (!pcaResult || cluster.neurons.length === 0) {
+    const fallback: InstrumentType[] = ['piano', 'bass', 'strings', 'flute', 'guitar', 'bell', 'drum', 'trumpet'];
+    return fallback[clusterIdx % fallback.length];
+  }
+
+  // === BIOLOGY: Analyze neural activity patterns ===
+  let totalActivity = 0;
+  let spikeCount = 0;
+  let oscillationFrequencies: number[] = [];
+  let variances: number[] = [];
+  
+  cluster.neurons.forEach(neuronIdx => {
+    const neuron = dataset.neurons[neuronIdx];
+    if (neuron.trace) {
+      const mean = neuron.trace.reduce((a, b) => a + b, 0) / neuron.trace.length;
+      const variance = neuron.trace.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / neuron.trace.length;
+      const std = Math.sqrt(variance);
+      
+      totalActivity += mean;
+      variances.push(variance);
+      
+      // Calculate oscillation frequency (biology: neural oscillation rate)
+      const freq = calculateOscillationFrequency(neuron.trace, dataset.fps);
+      if (freq > 0) oscillationFrequencies.push(freq);
+      
+      // Count spikes (biology: action potential firing)
+      for (let i = 1; i < neuron.trace.length; i++) {
+        if (neuron.trace[i] - neuron.trace[i - 1] > std * 2) {
+          spikeCount++;
+        }
+      }
+    }
+  });
+  
+  const avgActivity = totalActivity / cluster.neurons.length;
+  const spikeRate = spikeCount / (cluster.neurons.length * dataset.frames);
+  const avgVariance = variances.reduce((a, b) => a + b, 0) / variances.length;
+  const coefficientOfVariation = avgActivity > 0 ? Math.sqrt(avgVariance) / avgActivity : 0;
+  
+  // Average oscillation frequency (biology → music theory: maps to pitch range)
+  const avgOscFreq = oscillationFrequencies.length > 0
+    ? oscillationFrequencies.reduce((a, b) => a + b, 0) / oscillationFrequencies.length
+    : 0;
+  
+  // === CS: PCA dimensions represent data structure ===
+  const sampleNeuronIdx = cluster.neurons[0];
+  const pcaCoords = pcaResult.transformed[sampleNeuronIdx] || [0, 0, 0];
+  const pca0 = pcaCoords[0]; // Primary dimension (likely oscillation mode)
+  const pca1 = pcaCoords[1]; // Secondary dimension (likely phase/timing)
+  const pca2 = pcaCoords[2]; // Tertiary dimension (likely amplitude pattern)
+  
+  // === BIOLOGY: Calculate synchronization (how neurons fire together) ===
+  const synchronization = calculateSynchronization(cluster, dataset);
+  
+  // === MUSIC THEORY: Map biological properties to musical characteristics ===
+  
+  // Use data-adaptive thresholds based on cluster properties relative to dataset
+  // This prevents hard-coded thresholds that might not fit all datasets
+  
+  // Calculate dataset-wide statistics for relative comparisons
+  const allOscFreqs: number[] = [];
+  const allSpikeRates: number[] = [];
+  const allSyncs: number[] = [];
+  
+  // Sample neurons from dataset to estimate population statistics
+  const sampleSize = Math.min(100, dataset.neurons.length);
+  for (let i = 0; i < sampleSize; i++) {
+    const neuron = dataset.neurons[Math.floor((i / sampleSize) * dataset.neurons.length)];
+    if (neuron.trace) {
+      const freq = calculateOscillationFrequency(neuron.trace, dataset.fps);
+      if (freq > 0) allOscFreqs.push(freq);
+      
+      const mean = neuron.trace.reduce((a, b) => a + b, 0) / neuron.trace.length;
+      const std = Math.sqrt(neuron.trace.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / neuron.trace.length);
+      let spikes = 0;
+      for (let j = 1; j < neuron.trace.length; j++) {
+        if (neuron.trace[j] - neuron.trace[j - 1] > std * 2) spikes++;
+      }
+      allSpikeRates.push(spikes / dataset.frames);
+    }
+  }
+  
+  const medianOscFreq = allOscFreqs.length > 0 
+    ? [...allOscFreqs].sort((a, b) => a - b)[Math.floor(allOscFreqs.length / 2)]
+    : 1.0;
+  const medianSpikeRate = allSpikeRates.length > 0
+    ? [...allSpikeRates].sort((a, b) => a - b)[Math.floor(allSpikeRates.length / 2)]
+    : 0.05;
+  
+  // 1. FREQUENCY RANGE (Music Theory: Bass/Mid/High)
+  // Use oscillation frequency (biology) mapped to musical frequency range
+  // Low oscillation = bass range, high oscillation = treble range
+  // Use data-adaptive thresholds based on median
+  const isLowFreq = avgOscFreq < medianOscFreq * 0.7 || pca0 < -0.2;
+  const isHighFreq = avgOscFreq > medianOscFreq * 1.5 || pca0 > 0.3;
+  const isMidFreq = !isLowFreq && !isHighFreq;
+  
+  // 2. TIMBRE (Music Theory: Sustained vs Percussive)
+  // Biology: Spike rate determines attack characteristics
+  // Low spike rate = sustained (strings, flute), high = percussive (drum, guitar)
+  // Use data-adaptive thresholds
+  const isSustained = spikeRate < medianSpikeRate * 0.8;
+  const isPercussive = spikeRate > medianSpikeRate * 1.5;
+  const isModerate = spikeRate >= medianSpikeRate * 0.8 && spikeRate <= medianSpikeRate * 1.5;
+  
+  // 3. DYNAMICS (Music Theory: Variable vs Stable)
+  // Biology: Coefficient of variation measures activity stability
+  // Use relative threshold - 0.4 is reasonable for normalized variability
+  const isVariable = coefficientOfVariation > 0.4;
+  const isStable = coefficientOfVariation < 0.4;
+  
+  // 4. HARMONIC ROLE (Music Theory: Foundation/Harmony/Melody/Rhythm)
+  // Biology: Synchronization determines if neurons work together (harmony) or independently (melody)
+  // This is a meaningful biological property: synchronized firing = functional connectivity
+  const isHarmonic = synchronization > 0.5; // Neurons fire together = harmony
+  const isMelodic = synchronization < 0.4; // Neurons fire independently = melody
+  const isRhythmic = spikeRate > medianSpikeRate * 1.5 && isPercussive; // Regular spikes = rhythm
+  
+  // === INSTRUMENT ASSIGNMENT (Combining all three perspectives) ===
+  // Use priority-based assignment with more lenient conditions
+  
+  // DRUM: Rhythmic (high spike rate, percussive) + Low synchronization (independent beats)
+  // Biology: Fast, independent firing = rhythmic pattern
+  if (isPercussive && spikeRate > medianSpikeRate * 1.5 && synchronization < 0.5) {
+    return 'drum';
+  }
+  
+  // BASS: Low frequency (foundation) + Stable (consistent)
+  // Biology: Low oscillation frequency + stable activity = foundational role
+  if (isLowFreq && (isStable || avgActivity > 0.25)) {
+    return 'bass';
+  }
+  
+  // TRUMPET: High frequency + Variable dynamics + Higher activity
+  // Biology: High oscillation + variable activity = prominent, dynamic signal
+  if (isHighFreq && isVariable && avgActivity > 0.25) {
+    return 'trumpet';
+  }
+  
+  // FLUTE: High frequency + Sustained + Lower activity
+  // Biology: High oscillation + sustained, gentle activity = melodic, sustained tone
+  if (isHighFreq && isSustained && avgActivity < 0.5) {
+    return 'flute';
+  }
+  
+  // STRINGS: Mid frequency + Sustained + Harmonic
+  // Biology: Synchronized, sustained firing = harmonic, ensemble-like behavior
+  if (isMidFreq && isSustained && (isHarmonic || avgActivity > 0.15)) {
+    return 'strings';
+  }
+  
+  // BELL: Distinctive PCA[1] (unique pattern) + Lower activity
+  // Biology: Unique temporal pattern = distinctive, bell-like characteristic
+  if (Math.abs(pca1) > 0.5 && avgActivity < 0.5) {
+    return 'bell';
+  }
+  
+  // GUITAR: Moderate spike rate (plucky) + Mid frequency
+  // Biology: Moderate, rhythmic spikes = plucky, guitar-like attack
+  if (isModerate && isMidFreq && spikeRate > medianSpikeRate * 0.5) {
+    return 'guitar';
+  }
+  
+  // More fallback options based on single strong characteristics
+  if (isHighFreq) {
+    return isVariable ? 'trumpet' : 'flute';
+  }
+  
+  if (isLowFreq) {
+    return 'bass';
+  }
+  
+  if (isPercussive && spikeRate > medianSpikeRate) {
+    return 'guitar';
+  }
+  
+  if (isSustained && isHarmonic) {
+    return 'strings';
+  }
+  
+  // PIANO: Versatile fallback - works for most patterns
+  // Biology: General-purpose, adaptable neuron activity
+  return 'piano';
+}
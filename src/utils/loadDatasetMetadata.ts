@@ -17,6 +17,7 @@ export interface DatasetMetadata {
   species?: string;
   indicator?: string;
   fluorophore?: string;
+  'rate-hz'?: number | string; // Neurofinder info.json key
   rateHz?: number;
   fps?: number;
   frequency?: number;
@@ -25,6 +26,15 @@ export interface DatasetMetadata {
   [key: string]: any; // Allow other metadata fields
 }
 
+/**
+ * Parse a sampling rate from metadata, which may store it as a number or a string
+ * Returns undefined for missing or non-positive values
+ */
+export function parseFrameRate(value: unknown): number | undefined {
+  const rate = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof rate === 'number' && Number.isFinite(rate) && rate > 0 ? rate : undefined;
+}
+
 /**
  * Merge metadata from ZIP file with hardcoded dataset info
  * Metadata from ZIP takes precedence over hardcoded values
@@ -52,7 +62,11 @@ export function mergeDatasetMetadata(
     indicator: metadata.indicator || metadata.fluorophore || datasetInfo.indicator,
     
     // Technical info
-    rateHz: metadata.rateHz || metadata.fps || metadata.frequency || datasetInfo.rateHz,
+    rateHz: parseFrameRate(metadata['rate-hz'])
+      ?? parseFrameRate(metadata.rateHz)
+      ?? parseFrameRate(metadata.fps)
+      ?? parseFrameRate(metadata.frequency)
+      ?? datasetInfo.rateHz,
     frameCount: metadata.frameCount || datasetInfo.frameCount,
     dimensions: metadata.dimensions || datasetInfo.dimensions,
   };
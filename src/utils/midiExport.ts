@@ -0,0 +1,230 @@
+/**
+ * Standard MIDI File export for the musical sonification
+ *
+ * Writes a format 1 file with a conductor track (tempo) followed by one track
+ * per cluster. Each cluster track uses the General MIDI program matching the
+ * instrument assigned to (or chosen in the mixer for) that cluster, so the
+ * piece opens in a DAW with the same voices it plays with in the browser.
+ */
+
+import { CalciumDataset } from '../types';
+import { Cluster } from './clustering';
+import { performPCA } from './pca';
+import { scoreFromDataset } from './scoreEngine';
+import { Tonality } from './tonality';
+import { assignInstrumentToCluster, InstrumentType } from './instruments';
+import { channelGain, getChannel, MixerSettings, resolveInstrument } from './mixer';
+
+export interface MidiExportOptions {
+  tempo: number;
+  startFrame?: number; // Inclusive, 0-based
+  endFrame?: number; // Exclusive
+  ppq?: number; // Ticks per quarter note
+  mixer?: MixerSettings; // Muted channels are left out; fader and pan become CC7/CC10
+  tonality?: Tonality; // Key, mode and progression used for the score
+}
+
+/**
+ * General MIDI program numbers (0-based) for each instrument type
+ */
+export const GM_PROGRAMS: Record<InstrumentType, number> = {
+  piano: 0, // Acoustic Grand Piano
+  bass: 33, // Electric Bass (finger)
+  strings: 48, // String Ensemble 1
+  flute: 73, // Flute
+  guitar: 24, // Acoustic Guitar (nylon)
+  bell: 14, // Tubular Bells
+  drum: 118, // Synth Drum (kept melodic so pitches survive)
+  trumpet: 56 // Trumpet
+};
+
+interface MidiNote {
+  tick: number;
+  duration: number;
+  pitch: number;
+  velocity: number;
+}
+
+interface MidiEvent {
+  tick: number;
+  order: number; // Note-offs sort before note-ons at the same tick
+  data: number[];
+}
+
+/**
+ * Encode a number as a MIDI variable-length quantity
+ */
+function encodeVariableLength(value: number): number[] {
+  let buffer = value & 0x7f;
+  const bytes: number[] = [];
+  while ((value >>= 7) > 0) {
+    buffer <<= 8;
+    buffer |= (value & 0x7f) | 0x80;
+  }
+  for (;;) {
+    bytes.push(buffer & 0xff);
+    if (buffer & 0x80) {
+      buffer >>= 8;
+    } else {
+      break;
+    }
+  }
+  return bytes;
+}
+
+function encodeText(text: string): number[] {
+  return Array.from(text).map(char => char.charCodeAt(0) & 0x7f);
+}
+
+function metaEvent(type: number, data: number[]): number[] {
+  return [0xff, type, ...encodeVariableLength(data.length), ...data];
+}
+
+/**
+ * Serialize events into an MTrk chunk, converting absolute ticks to deltas
+ */
+function buildTrackChunk(events: MidiEvent[]): number[] {
+  const sorted = [...events].sort((a, b) => a.tick - b.tick || a.order - b.order);
+  const body: number[] = [];
+  let lastTick = 0;
+
+  sorted.forEach(event => {
+    body.push(...encodeVariableLength(event.tick - lastTick), ...event.data);
+    lastTick = event.tick;
+  });
+  body.push(...encodeVariableLength(0), ...metaEvent(0x2f, [])); // End of track
+
+  return [
+    ...encodeText('MTrk'),
+    (body.length >>> 24) & 0xff,
+    (body.length >>> 16) & 0xff,
+    (body.length >>> 8) & 0xff,
+    body.length & 0xff,
+    ...body
+  ];
+}
+
+/**
+ * Convert a frequency in Hz to the nearest MIDI note number
+ * Microtonal pitches round to the nearest semitone
+ */
+export function frequencyToMidi(frequency: number): number {
+  return Math.max(0, Math.min(127, Math.round(69 + 12 * Math.log2(frequency / 440))));
+}
+
+/**
+ * MIDI channel for a cluster track, skipping channel 10 (percussion)
+ */
+function channelForCluster(clusterIdx: number): number {
+  const channel = clusterIdx % 15;
+  return channel >= 9 ? channel + 1 : channel;
+}
+
+/**
+ * Build a Standard MIDI File from the notes the musical sonification would play
+ * Returns an audio/midi Blob ready to download
+ */
+export function createMidiFile(
+  dataset: CalciumDataset,
+  clusters: Cluster[],
+  pcaResult: ReturnType<typeof performPCA> | null,
+  options: MidiExportOptions
+): Blob {
+  const ppq = options.ppq ?? 480;
+  const tempo = options.tempo;
+  const mixer = options.mixer ?? [];
+  const score = scoreFromDataset(dataset, clusters, pcaResult, {
+    tempo,
+    startFrame: options.startFrame,
+    endFrame: options.endFrame,
+    tonality: options.tonality
+  });
+  const secondsToTicks = (seconds: number) => Math.round((seconds * tempo * ppq) / 60);
+  const durationTicks = { '8n': ppq / 2, '16n': ppq / 4 };
+
+  // Velocities follow cluster activity, scaled to each cluster's own dynamic range
+  const maxActivity = score.activity.map(values =>
+    values.reduce<number>((max, v) => (v !== null && v > max ? v : max), 0)
+  );
+  const clusterNotes: MidiNote[][] = clusters.map(() => []);
+  score.notes.forEach(note => {
+    const activity = score.activity[note.clusterIdx][note.frame - score.startFrame] || 0;
+    const normalized = maxActivity[note.clusterIdx] > 0 ? activity / maxActivity[note.clusterIdx] : 0;
+    clusterNotes[note.clusterIdx].push({
+      tick: secondsToTicks(note.time),
+      duration: durationTicks[note.duration],
+      pitch: frequencyToMidi(note.frequency),
+      velocity: Math.max(1, Math.min(127, Math.round(32 + normalized * 95)))
+    });
+  });
+
+  // Conductor track: tempo and time signature
+  const microsecondsPerQuarter = Math.round(60000000 / tempo);
+  const conductorEvents: MidiEvent[] = [
+    { tick: 0, order: 0, data: metaEvent(0x03, encodeText(dataset.datasetName || 'BioBeats')) },
+    {
+      tick: 0,
+      order: 0,
+      data: metaEvent(0x51, [
+        (microsecondsPerQuarter >> 16) & 0xff,
+        (microsecondsPerQuarter >> 8) & 0xff,
+        microsecondsPerQuarter & 0xff
+      ])
+    },
+    { tick: 0, order: 0, data: metaEvent(0x58, [4, 2, 24, 8]) } // 4/4
+  ];
+
+  const tracks = [buildTrackChunk(conductorEvents)];
+
+  clusters.forEach((cluster, clusterIdx) => {
+    const instrumentType = resolveInstrument(mixer, clusterIdx, assignInstrumentToCluster(cluster, clusterIdx, dataset, pcaResult));
+    const channel = channelForCluster(clusterIdx);
+    const mix = getChannel(mixer, clusterIdx);
+    const events: MidiEvent[] = [
+      { tick: 0, order: 0, data: metaEvent(0x03, encodeText(`Cluster ${cluster.id} (${instrumentType})`)) },
+      { tick: 0, order: 0, data: [0xc0 | channel, GM_PROGRAMS[instrumentType]] },
+      { tick: 0, order: 0, data: [0xb0 | channel, 7, Math.min(127, Math.round(mix.volume * 100))] }, // Channel volume
+      { tick: 0, order: 0, data: [0xb0 | channel, 10, Math.round(64 + mix.pan * 63)] } // Pan
+    ];
+
+    // Muted (or not soloed) clusters keep an empty track so channel layout stays stable
+    const notes = channelGain(mixer, clusterIdx) > 0
+      ? [...clusterNotes[clusterIdx]].sort((a, b) => a.tick - b.tick)
+      : [];
+
+    // End a sounding note early if the same pitch is retriggered before it finishes
+    const soundingUntil = new Map<number, { end: number; event: MidiEvent }>();
+
+    notes.forEach(note => {
+      const sounding = soundingUntil.get(note.pitch);
+      if (sounding && sounding.end > note.tick) {
+        sounding.event.tick = note.tick;
+      }
+
+      const noteOff: MidiEvent = { tick: note.tick + note.duration, order: 1, data: [0x80 | channel, note.pitch, 0] };
+      events.push({ tick: note.tick, order: 2, data: [0x90 | channel, note.pitch, note.velocity] });
+      events.push(noteOff);
+      soundingUntil.set(note.pitch, { end: noteOff.tick, event: noteOff });
+    });
+
+    tracks.push(buildTrackChunk(events));
+  });
+
+  const header = [
+    ...encodeText('MThd'),
+    0, 0, 0, 6,
+    0, 1, // Format 1
+    (tracks.length >> 8) & 0xff, tracks.length & 0xff,
+    (ppq >> 8) & 0xff, ppq & 0xff
+  ];
+
+  const bytes = new Uint8Array(header.length + tracks.reduce((sum, t) => sum + t.length, 0));
+  bytes.set(header, 0);
+  let offset = header.length;
+  tracks.forEach(track => {
+    bytes.set(track, offset);
+    offset += track.length;
+  });
+
+  return new Blob([bytes], { type: 'audio/midi' });
+}
@@ -0,0 +1,128 @@
+/**
+ * Per-cluster mixer settings for the musical sonification
+ *
+ * One channel per cluster position: fader, pan, mute/solo, an optional
+ * instrument override and reverb/delay send levels (null keeps the
+ * instrument's own setting). Settings are saved in localStorage per dataset,
+ * and live playback and the audio/MIDI exporters resolve them the same way.
+ */
+
+import { CalciumDataset } from '../types';
+import type { InstrumentEffectSettings, InstrumentType } from './instruments';
+
+export interface ChannelSettings {
+  volume: number; // Linear fader gain, 1 = unity
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+  instrument: InstrumentType | null; // null: assigned from the cluster's activity
+  reverbSend: number | null; // Reverb wet 0-1, null: instrument default
+  delaySend: number | null; // Delay wet 0-1, null: instrument default
+}
+
+export type MixerSettings = ChannelSettings[]; // Indexed by cluster position
+
+export const DEFAULT_CHANNEL: ChannelSettings = {
+  volume: 1,
+  pan: 0,
+  mute: false,
+  solo: false,
+  instrument: null,
+  reverbSend: null,
+  delaySend: null
+};
+
+export const MAX_CHANNEL_VOLUME = 1.25;
+
+export const INSTRUMENT_TYPES: InstrumentType[] = ['piano', 'bass', 'strings', 'flute', 'guitar', 'bell', 'drum', 'trumpet'];
+
+// Delay used when a send is raised on an instrument that has none of its own
+const DEFAULT_DELAY = { delayTime: '8n', feedback: 0.2, wet: 0 };
+
+const STORAGE_PREFIX = 'biobeats.mixer.';
+
+export function getChannel(mixer: MixerSettings, clusterIdx: number): ChannelSettings {
+  return mixer[clusterIdx] ?? DEFAULT_CHANNEL;
+}
+
+/**
+ * Effective channel gain: zero when muted, or when another channel is soloed
+ */
+export function channelGain(mixer: MixerSettings, clusterIdx: number): number {
+  const channel = getChannel(mixer, clusterIdx);
+  const anySolo = mixer.some(c => c?.solo);
+  const audible = anySolo ? channel.solo : !channel.mute;
+  return audible ? channel.volume : 0;
+}
+
+export function resolveInstrument(mixer: MixerSettings, clusterIdx: number, assigned: InstrumentType): InstrumentType {
+  return getChannel(mixer, clusterIdx).instrument ?? assigned;
+}
+
+/**
+ * Instrument effect settings with the channel's send levels applied
+ * Always includes a delay so its send can be raised live
+ */
+export function resolveChannelEffects(
+  channel: ChannelSettings,
+  defaults: InstrumentEffectSettings
+): Required<InstrumentEffectSettings> {
+  const delay = defaults.delay ?? DEFAULT_DELAY;
+  return {
+    reverbDecay: defaults.reverbDecay,
+    reverbWet: channel.reverbSend ?? defaults.reverbWet,
+    delay: { ...delay, wet: channel.delaySend ?? delay.wet }
+  };
+}
+
+/**
+ * Copy of the mixer with one channel changed, padding missing channels with defaults
+ */
+export function updateChannel(mixer: MixerSettings, clusterIdx: number, patch: Partial<ChannelSettings>): MixerSettings {
+  const next = Array.from({ length: Math.max(mixer.length, clusterIdx + 1) }, (_, i) => getChannel(mixer, i));
+  next[clusterIdx] = { ...next[clusterIdx], ...patch };
+  return next;
+}
+
+export function mixerStorageKey(dataset: CalciumDataset): string {
+  return STORAGE_PREFIX + (dataset.datasetId ?? dataset.datasetName ?? 'untitled');
+}
+
+/**
+ * Saved mixer for a dataset; unknown or malformed fields fall back to defaults
+ */
+export function loadMixer(key: string): MixerSettings {
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [];
+    const parsed: unknown = JSON.parse(stored);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.map(channel => {
+      const c = (channel ?? {}) as Partial<ChannelSettings>;
+      return {
+        volume: typeof c.volume === 'number' ? Math.max(0, Math.min(MAX_CHANNEL_VOLUME, c.volume)) : DEFAULT_CHANNEL.volume,
+        pan: typeof c.pan === 'number' ? Math.max(-1, Math.min(1, c.pan)) : DEFAULT_CHANNEL.pan,
+        mute: c.mute === true,
+        solo: c.solo === true,
+        instrument: c.instrument && INSTRUMENT_TYPES.includes(c.instrument) ? c.instrument : null,
+        reverbSend: typeof c.reverbSend === 'number' ? c.reverbSend : null,
+        delaySend: typeof c.delaySend === 'number' ? c.delaySend : null
+      };
+    });
+  } catch (error) {
+    console.warn('Could not read saved mixer settings:', error);
+    return [];
+  }
+}
+
+export function saveMixer(key: string, mixer: MixerSettings): void {
+  try {
+    if (mixer.length === 0) {
+      localStorage.removeItem(key);
+    } else {
+      localStorage.setItem(key, JSON.stringify(mixer));
+    }
+  } catch (error) {
+    console.warn('Could not save mixer settings:', error);
+  }
+}
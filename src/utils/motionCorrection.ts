@@ -0,0 +1,372 @@
+/**
+ * Motion correction by phase correlation
+ *
+ * Each frame is registered to a reference image (the motion-corrected mean
+ * of the first frames) before traces are extracted, so ROIs keep sampling
+ * the same cells when the brain moves.
+ * - rigid: one (dx, dy) shift per frame, with sub-pixel peak interpolation
+ * - piecewise: after the rigid shift, each block of the field of view gets
+ *   its own residual shift; per-pixel shifts are interpolated between block
+ *   centres so non-uniform warping (e.g. from breathing) is corrected too
+ */
+
+import { TIFFFrame, TIFFPixelData } from './tiffLoader';
+import { FrameSource, frameSourceFromArray } from './frameSource';
+import { fft2d, nextPowerOfTwo } from './fft';
+
+export type MotionCorrectionMode = 'off' | 'rigid' | 'piecewise';
+
+export interface MotionCorrectionOptions {
+  mode: MotionCorrectionMode;
+  maxShift: number; // Largest rigid shift searched, in pixels
+  blockSize: number; // Edge of the piecewise-rigid blocks, in pixels
+}
+
+export const DEFAULT_MOTION_CORRECTION: MotionCorrectionOptions = {
+  mode: 'off',
+  maxShift: 15,
+  blockSize: 128
+};
+
+export interface MotionCorrectionResult extends MotionCorrectionOptions {
+  shifts: Array<[number, number]>; // Rigid (dx, dy) per frame: content moved by this much vs. the reference
+  blockGrid?: [number, number]; // Blocks across and down (piecewise only)
+  blockShifts?: Array<Array<[number, number]>>; // Total (dx, dy) per block per frame (piecewise only)
+}
+
+// Frames averaged into the reference image
+const REFERENCE_FRAMES = 100;
+// Gaussian smoothing of the cross-power spectrum, in pixels; suppresses shot-noise peaks
+const SMOOTH_SIGMA = 1.15;
+
+interface Spectrum {
+  re: Float64Array;
+  im: Float64Array;
+}
+
+/**
+ * Phase correlation of image regions against one reference region
+ * All regions share the padded FFT size and a border taper
+ */
+function createCorrelator(regionWidth: number, regionHeight: number, taperWidth: number) {
+  const fftWidth = nextPowerOfTwo(regionWidth);
+  const fftHeight = nextPowerOfTwo(regionHeight);
+
+  // Cosine taper towards the region edges so the borders don't correlate at zero shift
+  const taper = (i: number, n: number) => {
+    const d = Math.min(i, n - 1 - i);
+    return d >= taperWidth ? 1 : 0.5 - 0.5 * Math.cos((Math.PI * (d + 0.5)) / taperWidth);
+  };
+  const taperX = Float64Array.from({ length: regionWidth }, (_, x) => taper(x, regionWidth));
+  const taperY = Float64Array.from({ length: regionHeight }, (_, y) => taper(y, regionHeight));
+
+  const smoothing = new Float64Array(fftWidth * fftHeight);
+  for (let v = 0; v < fftHeight; v++) {
+    const fy = (v <= fftHeight / 2 ? v : v - fftHeight) / fftHeight;
+    for (let u = 0; u < fftWidth; u++) {
+      const fx = (u <= fftWidth / 2 ? u : u - fftWidth) / fftWidth;
+      smoothing[v * fftWidth + u] = Math.exp(-2 * Math.PI * Math.PI * SMOOTH_SIGMA * SMOOTH_SIGMA * (fx * fx + fy * fy));
+    }
+  }
+
+  /**
+   * Spectrum of a region; `read(x, y)` returns the region's pixel at local (x, y)
+   */
+  const spectrum = (read: (x: number, y: number) => number): Spectrum => {
+    let mean = 0;
+    for (let y = 0; y < regionHeight; y++) {
+      for (let x = 0; x < regionWidth; x++) mean += read(x, y);
+    }
+    mean /= regionWidth * regionHeight;
+
+    const re = new Float64Array(fftWidth * fftHeight);
+    const im = new Float64Array(fftWidth * fftHeight);
+    for (let y = 0; y < regionHeight; y++) {
+      for (let x = 0; x < regionWidth; x++) {
+        re[y * fftWidth + x] = (read(x, y) - mean) * taperX[x] * taperY[y];
+      }
+    }
+    fft2d(re, im, fftWidth, fftHeight);
+    return { re, im };
+  };
+
+  /**
+   * Displacement of the region's content relative to the reference, within ±maxShift
+   */
+  const correlate = (image: Spectrum, reference: Spectrum, maxShift: number): [number, number] => {
+    const re = new Float64Array(fftWidth * fftHeight);
+    const im = new Float64Array(fftWidth * fftHeight);
+    for (let i = 0; i < re.length; i++) {
+      // image · conj(reference), normalized to unit magnitude
+      const cRe = image.re[i] * reference.re[i] + image.im[i] * reference.im[i];
+      const cIm = image.im[i] * reference.re[i] - image.re[i] * reference.im[i];
+      const magnitude = Math.hypot(cRe, cIm) || 1;
+      re[i] = (cRe / magnitude) * smoothing[i];
+      im[i] = (cIm / magnitude) * smoothing[i];
+    }
+    fft2d(re, im, fftWidth, fftHeight, true);
+
+    const at = (dx: number, dy: number) =>
+      re[((dy + fftHeight) % fftHeight) * fftWidth + ((dx + fftWidth) % fftWidth)];
+
+    const limitX = Math.min(maxShift, Math.floor(fftWidth / 2) - 1);
+    const limitY = Math.min(maxShift, Math.floor(fftHeight / 2) - 1);
+    let best = -Infinity;
+    let peakX = 0;
+    let peakY = 0;
+    for (let dy = -limitY; dy <= limitY; dy++) {
+      for (let dx = -limitX; dx <= limitX; dx++) {
+        const value = at(dx, dy);
+        if (value > best) {
+          best = value;
+          peakX = dx;
+          peakY = dy;
+        }
+      }
+    }
+
+    // Sub-pixel refinement: vertex of a parabola through the peak and its neighbours
+    const vertex = (minus: number, peak: number, plus: number) => {
+      const denominator = minus - 2 * peak + plus;
+      return denominator < 0 ? Math.max(-0.5, Math.min(0.5, (minus - plus) / (2 * denominator))) : 0;
+    };
+    return [
+      peakX + vertex(at(peakX - 1, peakY), best, at(peakX + 1, peakY)),
+      peakY + vertex(at(peakX, peakY - 1), best, at(peakX, peakY + 1))
+    ];
+  };
+
+  return { spectrum, correlate };
+}
+
+/**
+ * Bilinear sample of a row-major image, clamped at the edges
+ */
+function sample(data: ArrayLike<number>, width: number, height: number, x: number, y: number): number {
+  const cx = Math.max(0, Math.min(width - 1, x));
+  const cy = Math.max(0, Math.min(height - 1, y));
+  const x0 = Math.floor(cx);
+  const y0 = Math.floor(cy);
+  const x1 = Math.min(width - 1, x0 + 1);
+  const y1 = Math.min(height - 1, y0 + 1);
+  const fx = cx - x0;
+  const fy = cy - y0;
+  const top = data[y0 * width + x0] * (1 - fx) + data[y0 * width + x1] * fx;
+  const bottom = data[y1 * width + x0] * (1 - fx) + data[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+function createPixelData(like: TIFFPixelData, length: number): TIFFPixelData {
+  return new (like.constructor as new (length: number) => TIFFPixelData)(length);
+}
+
+/**
+ * Piecewise-rigid block layout; blocks tile the field of view and edge
+ * blocks are shifted inward to keep full size. Rigid mode has no blocks.
+ */
+function createBlockGrid(width: number, height: number, options: MotionCorrectionOptions) {
+  const piecewise = options.mode === 'piecewise';
+  const blockSize = Math.max(16, Math.min(Math.round(options.blockSize), width, height));
+  const blocksX = piecewise ? Math.max(1, Math.round(width / blockSize)) : 1;
+  const blocksY = piecewise ? Math.max(1, Math.round(height / blockSize)) : 1;
+  const blockOrigin = (index: number, count: number, extent: number) =>
+    count === 1 ? Math.round((extent - blockSize) / 2) : Math.round((index * (extent - blockSize)) / (count - 1));
+  const blocks = piecewise
+    ? Array.from({ length: blocksX * blocksY }, (_, b) => ({
+        x: blockOrigin(b % blocksX, blocksX, width),
+        y: blockOrigin(Math.floor(b / blocksX), blocksY, height)
+      }))
+    : [];
+  const centresX = Array.from({ length: blocksX }, (_, i) => blockOrigin(i, blocksX, width) + blockSize / 2);
+  const centresY = Array.from({ length: blocksY }, (_, i) => blockOrigin(i, blocksY, height) + blockSize / 2);
+
+  // Fractional position in the (evenly spaced) grid of block centres
+  const gridPosition = (value: number, centres: number[]) => centres.length === 1
+    ? 0
+    : Math.max(0, Math.min(centres.length - 1,
+        ((value - centres[0]) / (centres[centres.length - 1] - centres[0])) * (centres.length - 1)));
+
+  /**
+   * Shift at a pixel: bilinear interpolation between block centres, clamped beyond them
+   */
+  const shiftAt = (blockShifts: Array<[number, number]>, x: number, y: number): [number, number] => {
+    const gx = gridPosition(x, centresX);
+    const gy = gridPosition(y, centresY);
+    const x0 = Math.floor(gx);
+    const y0 = Math.floor(gy);
+    const x1 = Math.min(blocksX - 1, x0 + 1);
+    const y1 = Math.min(blocksY - 1, y0 + 1);
+    const fx = gx - x0;
+    const fy = gy - y0;
+    const at = (bx: number, by: number) => blockShifts[by * blocksX + bx];
+    return [0, 1].map(axis =>
+      (at(x0, y0)[axis] * (1 - fx) + at(x1, y0)[axis] * fx) * (1 - fy)
+      + (at(x0, y1)[axis] * (1 - fx) + at(x1, y1)[axis] * fx) * fy
+    ) as [number, number];
+  };
+
+  return { width, height, blockSize, blocks, blocksX, blocksY, shiftAt };
+}
+
+type BlockGrid = ReturnType<typeof createBlockGrid>;
+
+/**
+ * Corrected copy of a frame: output(x, y) = frame(x + dx, y + dy)
+ */
+function shiftFrame(frame: TIFFFrame, grid: BlockGrid, shift: [number, number], blockShifts?: Array<[number, number]>): TIFFFrame {
+  const { width, height } = grid;
+  const isInteger = !(frame.data instanceof Float32Array || frame.data instanceof Float64Array);
+  const data = createPixelData(frame.data, width * height);
+
+  // Block shifts vary slowly, so interpolate them once per 8×8 tile
+  const tile = 8;
+  for (let ty = 0; ty < height; ty += tile) {
+    for (let tx = 0; tx < width; tx += tile) {
+      const [dx, dy] = blockShifts ? grid.shiftAt(blockShifts, tx + tile / 2, ty + tile / 2) : shift;
+      for (let y = ty; y < Math.min(height, ty + tile); y++) {
+        for (let x = tx; x < Math.min(width, tx + tile); x++) {
+          const value = sample(frame.data, width, height, x + dx, y + dy);
+          data[y * width + x] = isInteger ? Math.round(value) : value;
+        }
+      }
+    }
+  }
+
+  return { ...frame, data };
+}
+
+/**
+ * Registration of frames against a fixed reference image
+ */
+function createRegistration(reference: Float32Array, width: number, height: number, options: MotionCorrectionOptions) {
+  const maxShift = Math.max(1, Math.round(options.maxShift));
+  const rigid = createCorrelator(width, height, Math.max(8, maxShift));
+  const referenceSpectrum = rigid.spectrum((x, y) => reference[y * width + x]);
+
+  const grid = createBlockGrid(width, height, options);
+  const { blocks, blockSize } = grid;
+  const blockMaxShift = Math.max(2, Math.round(blockSize / 8));
+  const blockCorrelator = blocks.length > 0 ? createCorrelator(blockSize, blockSize, Math.max(4, blockMaxShift)) : null;
+  const blockReferences = blocks.map(block =>
+    blockCorrelator!.spectrum((x, y) => reference[(block.y + y) * width + block.x + x])
+  );
+
+  const register = (data: ArrayLike<number>): { shift: [number, number]; blockShifts?: Array<[number, number]> } => {
+    const shift = rigid.correlate(rigid.spectrum((x, y) => data[y * width + x]), referenceSpectrum, maxShift);
+    if (!blockCorrelator) return { shift };
+
+    // Residual per block, measured on the frame after the whole-pixel rigid shift
+    const [rx, ry] = [Math.round(shift[0]), Math.round(shift[1])];
+    const blockShifts = blocks.map((block, b): [number, number] => {
+      const read = (x: number, y: number) => {
+        const sx = Math.max(0, Math.min(width - 1, block.x + x + rx));
+        const sy = Math.max(0, Math.min(height - 1, block.y + y + ry));
+        return data[sy * width + sx];
+      };
+      const [bx, by] = blockCorrelator.correlate(blockCorrelator.spectrum(read), blockReferences[b], blockMaxShift);
+      return [rx + bx, ry + by];
+    });
+    return { shift, blockShifts };
+  };
+
+  const apply = (frame: TIFFFrame, shift: [number, number], blockShifts?: Array<[number, number]>) =>
+    shiftFrame(frame, grid, shift, blockShifts);
+
+  return { register, apply, blockGrid: [grid.blocksX, grid.blocksY] as [number, number] };
+}
+
+/**
+ * Reference image: mean of the first frames, registered to that mean and averaged again
+ */
+async function buildReference(source: FrameSource, options: MotionCorrectionOptions, signal?: AbortSignal): Promise<Float32Array> {
+  const { width, height } = source;
+  const frames: TIFFFrame[] = [];
+  for await (const frame of source.frames(signal)) {
+    frames.push(frame);
+    if (frames.length >= REFERENCE_FRAMES) break;
+  }
+
+  const mean = new Float32Array(width * height);
+  frames.forEach(frame => frame.data.forEach((value, i) => { mean[i] += value / frames.length; }));
+
+  const registration = createRegistration(mean, width, height, { ...options, mode: 'rigid' });
+  const refined = new Float32Array(width * height);
+  frames.forEach(frame => {
+    const corrected = registration.apply(frame, registration.register(frame.data).shift);
+    corrected.data.forEach((value, i) => { refined[i] += value / frames.length; });
+  });
+  return refined;
+}
+
+/**
+ * Wrap a frame source so every frame it yields is registered to a common reference
+ *
+ * In-memory sources are corrected up front (so frameImages are stabilized too).
+ * Streamed sources are corrected as frames pass through; shifts are measured
+ * on the first pass and reused by later ones. The returned result's shifts are
+ * complete once the source has been read to the end.
+ */
+export async function motionCorrectSource(
+  source: FrameSource,
+  options: MotionCorrectionOptions,
+  signal?: AbortSignal,
+  onProgress?: (progress: number, message: string) => void
+): Promise<{ source: FrameSource; result: MotionCorrectionResult }> {
+  const { width, height, frameCount } = source;
+  onProgress?.(0, 'Building motion correction reference...');
+  const registration = createRegistration(await buildReference(source, options, signal), width, height, options);
+
+  const result: MotionCorrectionResult = {
+    ...options,
+    shifts: new Array(frameCount),
+    ...(options.mode === 'piecewise' ? { blockGrid: registration.blockGrid, blockShifts: new Array(frameCount) } : {})
+  };
+
+  const correct = (frame: TIFFFrame, t: number): TIFFFrame => {
+    if (!result.shifts[t]) {
+      const { shift, blockShifts } = registration.register(frame.data);
+      result.shifts[t] = shift;
+      if (result.blockShifts && blockShifts) result.blockShifts[t] = blockShifts;
+    }
+    return registration.apply(frame, result.shifts[t], result.blockShifts?.[t]);
+  };
+
+  if (source.decodedFrames) {
+    const reportEvery = Math.max(1, Math.floor(frameCount / 100));
+    const corrected = source.decodedFrames.map((frame, t) => {
+      if ((t + 1) % reportEvery === 0) {
+        signal?.throwIfAborted();
+        onProgress?.(((t + 1) / frameCount) * 100, `Correcting motion (frame ${t + 1}/${frameCount})...`);
+      }
+      return correct(frame, t);
+    });
+    return { source: frameSourceFromArray(corrected), result };
+  }
+
+  return {
+    source: {
+      width,
+      height,
+      frameCount,
+      async *frames(passSignal?: AbortSignal) {
+        let t = 0;
+        for await (const frame of source.frames(passSignal)) {
+          yield correct(frame, t++);
+        }
+      }
+    },
+    result
+  };
+}
+
+/**
+ * Re-apply stored shifts to raw frames (e.g. frames restored from the cache)
+ */
+export function applyMotionCorrection(frames: TIFFFrame[], result: MotionCorrectionResult): TIFFFrame[] {
+  if (frames.length === 0 || result.mode === 'off') return frames;
+  const grid = createBlockGrid(frames[0].width, frames[0].height, result);
+  return frames.map((frame, t) => result.shifts[t]
+    ? shiftFrame(frame, grid, result.shifts[t], result.blockShifts?.[t])
+    : frame
+  );
+}
@@ -4,7 +4,7 @@
  * Fetches datasets from Neurofinder S3 bucket or local proxy
  */
 
-import { TIFFFrame, loadTIFFFile } from './tiffLoader';
+import { TIFFFrame, loadTIFFFile, DECODE_BATCH_SIZE } from './tiffLoader';
 
 export interface DatasetMetadata {
   lab?: string;
@@ -49,7 +49,8 @@ const PROXY_BASE_URL = '/api/neurofinder'; // For local dev proxy server
  */
 export async function fetchDatasetViaProxy(
   datasetId: string,
-  onProgress?: (progress: number, message: string) => void
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
 ): Promise<{ frames: TIFFFrame[]; regions?: any; metadata?: DatasetMetadata }> {
   onProgress?.(0, 'Checking dataset status...');
 
@@ -98,6 +99,7 @@ export async function fetchDatasetViaProxy(
     const maxAttempts = 600; // 5 minutes max (600 * 0.5s = 300s)
     
     while (!ready && attempts < maxAttempts) {
+      signal?.throwIfAborted();
       await new Promise(resolve => setTimeout(resolve, 500)); // Wait 500ms between checks
       
       const statusResponse = await fetch(`${PROXY_BASE_URL}/${datasetId}/status`);
@@ -152,6 +154,7 @@ export async function fetchDatasetViaProxy(
         if (useServerSideProcessing) {
           // Use server-side processing (avoids geotiff browser issues)
           for (let i = 0; i < maxFramesToLoad; i += batchSize) {
+            signal?.throwIfAborted();
             const batch = [];
             for (let j = 0; j < batchSize && (i + j) < maxFramesToLoad; j++) {
               const frameNum = i + j;
@@ -199,6 +202,7 @@ export async function fetchDatasetViaProxy(
           ];
           
           for (let i = 0; i < maxFramesToLoad; i += batchSize) {
+            signal?.throwIfAborted();
             const batch = [];
             for (let j = 0; j < batchSize && (i + j) < maxFramesToLoad; j++) {
               const frameNum = i + j;
@@ -214,7 +218,7 @@ export async function fetchDatasetViaProxy(
                   .then(blob => {
                     if (!blob) return null;
                     const file = new File([blob], filename, { type: 'image/tiff' });
-                    return loadTIFFFile(file);
+                    return loadTIFFFile(file, signal);
                   })
                   .catch((err) => {
                     console.warn(`Failed to load frame ${frameNum} with pattern:`, err);
@@ -390,7 +394,8 @@ async function getDatasetInfo(datasetId: string): Promise<{ frameCount: number;
  */
 export async function fetchDatasetFromS3(
   datasetId: string,
-  onProgress?: (progress: number, message: string) => void
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
 ): Promise<{ frames: TIFFFrame[]; regions?: any; metadata?: DatasetMetadata }> {
   onProgress?.(0, 'Downloading dataset ZIP from S3...');
   
@@ -409,16 +414,17 @@ export async function fetchDatasetFromS3(
     let zipBlob: Blob;
     try {
       // Try direct S3 access first
-      const response = await fetch(zipUrl, { mode: 'cors' });
+      const response = await fetch(zipUrl, { mode: 'cors', signal });
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
       zipBlob = await response.blob();
     } catch (directError) {
+      if (signal?.aborted) throw directError;
       // Fallback to CORS proxy
       onProgress?.(15, 'Using CORS proxy for download...');
       const proxyUrl = `${CORS_PROXY}${encodeURIComponent(zipUrl)}`;
-      const proxyResponse = await fetch(proxyUrl);
+      const proxyResponse = await fetch(proxyUrl, { signal });
       if (!proxyResponse.ok) {
         throw new Error(`Failed to download ZIP: ${proxyResponse.status}`);
       }
@@ -451,26 +457,34 @@ export async function fetchDatasetFromS3(
     const frames: TIFFFrame[] = [];
     const totalFrames = imageEntries.length;
     
-    for (let i = 0; i < totalFrames; i++) {
-      const progress = 40 + Math.floor((i / totalFrames) * 55);
-      if (i % 50 === 0 || i < 5) {
-        onProgress?.(progress, `Loading frame ${i + 1}/${totalFrames}...`);
-      }
-      
-      try {
-        const { name, entry } = imageEntries[i];
-        const fileBlob = await entry.async('blob');
-        const filename = name.split('/').pop() || `frame_${i}.tif`;
-        const file = new File([fileBlob], filename, { type: 'image/tiff' });
-        const frame = await loadTIFFFile(file);
-        
-        if (frame) {
-          frame.frameIndex = i;
-          frames.push(frame);
-        }
-      } catch (frameError) {
-        console.warn(`Failed to load frame ${i}:`, frameError);
-      }
+    // Decode in parallel batches; the worker pool spreads each batch across cores
+    for (let start = 0; start < totalFrames; start += DECODE_BATCH_SIZE) {
+      signal?.throwIfAborted();
+      const progress = 40 + Math.floor((start / totalFrames) * 55);
+      onProgress?.(progress, `Loading frame ${start + 1}/${totalFrames}...`);
+
+      const batch = await Promise.all(
+        imageEntries.slice(start, start + DECODE_BATCH_SIZE).map(async ({ name, entry }, j) => {
+          const i = start + j;
+          try {
+            const fileBlob = await entry.async('blob');
+            const filename = name.split('/').pop() || `frame_${i}.tif`;
+            const file = new File([fileBlob], filename, { type: 'image/tiff' });
+            const frame = await loadTIFFFile(file, signal);
+            if (frame) {
+              frame.frameIndex = i;
+            }
+            return frame;
+          } catch (frameError) {
+            if (signal?.aborted) throw frameError;
+            console.warn(`Failed to load frame ${i}:`, frameError);
+            return null;
+          }
+        })
+      );
+      batch.forEach(frame => {
+        if (frame) frames.push(frame);
+      });
     }
     
     // Try to find regions.json in ZIP
@@ -526,6 +540,7 @@ export async function fetchDatasetFromS3(
       metadata: metadata // Include metadata if found
     };
   } catch (error) {
+    if (signal?.aborted) throw error;
     throw new Error(`Failed to load dataset from S3: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
@@ -535,17 +550,20 @@ export async function fetchDatasetFromS3(
  */
 export async function fetchDataset(
   datasetId: string,
-  onProgress?: (progress: number, message: string) => void
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
 ): Promise<{ frames: TIFFFrame[]; regions?: any; metadata?: DatasetMetadata }> {
   // Try direct S3 access first (streaming, no download needed)
   try {
-    return await fetchDatasetFromS3(datasetId, onProgress);
+    return await fetchDatasetFromS3(datasetId, onProgress, signal);
   } catch (s3Error) {
+    if (signal?.aborted) throw s3Error;
     console.warn('Direct S3 fetch failed, trying proxy...', s3Error);
     // Fallback to proxy if available (for local dev)
     try {
-      return await fetchDatasetViaProxy(datasetId, onProgress);
+      return await fetchDatasetViaProxy(datasetId, onProgress, signal);
     } catch (proxyError) {
+      if (signal?.aborted) throw proxyError;
       throw new Error(
         `Failed to load dataset. Tried:\n` +
         `1. Direct S3 access (with CORS proxy fallback)\n` +
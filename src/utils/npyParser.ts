@@ -0,0 +1,313 @@
+/**
+ * NumPy .npy reader, including the pickled object arrays Suite2p writes
+ *
+ * Numeric arrays are decoded straight from the header's dtype and shape.
+ * Object arrays (stat.npy, ops.npy) are Python pickles; a small unpickler
+ * handles the opcodes NumPy and plain dicts/lists produce and rebuilds
+ * nested ndarrays and numpy scalars as NpyArray / number values.
+ */
+
+export interface NpyArray {
+  dtype: string; // e.g. '<f4', '<f8', '|b1', '|O'
+  shape: number[];
+  fortranOrder: boolean;
+  data: ArrayLike<number> | unknown[]; // Flat, in file order; unknown[] for object arrays
+}
+
+const MAGIC = '\x93NUMPY';
+
+/**
+ * Decode numeric little/big-endian data of a NumPy dtype string
+ */
+function decodeNumeric(bytes: Uint8Array, dtype: string, count: number): ArrayLike<number> {
+  const littleEndian = dtype[0] !== '>';
+  const kind = dtype[1];
+  const size = parseInt(dtype.slice(2), 10);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const out = new Float64Array(count);
+
+  for (let i = 0; i < count; i++) {
+    const offset = i * size;
+    switch (`${kind}${size}`) {
+      case 'f4': out[i] = view.getFloat32(offset, littleEndian); break;
+      case 'f8': out[i] = view.getFloat64(offset, littleEndian); break;
+      case 'i1': out[i] = view.getInt8(offset); break;
+      case 'u1': out[i] = view.getUint8(offset); break;
+      case 'b1': out[i] = view.getUint8(offset) ? 1 : 0; break;
+      case 'i2': out[i] = view.getInt16(offset, littleEndian); break;
+      case 'u2': out[i] = view.getUint16(offset, littleEndian); break;
+      case 'i4': out[i] = view.getInt32(offset, littleEndian); break;
+      case 'u4': out[i] = view.getUint32(offset, littleEndian); break;
+      case 'i8': out[i] = Number(view.getBigInt64(offset, littleEndian)); break;
+      case 'u8': out[i] = Number(view.getBigUint64(offset, littleEndian)); break;
+      default:
+        throw new Error(`Unsupported .npy dtype: ${dtype}`);
+    }
+  }
+
+  return out;
+}
+
+/**
+ * Parse a .npy file
+ */
+export function parseNpy(buffer: ArrayBuffer): NpyArray {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode(...bytes.slice(0, 6));
+  if (magic !== MAGIC) {
+    throw new Error('Not a .npy file');
+  }
+
+  const major = bytes[6];
+  const view = new DataView(buffer);
+  const headerLength = major === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = major === 1 ? 10 : 12;
+  const header = new TextDecoder('latin1').decode(bytes.slice(headerStart, headerStart + headerLength));
+
+  const descr = header.match(/'descr':\s*'([^']+)'/)?.[1];
+  const fortranOrder = /'fortran_order':\s*True/.test(header);
+  const shapeText = header.match(/'shape':\s*\(([^)]*)\)/)?.[1] ?? '';
+  const shape = shapeText.split(',').map(s => s.trim()).filter(Boolean).map(Number);
+  if (!descr) {
+    throw new Error('Malformed .npy header');
+  }
+
+  const count = shape.reduce((product, n) => product * n, 1);
+  const body = bytes.subarray(headerStart + headerLength);
+
+  if (descr === '|O') {
+    const unpickled = unpickle(body);
+    const data = isNpyArray(unpickled) ? unpickled.data as unknown[] : unpickled as unknown[];
+    return { dtype: descr, shape, fortranOrder, data };
+  }
+
+  return { dtype: descr, shape, fortranOrder, data: decodeNumeric(body, descr, count) };
+}
+
+export function isNpyArray(value: unknown): value is NpyArray {
+  return typeof value === 'object' && value !== null && 'dtype' in value && 'shape' in value && 'data' in value;
+}
+
+/**
+ * Row `i` of a 2-D numeric array as a plain number array
+ */
+export function npyRow(array: NpyArray, i: number): number[] {
+  const [rows, cols] = array.shape;
+  const data = array.data as ArrayLike<number>;
+  const row: number[] = new Array(cols);
+  for (let j = 0; j < cols; j++) {
+    row[j] = array.fortranOrder ? data[j * rows + i] : data[i * cols + j];
+  }
+  return row;
+}
+
+// --- Minimal unpickler -------------------------------------------------------
+
+const MARK = Symbol('mark');
+
+interface PickleGlobal {
+  module: string;
+  name: string;
+}
+
+interface PendingDtype {
+  kind: 'dtype';
+  dtype: string;
+}
+
+interface PendingArray {
+  kind: 'ndarray';
+}
+
+function isGlobal(value: unknown, name: string): boolean {
+  return typeof value === 'object' && value !== null && (value as PickleGlobal).name === name && 'module' in value;
+}
+
+/**
+ * numpy dtype('f8', ...) with the byte order from its BUILD state
+ */
+function dtypeString(base: string, byteOrder: string): string {
+  const match = base.match(/^([a-zA-Z])(\d+)$/);
+  if (!match) return base.length === 2 ? `|${base}` : base;
+  const order = byteOrder === '|' || byteOrder === '=' ? '<' : byteOrder;
+  return `${match[1] === 'b' ? '|' : order}${match[1]}${match[2]}`;
+}
+
+function bytesOf(value: unknown): Uint8Array {
+  if (value instanceof Uint8Array) return value;
+  if (typeof value === 'string') {
+    // Protocol 2 pickles store ndarray bytes as latin-1 unicode strings
+    return Uint8Array.from(value, c => c.charCodeAt(0));
+  }
+  throw new Error('Expected bytes in pickled ndarray');
+}
+
+/**
+ * Unpickle a Python pickle stream into plain JS values
+ * dict -> object, list/tuple -> array, ndarray -> NpyArray, numpy scalar -> number
+ */
+export function unpickle(bytes: Uint8Array): unknown {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder('utf-8');
+  const stack: unknown[] = [];
+  const memo: unknown[] = [];
+  let pos = 0;
+
+  const popMark = (): unknown[] => {
+    const index = stack.lastIndexOf(MARK);
+    const items = stack.splice(index + 1);
+    stack.pop(); // The mark itself
+    return items;
+  };
+
+  const readString = (length: number): string => {
+    const text = decoder.decode(bytes.subarray(pos, pos + length));
+    pos += length;
+    return text;
+  };
+
+  const readBytes = (length: number): Uint8Array => {
+    const slice = bytes.slice(pos, pos + length);
+    pos += length;
+    return slice;
+  };
+
+  const readLine = (): string => {
+    const end = bytes.indexOf(0x0a, pos);
+    const line = new TextDecoder('latin1').decode(bytes.subarray(pos, end));
+    pos = end + 1;
+    return line;
+  };
+
+  const reduce = (callable: unknown, args: unknown[]): unknown => {
+    if (isGlobal(callable, '_reconstruct')) {
+      return { kind: 'ndarray' } as PendingArray;
+    }
+    if (isGlobal(callable, 'dtype')) {
+      return { kind: 'dtype', dtype: String(args[0]) } as PendingDtype;
+    }
+    if (isGlobal(callable, 'scalar')) {
+      const dtype = args[0] as PendingDtype;
+      const raw = bytesOf(args[1]);
+      return decodeNumeric(raw, dtype.dtype, 1)[0];
+    }
+    // Unknown constructors (e.g. OrderedDict) fall back to their first argument
+    return args[0] ?? {};
+  };
+
+  // BUILD mutates in place, like Python, so memoized references see the built object
+  const build = (target: unknown, state: unknown): void => {
+    if (typeof target !== 'object' || target === null) return;
+    const pending = target as { kind?: 'ndarray' | 'dtype'; dtype?: string };
+
+    if (pending.kind === 'ndarray') {
+      const [, shape, dtype, fortranOrder, raw] = state as [number, number[], PendingDtype, boolean, unknown];
+      const count = shape.reduce((product, n) => product * n, 1);
+      const data = dtype.dtype === '|O'
+        ? raw as unknown[]
+        : decodeNumeric(bytesOf(raw), dtype.dtype, count);
+      delete pending.kind;
+      Object.assign(target, { dtype: dtype.dtype, shape, fortranOrder, data } as NpyArray);
+    } else if (pending.kind === 'dtype' && pending.dtype) {
+      const [, byteOrder] = state as [number, string];
+      pending.dtype = pending.dtype === 'O8' || pending.dtype === 'O' ? '|O' : dtypeString(pending.dtype, byteOrder);
+    } else if (typeof state === 'object' && state !== null && !Array.isArray(state)) {
+      Object.assign(target, state);
+    }
+  };
+
+  while (pos < bytes.length) {
+    const opcode = bytes[pos++];
+    switch (opcode) {
+      case 0x80: pos++; break; // PROTO
+      case 0x95: pos += 8; break; // FRAME
+      case 0x2e: return stack.pop(); // STOP
+      case 0x28: stack.push(MARK); break; // MARK
+      case 0x7d: stack.push({}); break; // EMPTY_DICT
+      case 0x5d: stack.push([]); break; // EMPTY_LIST
+      case 0x29: stack.push([]); break; // EMPTY_TUPLE
+      case 0x4e: stack.push(null); break; // NONE
+      case 0x88: stack.push(true); break; // NEWTRUE
+      case 0x89: stack.push(false); break; // NEWFALSE
+      case 0x4b: stack.push(bytes[pos++]); break; // BININT1
+      case 0x4d: stack.push(view.getUint16(pos, true)); pos += 2; break; // BININT2
+      case 0x4a: stack.push(view.getInt32(pos, true)); pos += 4; break; // BININT
+      case 0x47: stack.push(view.getFloat64(pos, false)); pos += 8; break; // BINFLOAT (big-endian)
+      case 0x8a: { // LONG1
+        const length = bytes[pos++];
+        let value = 0;
+        for (let i = length - 1; i >= 0; i--) value = value * 256 + bytes[pos + i];
+        if (length > 0 && bytes[pos + length - 1] & 0x80) value -= Math.pow(256, length);
+        pos += length;
+        stack.push(value);
+        break;
+      }
+      case 0x8c: stack.push(readString(bytes[pos++])); break; // SHORT_BINUNICODE
+      case 0x58: { const n = view.getUint32(pos, true); pos += 4; stack.push(readString(n)); break; } // BINUNICODE
+      case 0x8d: { const n = Number(view.getBigUint64(pos, true)); pos += 8; stack.push(readString(n)); break; } // BINUNICODE8
+      case 0x55: stack.push(new TextDecoder('latin1').decode(readBytes(bytes[pos++]))); break; // SHORT_BINSTRING
+      case 0x54: { const n = view.getUint32(pos, true); pos += 4; stack.push(new TextDecoder('latin1').decode(readBytes(n))); break; } // BINSTRING
+      case 0x43: stack.push(readBytes(bytes[pos++])); break; // SHORT_BINBYTES
+      case 0x42: { const n = view.getUint32(pos, true); pos += 4; stack.push(readBytes(n)); break; } // BINBYTES
+      case 0x8e: { const n = Number(view.getBigUint64(pos, true)); pos += 8; stack.push(readBytes(n)); break; } // BINBYTES8
+      case 0x96: { const n = Number(view.getBigUint64(pos, true)); pos += 8; stack.push(readBytes(n)); break; } // BYTEARRAY8
+      case 0x85: stack.push([stack.pop()]); break; // TUPLE1
+      case 0x86: { const b = stack.pop(); const a = stack.pop(); stack.push([a, b]); break; } // TUPLE2
+      case 0x87: { const c = stack.pop(); const b = stack.pop(); const a = stack.pop(); stack.push([a, b, c]); break; } // TUPLE3
+      case 0x74: stack.push(popMark()); break; // TUPLE
+      case 0x6c: stack.push(popMark()); break; // LIST
+      case 0x61: { const item = stack.pop(); (stack[stack.length - 1] as unknown[]).push(item); break; } // APPEND
+      case 0x65: { const items = popMark(); (stack[stack.length - 1] as unknown[]).push(...items); break; } // APPENDS
+      case 0x73: { // SETITEM
+        const value = stack.pop();
+        const key = stack.pop();
+        (stack[stack.length - 1] as Record<string, unknown>)[String(key)] = value;
+        break;
+      }
+      case 0x75: { // SETITEMS
+        const items = popMark();
+        const dict = stack[stack.length - 1] as Record<string, unknown>;
+        for (let i = 0; i < items.length; i += 2) dict[String(items[i])] = items[i + 1];
+        break;
+      }
+      case 0x63: { // GLOBAL
+        const module = readLine();
+        const name = readLine();
+        stack.push({ module, name } as PickleGlobal);
+        break;
+      }
+      case 0x93: { // STACK_GLOBAL
+        const name = stack.pop() as string;
+        const module = stack.pop() as string;
+        stack.push({ module, name } as PickleGlobal);
+        break;
+      }
+      case 0x52: { // REDUCE
+        const args = stack.pop() as unknown[];
+        const callable = stack.pop();
+        stack.push(reduce(callable, args));
+        break;
+      }
+      case 0x81: { // NEWOBJ
+        const args = stack.pop() as unknown[];
+        const cls = stack.pop();
+        stack.push(reduce(cls, args));
+        break;
+      }
+      case 0x62: { // BUILD
+        const state = stack.pop();
+        build(stack[stack.length - 1], state);
+        break;
+      }
+      case 0x94: memo.push(stack[stack.length - 1]); break; // MEMOIZE
+      case 0x71: memo[bytes[pos++]] = stack[stack.length - 1]; break; // BINPUT
+      case 0x72: memo[view.getUint32(pos, true)] = stack[stack.length - 1]; pos += 4; break; // LONG_BINPUT
+      case 0x68: stack.push(memo[bytes[pos++]]); break; // BINGET
+      case 0x6a: stack.push(memo[view.getUint32(pos, true)]); pos += 4; break; // LONG_BINGET
+      default:
+        throw new Error(`Unsupported pickle opcode 0x${opcode.toString(16)} at byte ${pos - 1}`);
+    }
+  }
+
+  throw new Error('Pickle ended without STOP');
+}
@@ -3,8 +3,6 @@
  * Reduces dimensionality of neuron trace data for clustering
  */
 
-import { seededRandom } from './seededRandom';
-
 /**
  * Compute mean of each feature (column)
  */
@@ -42,7 +40,7 @@ function computeCovariance(centeredData: number[][]): number[][] {
       for (const row of centeredData) {
         sum += row[i] * row[j];
       }
-      cov[i][j] = sum / (n - 1);
+      cov[i][j] = sum / Math.max(1, n - 1);
     }
   }
   
@@ -50,75 +48,86 @@ function computeCovariance(centeredData: number[][]): number[][] {
 }
 
 /**
- * Simple eigenvalue decomposition using power iteration
- * Returns top k eigenvectors
+ * Eigen-decomposition of a symmetric matrix by cyclic Jacobi rotations
+ * Exact to rounding for the small covariance matrices used here (one row per feature)
+ * Returns eigenvalues largest first, with eigenvectors as rows in the same order
  */
-function powerIteration(matrix: number[][], numComponents: number, maxIterations: number = 100): number[][] {
+function jacobiEigen(matrix: number[][], maxSweeps: number = 100): { values: number[]; vectors: number[][] } {
   const n = matrix.length;
-  const eigenvectors: number[][] = [];
-  const eigenvalues: number[] = [];
-  
-  // Find top k eigenvectors
-  for (let k = 0; k < numComponents; k++) {
-    // Start with random vector (deterministic if seeded)
-    let v = Array(n).fill(0).map(() => seededRandom() - 0.5);
-    
-    // Normalize
-    let norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
-    v = v.map(x => x / norm);
-    
-    // Deflate previous eigenvectors
-    for (let prev = 0; prev < k; prev++) {
-      const prevEigenvector = eigenvectors[prev];
-      const dot = v.reduce((sum, x, i) => sum + x * prevEigenvector[i], 0);
-      v = v.map((x, i) => x - dot * prevEigenvector[i]);
-      norm = Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
-      if (norm > 1e-10) {
-        v = v.map(x => x / norm);
+  const a = matrix.map(row => [...row]);
+  const v: number[][] = Array(n).fill(0).map((_, i) => Array(n).fill(0).map((_, j) => (i === j ? 1 : 0)));
+  const scale = a.reduce((sum, row) => sum + row.reduce((rowSum, x) => rowSum + x * x, 0), 0);
+
+  for (let sweep = 0; sweep < maxSweeps; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        offDiagonal += a[p][q] * a[p][q];
       }
     }
-    
-    // Power iteration
-    for (let iter = 0; iter < maxIterations; iter++) {
-      // Multiply by matrix
-      const newV = Array(n).fill(0);
-      for (let i = 0; i < n; i++) {
-        for (let j = 0; j < n; j++) {
-          newV[i] += matrix[i][j] * v[j];
+    if (offDiagonal <= 1e-24 * scale) break;
+
+    for (let p = 0; p < n; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (a[p][q] === 0) continue;
+
+        // Rotation angle that zeroes a[p][q]
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
         }
-      }
-      
-      // Deflate previous eigenvectors
-      for (let prev = 0; prev < k; prev++) {
-        const prevEigenvector = eigenvectors[prev];
-        const dot = newV.reduce((sum, x, i) => sum + x * prevEigenvector[i], 0);
-        for (let i = 0; i < n; i++) {
-          newV[i] -= dot * prevEigenvector[i];
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
         }
-      }
-      
-      // Normalize
-      norm = Math.sqrt(newV.reduce((sum, x) => sum + x * x, 0));
-      if (norm < 1e-10) break;
-      v = newV.map(x => x / norm);
-    }
-    
-    // Compute eigenvalue
-    const Av = Array(n).fill(0);
-    for (let i = 0; i < n; i++) {
-      for (let j = 0; j < n; j++) {
-        Av[i] += matrix[i][j] * v[j];
       }
     }
-    const eigenvalue = Math.sqrt(Av.reduce((sum, x, i) => sum + x * Av[i], 0));
-    
-    eigenvectors.push([...v]);
-    eigenvalues.push(eigenvalue);
   }
-  
-  return eigenvectors;
+
+  const order = a.map((_, i) => i).sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => Math.max(0, a[i][i])), // Covariance is positive semi-definite
+    vectors: order.map(i => {
+      const vector = v.map(row => row[i]);
+      // Fix the sign so the largest entry is positive; results don't flip between runs
+      const largest = vector.reduce((best, x) => (Math.abs(x) > Math.abs(best) ? x : best), 0);
+      return largest < 0 ? vector.map(x => -x) : vector;
+    })
+  };
 }
 
+/**
+ * Names of the columns extractTraceFeatures returns, in order
+ */
+export const PCA_FEATURE_NAMES = [
+  'Mean',
+  'Std',
+  'Max',
+  'Min',
+  'Range',
+  'Trend',
+  'Oscillation',
+  'Peak density',
+  'CV',
+  'X',
+  'Y'
+];
+
 /**
  * Extract features from neuron traces for PCA
  * Features include:
@@ -327,15 +336,17 @@ export function performPCA(
 ): {
   transformed: number[][];
   components: number[][];
-  explainedVariance: number[];
+  explainedVariance: number[]; // Share of total variance per kept component
+  eigenvalues: number[]; // Variance along every component, largest first (scree plot)
+  loadings: number[][]; // [component][feature]: eigenvector scaled by the component's standard deviation
 } {
   if (features.length === 0) {
-    return { transformed: [], components: [], explainedVariance: [] };
+    return { transformed: [], components: [], explainedVariance: [], eigenvalues: [], loadings: [] };
   }
   
   // CRITICAL: Standardize features to prevent scale bias
   // Without this, features with larger variance (like coordinates) would dominate PCA
-  const { standardized, means, stds } = standardizeFeatures(features);
+  const { standardized } = standardizeFeatures(features);
   
   // Center the standardized data (should already be ~0 mean, but ensure it)
   const centered = centerData(standardized, computeMean(standardized));
@@ -343,8 +354,9 @@ export function performPCA(
   // Compute covariance matrix
   const covariance = computeCovariance(centered);
   
-  // Get eigenvectors (principal components)
-  const components = powerIteration(covariance, Math.min(numComponents, features[0].length));
+  // Principal components are the covariance eigenvectors, largest eigenvalue first
+  const { values: eigenvalues, vectors } = jacobiEigen(covariance);
+  const components = vectors.slice(0, Math.min(numComponents, features[0].length));
   
   // Transform data
   const transformed = centered.map(row => {
@@ -353,17 +365,16 @@ export function performPCA(
     });
   });
   
-  // Compute explained variance (simplified)
-  const totalVariance = covariance.reduce((sum, row, i) => sum + row[i], 0);
-  const explainedVariance = components.map((_, i) => {
-    // Approximate variance explained by each component
-    return i < components.length ? 1 / components.length : 0;
-  });
+  // Eigenvalues sum to the total variance, so each one's share is what its component explains
+  const totalVariance = eigenvalues.reduce((sum, value) => sum + value, 0);
+  const explainedVariance = components.map((_, i) => (totalVariance > 0 ? eigenvalues[i] / totalVariance : 0));
+  const loadings = components.map((component, i) => component.map(x => x * Math.sqrt(eigenvalues[i])));
   
   return {
     transformed,
     components,
-    explainedVariance
+    explainedVariance,
+    eigenvalues,
+    loadings
   };
 }
-
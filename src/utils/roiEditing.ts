@@ -0,0 +1,184 @@
+/**
+ * Hand edits to a dataset's ROIs
+ *
+ * Every edit returns a new dataset so callers can keep the previous one for
+ * undo. Added and merged ROIs get their traces re-extracted from the dataset's
+ * frame images with the same trace processing the dataset was built with;
+ * untouched neurons keep their traces. Neurons are renumbered so ids stay
+ * equal to array indices.
+ */
+
+import { CalciumDataset, Neuron } from '../types';
+import {
+  createNeurons,
+  createROI,
+  extractROIsFromRegions,
+  extractTraceForROI,
+  rasterizePolygon,
+  ROI
+} from './calciumExtraction';
+import {
+  computeNeuropilMasks,
+  DEFAULT_TRACE_PROCESSING,
+  extractNeuropilTraces,
+  processTraces
+} from './traceProcessing';
+
+// Rasterized footprints keyed by coordinate array, which survives renumbering;
+// ROIs made here are stored directly, so sparse merged pixel lists are never
+// mistaken for polygons
+const roiCache = new WeakMap<number[][], ROI>();
+const NO_COORDINATES: number[][] = [];
+
+/**
+ * The pixel footprint of a neuron's coordinates (pixel list or polygon)
+ */
+export function roiForNeuron(neuron: Neuron, width?: number, height?: number): ROI {
+  const coordinates = neuron.coordinates ?? NO_COORDINATES;
+  let roi = roiCache.get(coordinates);
+  if (!roi) {
+    roi = extractROIsFromRegions([{ coordinates }], width, height)[0];
+    roiCache.set(coordinates, roi);
+  }
+  return roi;
+}
+
+/**
+ * Filled circle ROI, clipped to the image
+ */
+export function circleROI(cx: number, cy: number, radius: number, width: number, height: number): ROI {
+  const pixels: number[][] = [];
+  const minX = Math.max(0, Math.ceil(cx - radius));
+  const maxX = Math.min(width - 1, Math.floor(cx + radius));
+  const minY = Math.max(0, Math.ceil(cy - radius));
+  const maxY = Math.min(height - 1, Math.floor(cy + radius));
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      if ((x - cx) ** 2 + (y - cy) ** 2 <= radius * radius) pixels.push([x, y]);
+    }
+  }
+  return createROI(0, pixels, pixels, width, height);
+}
+
+/**
+ * Lasso ROI: the polygon is kept as its coordinates, its interior as pixels
+ */
+export function polygonROI(vertices: number[][], width: number, height: number): ROI {
+  return createROI(0, vertices, rasterizePolygon(vertices), width, height);
+}
+
+/**
+ * Index of the neuron covering an image pixel, or -1
+ * Overlapping ROIs resolve to the one drawn last
+ */
+export function findNeuronAt(dataset: CalciumDataset, x: number, y: number): number {
+  const px = Math.floor(x);
+  const py = Math.floor(y);
+  for (let i = dataset.neurons.length - 1; i >= 0; i--) {
+    const roi = roiForNeuron(dataset.neurons[i], dataset.imageWidth, dataset.imageHeight);
+    if (roi.mask[py]?.[px]) return i;
+  }
+  return -1;
+}
+
+/**
+ * Whether ROIs can be (re-)extracted: needs the frames the traces came from
+ */
+export function canEditROIs(dataset: CalciumDataset): boolean {
+  return !!dataset.frameImages?.length && !!dataset.imageWidth && !!dataset.imageHeight;
+}
+
+// Lowest "Neuron n" label not already taken
+function nextNeuronName(neurons: Neuron[]): string {
+  const taken = new Set(neurons.map(neuron => neuron.name));
+  let n = neurons.length + 1;
+  for (let k = 1; k <= neurons.length + 1; k++) {
+    if (!taken.has(`Neuron ${k}`)) {
+      n = k;
+      break;
+    }
+  }
+  return `Neuron ${n}`;
+}
+
+function withNeurons(dataset: CalciumDataset, neurons: Neuron[]): CalciumDataset {
+  return {
+    ...dataset,
+    neurons: neurons.map((neuron, index) => (neuron.id === index ? neuron : { ...neuron, id: index })),
+    roiEdited: true
+  };
+}
+
+/**
+ * Append ROIs and extract their traces
+ */
+export function addROIs(dataset: CalciumDataset, rois: ROI[]): CalciumDataset {
+  const frames = dataset.frameImages;
+  const width = dataset.imageWidth;
+  const height = dataset.imageHeight;
+  if (!frames || !width || !height) {
+    throw new Error('ROI editing needs the frame images the traces were extracted from');
+  }
+
+  const existing = dataset.neurons.map(neuron => roiForNeuron(neuron, width, height));
+  const added = rois.filter(roi => roi.pixelCount > 0);
+  if (added.length === 0) return dataset;
+
+  const traceProcessing = dataset.traceProcessing ?? DEFAULT_TRACE_PROCESSING;
+  const rawTraces = added.map(roi => extractTraceForROI(frames, roi, width, height));
+  // Annuli exclude every ROI, old and new, like the original extraction
+  const neuropilTraces = traceProcessing.neuropil
+    ? extractNeuropilTraces(
+        frames,
+        computeNeuropilMasks([...existing, ...added], width, height, traceProcessing.neuropilGap, traceProcessing.neuropilWidth)
+          .slice(existing.length)
+      )
+    : undefined;
+  const traces = processTraces(rawTraces, dataset.fps, traceProcessing, neuropilTraces);
+
+  const neurons = [...dataset.neurons];
+  createNeurons(traces, rawTraces, dataset.fps, { coordinates: added.map(roi => roi.coordinates) })
+    .forEach((neuron, i) => {
+      roiCache.set(added[i].coordinates, added[i]);
+      neurons.push({ ...neuron, name: nextNeuronName(neurons) });
+    });
+
+  return withNeurons(dataset, neurons);
+}
+
+/**
+ * Remove neurons by index
+ */
+export function deleteROIs(dataset: CalciumDataset, indices: number[]): CalciumDataset {
+  const removed = new Set(indices);
+  return withNeurons(dataset, dataset.neurons.filter((_, index) => !removed.has(index)));
+}
+
+/**
+ * Replace several neurons with one ROI covering all of their pixels
+ */
+export function mergeROIs(dataset: CalciumDataset, indices: number[]): CalciumDataset {
+  if (indices.length < 2) return dataset;
+  const union = new Map<string, number[]>();
+  indices.forEach(index => {
+    roiForNeuron(dataset.neurons[index], dataset.imageWidth, dataset.imageHeight).pixels.forEach(pixel => {
+      union.set(`${pixel[0]},${pixel[1]}`, pixel);
+    });
+  });
+  const pixels = Array.from(union.values());
+  const merged = createROI(0, pixels, pixels, dataset.imageWidth, dataset.imageHeight);
+  return addROIs(deleteROIs(dataset, indices), [merged]);
+}
+
+/**
+ * Neurofinder regions.json for the current ROIs
+ * Every ROI is written as its full pixel list, rasterising lasso polygons,
+ * so the file matches the format the loader and other tools expect
+ */
+export function toRegionsJson(dataset: CalciumDataset): string {
+  const regions = dataset.neurons.map(neuron => ({
+    id: neuron.id,
+    coordinates: roiForNeuron(neuron, dataset.imageWidth, dataset.imageHeight).pixels
+  }));
+  return JSON.stringify(regions);
+}
@@ -0,0 +1,230 @@
+/**
+ * ROI segmentation from a local correlation image
+ *
+ * Neighbouring pixels of the same cell share its calcium transients, so the
+ * mean correlation of each pixel's time series with its 8 neighbours lights
+ * up active somata and stays near zero over neuropil and background. Seeds
+ * are local maxima of that image; each grows into the connected pixels that
+ * stay above a fraction of the seed's correlation, within a maximum radius.
+ * Candidates are scored by their mean local correlation and the best are
+ * accepted up to the neuron limit.
+ */
+
+import { TIFFFrame } from './tiffLoader';
+
+export type SegmentationMethod = 'variance' | 'correlation';
+
+export interface SegmentationOptions {
+  method: SegmentationMethod; // variance: legacy fixed disks at variance peaks
+  maxNeurons: number; // Accepted ROI limit
+  ignoreRegions: boolean; // Segment even when ground-truth regions are supplied
+}
+
+export const DEFAULT_SEGMENTATION: SegmentationOptions = {
+  method: 'variance',
+  maxNeurons: 20,
+  ignoreRegions: false
+};
+
+export type CandidateRejection = 'too small' | 'too large' | 'low quality' | 'over limit';
+
+export interface SegmentationCandidate {
+  pixels: number[][]; // [x, y]
+  centroid: [number, number];
+  quality: number; // Mean local correlation over the ROI, 0-1
+  accepted: boolean;
+  rejection?: CandidateRejection;
+}
+
+export interface SegmentationResult extends SegmentationOptions {
+  candidates: SegmentationCandidate[]; // Accepted candidates first, in ROI order; empty for variance peaks
+}
+
+// Region growing constraints, in pixels (Neurofinder somata are ~6-12 px across)
+const MAX_RADIUS = 10;
+const MIN_AREA = 12;
+const MAX_AREA = 250; // Growth that fills most of the radius is neuropil or a vessel, not a soma
+// Pixels join a region while their correlation is at least this fraction of the seed's
+const GROW_FRACTION = 0.5;
+const MIN_QUALITY = 0.15;
+
+/**
+ * Local correlation image, accumulated one frame at a time
+ * Keeps per-pixel sums and the products with the right, down and diagonal
+ * neighbours, which together cover all 8 neighbour pairs
+ */
+export function createCorrelationAccumulator(width: number, height: number) {
+  const size = width * height;
+  const sum = new Float64Array(size);
+  const sumOfSquares = new Float64Array(size);
+  // Neighbour offsets: right, down, down-right, down-left
+  const offsets: Array<[number, number]> = [[1, 0], [0, 1], [1, 1], [-1, 1]];
+  const products = offsets.map(() => new Float64Array(size));
+  let count = 0;
+
+  return {
+    add(frame: TIFFFrame) {
+      const data = frame.data;
+      if (data.length < size) return;
+      const [right, down, downRight, downLeft] = products;
+      for (let y = 0; y < height; y++) {
+        const hasDown = y + 1 < height;
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          const value = data[i];
+          sum[i] += value;
+          sumOfSquares[i] += value * value;
+          if (x + 1 < width) right[i] += value * data[i + 1];
+          if (hasDown) {
+            down[i] += value * data[i + width];
+            if (x + 1 < width) downRight[i] += value * data[i + width + 1];
+            if (x > 0) downLeft[i] += value * data[i + width - 1];
+          }
+        }
+      }
+      count++;
+    },
+    image(): Float32Array {
+      const correlation = new Float32Array(size);
+      const neighbours = new Uint8Array(size);
+      if (count < 2) return correlation;
+
+      const std = new Float64Array(size);
+      for (let i = 0; i < size; i++) {
+        const mean = sum[i] / count;
+        std[i] = Math.sqrt(Math.max(0, sumOfSquares[i] / count - mean * mean));
+      }
+
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const i = y * width + x;
+          offsets.forEach(([dx, dy], k) => {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx < 0 || nx >= width || ny >= height) return;
+            const j = ny * width + nx;
+            const denominator = std[i] * std[j];
+            const r = denominator > 0
+              ? (products[k][i] / count - (sum[i] / count) * (sum[j] / count)) / denominator
+              : 0;
+            // Each pair counts towards both pixels
+            correlation[i] += r;
+            correlation[j] += r;
+            neighbours[i]++;
+            neighbours[j]++;
+          });
+        }
+      }
+
+      for (let i = 0; i < size; i++) {
+        correlation[i] = neighbours[i] > 0 ? correlation[i] / neighbours[i] : 0;
+      }
+      return correlation;
+    }
+  };
+}
+
+/**
+ * Seeded region growing on a correlation image
+ * Returns every candidate with its quality and whether it was accepted
+ */
+export function segmentCorrelationImage(
+  correlation: Float32Array,
+  width: number,
+  height: number,
+  options: SegmentationOptions
+): SegmentationResult {
+  // Seed threshold: well above the typical (background) correlation
+  const sorted = Float32Array.from(correlation).sort();
+  const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+  const deviations = Float32Array.from(correlation, value => Math.abs(value - median)).sort();
+  const mad = (deviations[Math.floor(deviations.length / 2)] ?? 0) * 1.4826;
+  const seedThreshold = Math.max(0.1, median + 4 * mad);
+
+  // Seeds: local maxima over a 3×3 neighbourhood, strongest first
+  const seeds: number[] = [];
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = correlation[i];
+      if (value < seedThreshold) continue;
+      let isMax = true;
+      for (let dy = -1; dy <= 1 && isMax; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if ((dx || dy) && correlation[i + dy * width + dx] > value) {
+            isMax = false;
+            break;
+          }
+        }
+      }
+      if (isMax) seeds.push(i);
+    }
+  }
+  seeds.sort((a, b) => correlation[b] - correlation[a]);
+
+  const claimed = new Uint8Array(width * height);
+  const candidates: SegmentationCandidate[] = [];
+
+  seeds.forEach(seed => {
+    if (claimed[seed]) return;
+    const seedX = seed % width;
+    const seedY = Math.floor(seed / width);
+    const floor = Math.max(median + 2 * mad, correlation[seed] * GROW_FRACTION);
+
+    // Breadth-first growth over 4-connected pixels
+    const region: number[] = [seed];
+    claimed[seed] = 1;
+    for (let head = 0; head < region.length; head++) {
+      const i = region[head];
+      const x = i % width;
+      const y = Math.floor(i / width);
+      for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx < 0 || nx >= width || ny < 0 || ny >= height) continue;
+        const j = ny * width + nx;
+        if (claimed[j] || correlation[j] < floor) continue;
+        if ((nx - seedX) ** 2 + (ny - seedY) ** 2 > MAX_RADIUS * MAX_RADIUS) continue;
+        claimed[j] = 1;
+        region.push(j);
+      }
+    }
+
+    let sumX = 0;
+    let sumY = 0;
+    let sumCorrelation = 0;
+    const pixels = region.map(i => {
+      const x = i % width;
+      const y = Math.floor(i / width);
+      sumX += x;
+      sumY += y;
+      sumCorrelation += correlation[i];
+      return [x, y];
+    });
+    const quality = Math.max(0, Math.min(1, sumCorrelation / region.length));
+
+    let rejection: CandidateRejection | undefined;
+    if (region.length < MIN_AREA) rejection = 'too small';
+    else if (region.length > MAX_AREA) rejection = 'too large';
+    else if (quality < MIN_QUALITY) rejection = 'low quality';
+
+    candidates.push({
+      pixels,
+      centroid: [sumX / region.length, sumY / region.length],
+      quality,
+      accepted: !rejection,
+      rejection
+    });
+  });
+
+  // Keep the best candidates up to the limit
+  candidates.sort((a, b) => Number(b.accepted) - Number(a.accepted) || b.quality - a.quality);
+  candidates.forEach((candidate, index) => {
+    if (candidate.accepted && index >= options.maxNeurons) {
+      candidate.accepted = false;
+      candidate.rejection = 'over limit';
+    }
+  });
+
+  return { ...options, method: 'correlation', candidates };
+}
@@ -0,0 +1,320 @@
+/**
+ * Score engine for the musical sonification
+ *
+ * Turns calcium traces into a deterministic list of timed note events.
+ * Nothing here touches Tone.js, refs or timers: live playback, dataset
+ * comparison and the audio/MIDI exporters all read the same score, so what
+ * you hear in the browser is exactly what gets exported.
+ */
+
+import { CalciumDataset } from '../types';
+import { Cluster } from './clustering';
+import { performPCA } from './pca';
+import { indexEventsByFrame } from './spikeInference';
+import { chordAtTime, DEFAULT_TONALITY, getChordNotes, getNoteFrequency, SCALES, Tonality } from './tonality';
+
+export type NoteDuration = '8n' | '16n';
+
+export interface ScoreNote {
+  frame: number;
+  time: number; // Seconds from the start of the score
+  offset: number; // Seconds after the start of its frame (stagger between notes)
+  clusterId: number;
+  clusterIdx: number;
+  frequency: number;
+  volume: number; // dB
+  duration: NoteDuration;
+  intensity: number;
+}
+
+/**
+ * How clusters are voiced: register, polyphony and loudness
+ */
+export interface ScoreVoicing {
+  baseOctave: (clusterIdx: number, activityRatio: number) => number;
+  maxNotesPerCluster: number;
+  noteGain: (intensity: number) => number; // Linear gain, converted to dB in the score
+  minRetriggerDelay: number; // Seconds before a cluster may sound another note
+}
+
+export interface ScoreOptions {
+  tempo?: number; // BPM, 120 = real time
+  startFrame?: number; // Inclusive, 0-based
+  endFrame?: number; // Exclusive
+  fps?: number; // Overrides dataset.fps for the frame clock
+  voicing?: ScoreVoicing;
+  soloNeuron?: number; // Only this neuron sounds, on its cluster's voice; activity still covers every neuron
+  tonality?: Tonality; // Key, mode and progression; C major without chords by default
+}
+
+export interface Score {
+  startFrame: number;
+  endFrame: number;
+  frameInterval: number; // Seconds
+  duration: number; // Seconds, excluding release tails
+  notes: ScoreNote[]; // Sorted by time
+  activity: Array<Array<number | null>>; // [clusterIdx][frame - startFrame], null when the cluster has no data
+}
+
+const NOTE_STAGGER = 0.01; // Seconds between notes of the same chord, avoids clicks
+
+/**
+ * Time between frames in milliseconds
+ * Uses frame interval based on dataset fps, scaled by tempo (120 BPM = real time)
+ * This preserves the actual temporal relationships in the data
+ */
+export function getFrameIntervalMs(fps: number, tempo: number): number {
+  const baseFrameInterval = (1000 / fps) * (120 / tempo);
+  const minInterval = 20; // Minimum 20ms for responsiveness
+  return Math.max(minInterval, baseFrameInterval);
+}
+
+/**
+ * Time between frames in quarter notes at the given tempo, for Transport scheduling
+ * 2 / fps beats unless the 20ms minimum interval kicks in
+ */
+export function getFrameIntervalBeats(fps: number, tempo: number): number {
+  return (getFrameIntervalMs(fps, tempo) / 1000) * (tempo / 60);
+}
+
+function clampUnit(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+function gainToDb(gain: number): number {
+  return 20 * Math.log10(gain);
+}
+
+/**
+ * Default voicing for a single dataset
+ * More clusters = fewer, quieter notes per cluster to prevent overwhelming sound
+ */
+export function ensembleVoicing(clusterCount: number): ScoreVoicing {
+  const clusterScale = clusterCount > 4
+    ? Math.max(0.3, 0.4 / clusterCount)  // More aggressive for 5+ clusters
+    : Math.max(0.5, 1.0 / Math.sqrt(clusterCount));  // Less aggressive for 4 or fewer
+
+  return {
+    // Larger clusters or more active clusters get different octaves
+    baseOctave: (clusterIdx, activityRatio) => 3 + Math.floor(clusterIdx / 2) + (activityRatio > 0.5 ? 1 : 0),
+    maxNotesPerCluster: clusterCount > 4 ? 2 : clusterCount > 6 ? 1 : 5,
+    noteGain: intensity => Math.max(0.05, Math.min(0.8, intensity * 0.6 * clusterScale)),
+    minRetriggerDelay: clusterCount > 4 ? 0.1 : 0.05
+  };
+}
+
+/**
+ * Voicing for one layer of the dataset comparison
+ * Each source dataset gets its own register; the result dataset (index -1) sits above them
+ */
+export function comparisonVoicing(datasetIdx: number): ScoreVoicing {
+  return {
+    baseOctave: (_clusterIdx, activityRatio) => datasetIdx === -1
+      ? 5  // Result dataset in higher octave to distinguish it
+      : 3 + Math.floor(datasetIdx / 2) + (activityRatio > 0.5 ? 1 : 0),
+    maxNotesPerCluster: 5,
+    noteGain: intensity => Math.max(0.1, Math.min(1, intensity * 0.8)),
+    minRetriggerDelay: 0.05
+  };
+}
+
+/**
+ * Compute the candidate notes a cluster plays on a single frame, plus its activity level
+ * Returns null when none of the cluster's neurons have data for this frame
+ */
+function computeClusterFrame(
+  dataset: CalciumDataset,
+  cluster: Cluster,
+  clusterIdx: number,
+  frame: number,
+  pcaResult: ReturnType<typeof performPCA> | null,
+  voicing: ScoreVoicing,
+  eventsByNeuron: Array<Map<number, number>>,
+  tonality: Tonality,
+  chord: number[] | null,
+  soloNeuron?: number
+): { notes: Array<Pick<ScoreNote, 'frequency' | 'volume' | 'duration' | 'intensity'>>; activity: number } | null {
+  // Get individual neuron activities for this frame
+  const neuronActivities = cluster.neurons
+    .map(neuronIdx => {
+      const neuron = dataset.neurons[neuronIdx];
+      if (!neuron || !neuron.trace || frame >= neuron.trace.length) return null;
+
+      // ΔF/F and z-scored traces can leave [0, 1]; clamp so pitch and volume stay in range
+      const intensity = clampUnit(neuron.trace[frame]);
+      const prevIntensity = frame > 0 && neuron.trace[frame - 1]
+        ? clampUnit(neuron.trace[frame - 1])
+        : 0;
+
+      return {
+        idx: neuronIdx,
+        intensity,
+        prevIntensity,
+        event: eventsByNeuron[neuronIdx]?.get(frame) ?? 0,
+        hasEvents: (eventsByNeuron[neuronIdx]?.size ?? 0) > 0
+      };
+    })
+    .filter(n => n !== null) as Array<{
+      idx: number;
+      intensity: number;
+      prevIntensity: number;
+      event: number;
+      hasEvents: boolean;
+    }>;
+
+  if (neuronActivities.length === 0) return null;
+
+  // Calculate cluster-level metrics from actual data
+  const avgIntensity = neuronActivities.reduce((sum, n) => sum + n.intensity, 0) / neuronActivities.length;
+  const activeCount = neuronActivities.filter(n => n.intensity > 0.1).length;
+  const activityRatio = activeCount / neuronActivities.length;
+  const activity = avgIntensity * activityRatio;
+
+  // Use PCA centroid to determine pitch range (lower values = lower pitches)
+  // This maps the actual cluster characteristics to musical space
+  const pcaCentroid = pcaResult?.transformed[cluster.neurons[0]] || [0, 0, 0];
+  const pitchOffset = Math.floor((pcaCentroid[0] + 2) * 2) % 12; // Map to 0-11 (chromatic)
+  const baseOctave = voicing.baseOctave(clusterIdx, activityRatio);
+
+  // Play notes based on actual activity patterns
+  // Trigger on spike events; neurons without any events fall back to sustained high activity
+  const threshold = 0.05;
+
+  // Soloing silences the rest of the cluster without changing its activity level
+  const voiced = soloNeuron === undefined ? neuronActivities : neuronActivities.filter(n => n.idx === soloNeuron);
+
+  // Neurons with an inferred spike on this frame, strongest first
+  const spikes = voiced
+    .filter(n => n.event > 0)
+    .sort((a, b) => b.event - a.event);
+
+  // Sustained activity, only for neurons whose traces yielded no events at all
+  const sustained = voiced.filter(n =>
+    !n.hasEvents && n.intensity > threshold && n.intensity > n.prevIntensity * 0.9 // Not decreasing much
+  );
+
+  // Determine which neurons should play based on their actual activity
+  const neuronsToPlay = spikes.length > 0 ? spikes : sustained;
+
+  const scale = SCALES[tonality.mode];
+  const steps = scale.length;
+
+  // Map each active neuron to a note based on its intensity and position
+  const notes = neuronsToPlay
+    .slice(0, Math.min(voicing.maxNotesPerCluster, neuronsToPlay.length))
+    .map(neuron => {
+      // Map intensity (0-1) to a scale degree
+      const scaleDegree = Math.floor(neuron.intensity * steps) % steps;
+      // Add pitch offset from PCA to create cluster-specific character
+      const finalDegree = (scaleDegree + pitchOffset) % steps;
+
+      // Map intensity to octave (higher intensity = higher octave, but within range)
+      const octave = baseOctave + Math.floor(neuron.intensity * 2);
+
+      // Duration based on intensity (stronger signals last longer)
+      const duration: NoteDuration = neuron.intensity > 0.5 ? '8n' : '16n';
+
+      // With a progression, move to the nearest tone of the current chord
+      let frequency = getNoteFrequency(finalDegree, octave, scale, tonality.root);
+      if (chord) {
+        const target = frequency;
+        frequency = getChordNotes(chord, octave, scale, tonality.root).reduce((best, tone) =>
+          Math.abs(Math.log2(tone / target)) < Math.abs(Math.log2(best / target)) ? tone : best
+        );
+      }
+
+      return {
+        frequency,
+        volume: gainToDb(voicing.noteGain(neuron.intensity)),
+        duration,
+        intensity: neuron.intensity
+      };
+    })
+    .sort((a, b) => a.frequency - b.frequency); // Sort by pitch for harmony
+
+  return { notes, activity };
+}
+
+/**
+ * Build the score for a dataset: every note each cluster plays, in time order
+ * Pure and deterministic: the same inputs always produce the same events
+ */
+export function scoreFromDataset(
+  dataset: CalciumDataset,
+  clusters: Cluster[],
+  pcaResult: ReturnType<typeof performPCA> | null,
+  options: ScoreOptions = {}
+): Score {
+  const tempo = options.tempo ?? 120;
+  const voicing = options.voicing ?? ensembleVoicing(clusters.length);
+  const startFrame = Math.max(0, Math.min(dataset.frames - 1, options.startFrame ?? 0));
+  const endFrame = Math.max(startFrame, Math.min(dataset.frames, options.endFrame ?? dataset.frames));
+  const frameInterval = getFrameIntervalMs(options.fps ?? dataset.fps, tempo) / 1000;
+
+  const notes: ScoreNote[] = [];
+  const activity: Array<Array<number | null>> = clusters.map(() => []);
+  const lastPlayTime = new Map<number, number>();
+  const eventsByNeuron = indexEventsByFrame(dataset);
+  const tonality = options.tonality ?? DEFAULT_TONALITY;
+
+  for (let frame = startFrame; frame < endFrame; frame++) {
+    const frameTime = (frame - startFrame) * frameInterval;
+    // Bars count from the start of the recording so an excerpt keeps its chords
+    const chord = chordAtTime(tonality, frame * frameInterval, tempo);
+
+    clusters.forEach((cluster, clusterIdx) => {
+      const frameNotes = computeClusterFrame(
+        dataset, cluster, clusterIdx, frame, pcaResult, voicing, eventsByNeuron, tonality, chord, options.soloNeuron
+      );
+      activity[clusterIdx][frame - startFrame] = frameNotes ? frameNotes.activity : null;
+      if (!frameNotes) return;
+
+      frameNotes.notes.forEach((note, noteIdx) => {
+        // Only sound a note if enough time has passed since the cluster last played
+        // The first note of a frame always plays and restarts the clock
+        const lastPlay = lastPlayTime.get(cluster.id) ?? -Infinity;
+        if (frameTime - lastPlay < voicing.minRetriggerDelay && noteIdx !== 0) return;
+        if (noteIdx === 0) {
+          lastPlayTime.set(cluster.id, frameTime);
+        }
+
+        const offset = noteIdx * NOTE_STAGGER;
+        notes.push({
+          frame,
+          time: frameTime + offset,
+          offset,
+          clusterId: cluster.id,
+          clusterIdx,
+          ...note
+        });
+      });
+    });
+  }
+
+  notes.sort((a, b) => a.time - b.time || a.clusterIdx - b.clusterIdx);
+
+  return {
+    startFrame,
+    endFrame,
+    frameInterval,
+    duration: (endFrame - startFrame) * frameInterval,
+    notes,
+    activity
+  };
+}
+
+/**
+ * Group score notes by frame for frame-by-frame playback
+ */
+export function indexScoreByFrame(score: Score): Map<number, ScoreNote[]> {
+  const byFrame = new Map<number, ScoreNote[]>();
+  score.notes.forEach(note => {
+    const frameNotes = byFrame.get(note.frame);
+    if (frameNotes) {
+      frameNotes.push(note);
+    } else {
+      byFrame.set(note.frame, [note]);
+    }
+  });
+  return byFrame;
+}
@@ -0,0 +1,176 @@
+/**
+ * Neurofinder segmentation metrics
+ *
+ * Scores detected ROIs against ground-truth regions the way the Neurofinder
+ * benchmark does (github.com/codeneuro/neurofinder-python):
+ * - regions are paired one-to-one by centroid distance (optimal assignment),
+ *   and pairs further apart than the threshold are left unmatched
+ * - recall = matched / ground truth, precision = matched / detected,
+ *   combined = their harmonic mean (F-score)
+ * - inclusion = mean share of each matched ground-truth region covered by its
+ *   detection; exclusion = mean share of each matched detection inside its
+ *   ground-truth region
+ */
+
+export interface SegmentationScores {
+  recall: number;
+  precision: number;
+  combined: number;
+  inclusion: number;
+  exclusion: number;
+  matched: number;
+  groundTruthCount: number;
+  detectedCount: number;
+  threshold: number; // Centroid distance in pixels
+}
+
+// Neurofinder's evaluation default
+export const DEFAULT_MATCH_THRESHOLD = 5;
+
+function centroid(pixels: number[][]): [number, number] {
+  if (pixels.length === 0) return [NaN, NaN];
+  let sumX = 0;
+  let sumY = 0;
+  pixels.forEach(([x, y]) => {
+    sumX += x;
+    sumY += y;
+  });
+  return [sumX / pixels.length, sumY / pixels.length];
+}
+
+/**
+ * Minimum-cost assignment of rows to columns (Hungarian algorithm, O(n³))
+ * Works on rectangular matrices; returns the column for each row, or -1
+ */
+function solveAssignment(cost: number[][]): number[] {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+
+  // The potentials method needs rows ≤ columns; transpose otherwise
+  if (rows > cols) {
+    const transposed = Array.from({ length: cols }, (_, j) => cost.map(row => row[j]));
+    const columnToRow = solveAssignment(transposed);
+    const rowToColumn = new Array(rows).fill(-1);
+    columnToRow.forEach((row, column) => {
+      if (row !== -1) rowToColumn[row] = column;
+    });
+    return rowToColumn;
+  }
+
+  // 1-based arrays; u/v are row/column potentials, p[j] the row assigned to column j
+  const u = new Float64Array(rows + 1);
+  const v = new Float64Array(cols + 1);
+  const p = new Int32Array(cols + 1);
+  const way = new Int32Array(cols + 1);
+
+  for (let i = 1; i <= rows; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minValue = new Float64Array(cols + 1).fill(Infinity);
+    const used = new Uint8Array(cols + 1);
+    do {
+      used[j0] = 1;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= cols; j++) {
+        if (used[j]) continue;
+        const reduced = cost[i0 - 1][j - 1] - u[i0] - v[j];
+        if (reduced < minValue[j]) {
+          minValue[j] = reduced;
+          way[j] = j0;
+        }
+        if (minValue[j] < delta) {
+          delta = minValue[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= cols; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minValue[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+
+  const assignment = new Array(rows).fill(-1);
+  for (let j = 1; j <= cols; j++) {
+    if (p[j] > 0) assignment[p[j] - 1] = j - 1;
+  }
+  return assignment;
+}
+
+// Cost of pairing two regions too far apart to count as a match
+const UNMATCHED_COST = 1e9;
+
+/**
+ * Pair each ground-truth region with at most one detected region
+ * Returns the detected index per ground-truth region, or -1 when unmatched
+ */
+export function matchRegions(groundTruth: number[][][], detected: number[][][], threshold = DEFAULT_MATCH_THRESHOLD): number[] {
+  const truthCentres = groundTruth.map(centroid);
+  const detectedCentres = detected.map(centroid);
+  // Pairs beyond the threshold all cost the same, so the assignment never
+  // trades a valid match for a shorter total distance over invalid ones
+  const costs = truthCentres.map(([ax, ay]) =>
+    detectedCentres.map(([bx, by]) => {
+      const distance = Math.hypot(ax - bx, ay - by);
+      return Number.isFinite(distance) && distance <= threshold ? distance : UNMATCHED_COST;
+    })
+  );
+
+  return solveAssignment(costs).map((j, i) => (j !== -1 && costs[i][j] < UNMATCHED_COST ? j : -1));
+}
+
+/**
+ * Score detected regions (pixel lists) against ground truth
+ */
+export function scoreSegmentation(
+  groundTruth: number[][][],
+  detected: number[][][],
+  threshold = DEFAULT_MATCH_THRESHOLD
+): SegmentationScores {
+  const matches = matchRegions(groundTruth, detected, threshold);
+  const inclusion: number[] = [];
+  const exclusion: number[] = [];
+
+  matches.forEach((j, i) => {
+    if (j === -1) return;
+    const truthPixels = new Set(groundTruth[i].map(([x, y]) => `${x},${y}`));
+    const detectedPixels = new Set(detected[j].map(([x, y]) => `${x},${y}`));
+    let overlap = 0;
+    detectedPixels.forEach(pixel => {
+      if (truthPixels.has(pixel)) overlap++;
+    });
+    inclusion.push(truthPixels.size > 0 ? overlap / truthPixels.size : 0);
+    exclusion.push(detectedPixels.size > 0 ? overlap / detectedPixels.size : 0);
+  });
+
+  const matched = inclusion.length;
+  const recall = groundTruth.length > 0 ? matched / groundTruth.length : 0;
+  const precision = detected.length > 0 ? matched / detected.length : 0;
+  const mean = (values: number[]) => (values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+  return {
+    recall,
+    precision,
+    combined: recall + precision > 0 ? (2 * recall * precision) / (recall + precision) : 0,
+    inclusion: mean(inclusion),
+    exclusion: mean(exclusion),
+    matched,
+    groundTruthCount: groundTruth.length,
+    detectedCount: detected.length,
+    threshold
+  };
+}
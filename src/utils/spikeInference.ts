@@ -0,0 +1,171 @@
+/**
+ * Spike inference from calcium traces
+ *
+ * Models each trace as an AR(1) calcium process driven by non-negative spikes,
+ * c[t] = γ·c[t-1] + s[t], and recovers s with the OASIS active-set algorithm
+ * (Friedrich, Zhou & Paninski 2017). Spikes smaller than a multiple of the
+ * noise level are rejected, so events don't depend on the trace's scale or
+ * normalization.
+ */
+
+import { CalciumDataset, Neuron } from '../types';
+
+export interface SpikeEvent {
+  frame: number;
+  amplitude: number; // Inferred spike size, in trace units
+}
+
+export interface SpikeInferenceOptions {
+  decayTime?: number; // Indicator decay constant in seconds; estimated from the trace when omitted
+  threshold: number; // Minimum spike size in multiples of the noise level
+}
+
+export const DEFAULT_SPIKE_INFERENCE: SpikeInferenceOptions = {
+  threshold: 2.5
+};
+
+const MIN_DECAY_TIME = 0.1; // Seconds, fastest plausible indicator
+const MAX_DECAY_TIME = 5; // Seconds, slower than any GCaMP variant
+const FALLBACK_DECAY_TIME = 1; // Seconds, used when the trace is too short or flat to estimate
+const BASELINE_PERCENTILE = 0.1;
+const MIN_RELATIVE_SPIKE = 0.05; // Fraction of the trace's range; keeps noiseless synthetic traces from spiking every frame
+
+interface Pool {
+  value: number; // Calcium level at the start of the pool
+  weight: number;
+  start: number;
+  length: number;
+}
+
+/**
+ * Noise standard deviation from the median absolute first difference
+ * Differencing removes slow transients, so spikes barely bias the estimate
+ */
+export function estimateNoise(trace: number[]): number {
+  if (trace.length < 2) return 0;
+  const diffs = trace.slice(1).map((v, i) => Math.abs(v - trace[i])).sort((a, b) => a - b);
+  const mad = diffs[Math.floor(diffs.length / 2)];
+  return mad / (0.6745 * Math.SQRT2);
+}
+
+/**
+ * AR(1) decay factor γ per frame
+ * Estimated from the lag-1 autocovariance with the noise variance removed, then
+ * clamped to decay times between MIN_DECAY_TIME and MAX_DECAY_TIME
+ */
+export function estimateDecay(trace: number[], fps: number, noise: number = estimateNoise(trace)): number {
+  const minGamma = Math.exp(-1 / (MIN_DECAY_TIME * fps));
+  const maxGamma = Math.exp(-1 / (MAX_DECAY_TIME * fps));
+  const fallback = Math.exp(-1 / (FALLBACK_DECAY_TIME * fps));
+  if (trace.length < 3) return fallback;
+
+  const mean = trace.reduce((sum, v) => sum + v, 0) / trace.length;
+  let lag0 = 0;
+  let lag1 = 0;
+  for (let t = 0; t < trace.length; t++) {
+    const centred = trace[t] - mean;
+    lag0 += centred * centred;
+    if (t > 0) lag1 += centred * (trace[t - 1] - mean);
+  }
+  lag0 /= trace.length;
+  lag1 /= trace.length - 1;
+
+  const signalVariance = lag0 - noise * noise;
+  if (signalVariance <= 0 || lag1 <= 0) return fallback;
+
+  return Math.max(minGamma, Math.min(maxGamma, lag1 / signalVariance));
+}
+
+/**
+ * Non-negative AR(1) deconvolution with a minimum spike size (OASIS)
+ * Returns the denoised calcium and the spike train, both the length of the trace
+ */
+export function deconvolveAR1(
+  trace: number[],
+  gamma: number,
+  minSpike: number = 0
+): { calcium: number[]; spikes: number[] } {
+  const n = trace.length;
+  const pools: Pool[] = [];
+
+  for (let t = 0; t < n; t++) {
+    pools.push({ value: trace[t], weight: 1, start: t, length: 1 });
+
+    // Merge backwards while the newest pool would need a spike smaller than minSpike
+    while (pools.length > 1) {
+      const current = pools[pools.length - 1];
+      const previous = pools[pools.length - 2];
+      const decay = Math.pow(gamma, previous.length);
+      if (current.value >= decay * previous.value + minSpike) break;
+
+      previous.value = (previous.weight * previous.value + decay * current.weight * current.value)
+        / (previous.weight + decay * decay * current.weight);
+      previous.weight += decay * decay * current.weight;
+      previous.length += current.length;
+      pools.pop();
+    }
+  }
+
+  const calcium: number[] = new Array(n).fill(0);
+  pools.forEach(pool => {
+    const value = Math.max(0, pool.value);
+    for (let k = 0; k < pool.length; k++) {
+      calcium[pool.start + k] = value * Math.pow(gamma, k);
+    }
+  });
+
+  const spikes = calcium.map((c, t) => (t === 0 ? 0 : Math.max(0, c - gamma * calcium[t - 1])));
+
+  return { calcium, spikes };
+}
+
+/**
+ * Infer spike events from a single trace
+ */
+export function inferSpikes(
+  trace: number[],
+  fps: number,
+  options: SpikeInferenceOptions = DEFAULT_SPIKE_INFERENCE
+): SpikeEvent[] {
+  if (trace.length < 2) return [];
+
+  const sorted = [...trace].sort((a, b) => a - b);
+  const baseline = sorted[Math.floor(sorted.length * BASELINE_PERCENTILE)];
+  const centred = trace.map(v => v - baseline);
+
+  const noise = estimateNoise(centred);
+  const gamma = options.decayTime !== undefined && options.decayTime > 0
+    ? Math.exp(-1 / (options.decayTime * fps))
+    : estimateDecay(centred, fps, noise);
+  const range = sorted[sorted.length - 1] - baseline;
+  const minSpike = Math.max(options.threshold * noise, MIN_RELATIVE_SPIKE * range);
+
+  const { spikes } = deconvolveAR1(centred, gamma, minSpike);
+
+  const events: SpikeEvent[] = [];
+  spikes.forEach((amplitude, frame) => {
+    if (amplitude > 0 && amplitude >= minSpike) {
+      events.push({ frame, amplitude });
+    }
+  });
+  return events;
+}
+
+/**
+ * A neuron's events, inferred on the fly for datasets that were built without them
+ */
+export function getNeuronEvents(neuron: Neuron, fps: number): SpikeEvent[] {
+  return neuron.events ?? inferSpikes(neuron.trace, fps);
+}
+
+/**
+ * Per-neuron lookup of frame -> event strength, scaled to 0-1 by the neuron's largest event
+ * Indexed like dataset.neurons
+ */
+export function indexEventsByFrame(dataset: CalciumDataset): Array<Map<number, number>> {
+  return dataset.neurons.map(neuron => {
+    const events = getNeuronEvents(neuron, dataset.fps);
+    const maxAmplitude = events.reduce((max, e) => Math.max(max, e.amplitude), 0) || 1;
+    return new Map(events.map(e => [e.frame, e.amplitude / maxAmplitude]));
+  });
+}
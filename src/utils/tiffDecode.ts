@@ -0,0 +1,94 @@
+/**
+ * TIFF decoding without DOM dependencies
+ * Shared by the main thread fallback and the pipeline worker
+ *
+ * Every IFD (page) of a file is a frame. Files opened from a Blob are read
+ * lazily, so only the IFD headers and the page being decoded are in memory;
+ * geotiff handles classic and BigTIFF layouts and 8/16/32-bit integer and
+ * float samples.
+ */
+
+import type { GeoTIFF, GeoTIFFImage } from 'geotiff';
+import { TIFFFrame, TIFFPixelData } from './tiffLoader';
+
+/**
+ * Open a TIFF from memory or, lazily, from a Blob/File
+ */
+export async function openTIFF(source: ArrayBuffer | Blob): Promise<GeoTIFF> {
+  // Try to import geotiff (may fail in browser due to module resolution issues)
+  let geotiffModule;
+  try {
+    geotiffModule = await import('geotiff');
+  } catch (importError) {
+    console.warn('geotiff not available in browser. Use server-side processing instead.');
+    throw new Error('geotiff module not available - use server-side processing');
+  }
+
+  return source instanceof ArrayBuffer
+    ? geotiffModule.fromArrayBuffer(source)
+    : geotiffModule.fromBlob(source);
+}
+
+/**
+ * Decode one page; multi-sample (e.g. RGB) pages keep only the first sample
+ * The returned pixel data owns its buffer, so it can be transferred between threads
+ */
+export async function decodeTIFFImage(image: GeoTIFFImage, frameIndex: number): Promise<TIFFFrame> {
+  const rasters = await image.readRasters({ samples: [0] });
+  const raster = rasters[0] as TIFFPixelData;
+
+  // Copy views so the buffer holds only this frame
+  const data = raster.byteOffset === 0 && raster.byteLength === raster.buffer.byteLength
+    ? raster
+    : raster.slice();
+
+  return {
+    data,
+    width: image.getWidth(),
+    height: image.getHeight(),
+    frameIndex
+  };
+}
+
+/**
+ * Decode a single page of a TIFF file (the first by default)
+ */
+export async function decodeTIFF(arrayBuffer: ArrayBuffer, pageIndex = 0): Promise<TIFFFrame> {
+  const tiff = await openTIFF(arrayBuffer);
+  return decodeTIFFImage(await tiff.getImage(pageIndex), pageIndex);
+}
+
+/**
+ * Decode every page of a TIFF stack, in file order
+ */
+export async function decodeTIFFPages(arrayBuffer: ArrayBuffer): Promise<TIFFFrame[]> {
+  const frames: TIFFFrame[] = [];
+  for await (const frame of iterateTIFFPages(await openTIFF(arrayBuffer))) {
+    frames.push(frame);
+  }
+  return frames;
+}
+
+/**
+ * Number of pages (IFDs) in a TIFF
+ */
+export async function countTIFFPages(source: ArrayBuffer | Blob | GeoTIFF): Promise<number> {
+  const tiff = source instanceof ArrayBuffer || source instanceof Blob ? await openTIFF(source) : source;
+  return tiff.getImageCount();
+}
+
+/**
+ * Decode pages one at a time; frame indices start at `firstFrameIndex`
+ * Stops between pages when the signal aborts
+ */
+export async function* iterateTIFFPages(
+  tiff: GeoTIFF,
+  options: { firstFrameIndex?: number; signal?: AbortSignal } = {}
+): AsyncGenerator<TIFFFrame> {
+  const { firstFrameIndex = 0, signal } = options;
+  const pageCount = await tiff.getImageCount();
+  for (let page = 0; page < pageCount; page++) {
+    signal?.throwIfAborted();
+    yield await decodeTIFFImage(await tiff.getImage(page), firstFrameIndex + page);
+  }
+}
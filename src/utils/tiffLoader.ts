@@ -2,89 +2,106 @@
  * TIFF Image Sequence Loader for Neurofinder Datasets
  * 
  * Neurofinder datasets consist of TIFF image sequences where each frame
- * represents a single time point in the calcium imaging movie.
+ * represents a single time point in the calcium imaging movie. Most rigs
+ * instead write multi-page stacks; every page of every file is a frame.
+ * For recordings too long to decode up front, see createTIFFFrameSource.
  */
 
+import { decodeTIFF, decodeTIFFPages } from './tiffDecode';
+import { decodeTIFFInWorker, decodeTIFFStackInWorker, isWorkerPoolSupported } from './workerPool';
+import { sortByFrameNumber } from './frameSource';
+
+// Frames decoded concurrently; bounds how many encoded files sit in memory at once
+export const DECODE_BATCH_SIZE = 32;
+
+// Pixel arrays for 8/16/32-bit integer and float samples
+export type TIFFPixelData =
+  | Uint8Array
+  | Uint16Array
+  | Uint32Array
+  | Int8Array
+  | Int16Array
+  | Int32Array
+  | Float32Array
+  | Float64Array;
+
 export interface TIFFFrame {
-  data: Uint16Array | Uint8Array;
+  data: TIFFPixelData;
   width: number;
   height: number;
   frameIndex: number;
 }
 
 /**
- * Load a single TIFF file from a File object
+ * Load the first page of a TIFF file from a File object
+ * Decodes in the pipeline worker pool when workers are available
  */
-export async function loadTIFFFile(file: File): Promise<TIFFFrame | null> {
+export async function loadTIFFFile(file: File, signal?: AbortSignal): Promise<TIFFFrame | null> {
   try {
     const arrayBuffer = await file.arrayBuffer();
-    
-    // Try to import geotiff (may fail in browser due to module resolution issues)
-    // This is a fallback - server-side processing is preferred
-    let geotiffModule;
-    try {
-      geotiffModule = await import('geotiff');
-    } catch (importError) {
-      console.warn('geotiff not available in browser. Use server-side processing instead.');
-      throw new Error('geotiff module not available - use server-side processing');
-    }
-    
-    const tiff = await geotiffModule.fromArrayBuffer(arrayBuffer);
-    const image = await tiff.getImage();
-    const rasters = await image.readRasters();
-    const width = image.getWidth();
-    const height = image.getHeight();
-
-    // Convert to appropriate format
-    const data = rasters[0] as Uint16Array | Uint8Array;
-
-    return {
-      data,
-      width,
-      height,
-      frameIndex: 0
-    };
+    return isWorkerPoolSupported()
+      ? await decodeTIFFInWorker(arrayBuffer, { signal })
+      : await decodeTIFF(arrayBuffer);
   } catch (error) {
+    if (signal?.aborted) throw error;
     console.error('Error loading TIFF file:', error);
     // Return null - caller should use server-side processing instead
     return null;
   }
 }
 
+/**
+ * Load every page of a TIFF stack
+ * Returns an empty array if the file can't be decoded
+ */
+export async function loadTIFFStack(file: File, signal?: AbortSignal): Promise<TIFFFrame[]> {
+  try {
+    const arrayBuffer = await file.arrayBuffer();
+    return isWorkerPoolSupported()
+      ? await decodeTIFFStackInWorker(arrayBuffer, { signal })
+      : await decodeTIFFPages(arrayBuffer);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error('Error loading TIFF stack:', error);
+    return [];
+  }
+}
+
 /**
  * Load multiple TIFF files as a sequence
- * Files should be named in sequential order (e.g., frame_000.tif, frame_001.tif)
+ * Files should be named in sequential order (e.g., frame_000.tif, frame_001.tif);
+ * multi-page files contribute all their pages in order
+ * Files are decoded in parallel batches across the worker pool
  */
-export async function loadTIFFSequence(files: File[]): Promise<TIFFFrame[]> {
+export async function loadTIFFSequence(
+  files: File[],
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal
+): Promise<TIFFFrame[]> {
   const frames: TIFFFrame[] = [];
   
   // Sort files by name to ensure correct order
-  const sortedFiles = [...files].sort((a, b) => {
-    const aNum = extractFrameNumber(a.name);
-    const bNum = extractFrameNumber(b.name);
-    return aNum - bNum;
-  });
+  const sortedFiles = sortByFrameNumber(files);
 
-  for (let i = 0; i < sortedFiles.length; i++) {
-    const frame = await loadTIFFFile(sortedFiles[i]);
-    if (frame) {
-      frame.frameIndex = i;
+  for (let i = 0; i < sortedFiles.length; i += DECODE_BATCH_SIZE) {
+    signal?.throwIfAborted();
+    const batch = await Promise.all(
+      sortedFiles.slice(i, i + DECODE_BATCH_SIZE).map(file => loadTIFFStack(file, signal))
+    );
+    batch.flat().forEach(frame => {
+      frame.frameIndex = frames.length;
       frames.push(frame);
-    }
+    });
+    const filesDone = Math.min(sortedFiles.length, i + DECODE_BATCH_SIZE);
+    onProgress?.(
+      (filesDone / sortedFiles.length) * 100,
+      `Decoded ${filesDone} of ${sortedFiles.length} files (${frames.length} frames)...`
+    );
   }
 
   return frames;
 }
 
-/**
- * Extract frame number from filename
- * Handles patterns like: frame_000.tif, 000.tif, frame000.tif, etc.
- */
-function extractFrameNumber(filename: string): number {
-  const match = filename.match(/(\d+)/);
-  return match ? parseInt(match[1], 10) : 0;
-}
-
 /**
  * Convert TIFF frame data to ImageData for canvas rendering
  */
@@ -0,0 +1,146 @@
+/**
+ * Key, mode and chord progression for the musical sonification
+ *
+ * Scales are semitone offsets from the key's root, so fractional entries
+ * give microtonal pitches. Progressions are chords of scale degrees, one
+ * chord per bar; cluster notes snap to the current chord's tones.
+ */
+
+import { CalciumDataset } from '../types';
+import { getNeuronEvents } from './spikeInference';
+
+export const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11]; // C major scale intervals
+export const MINOR_SCALE = [0, 2, 3, 5, 7, 8, 10]; // A minor scale intervals
+export const PENTATONIC = [0, 2, 4, 7, 9]; // Pentatonic scale intervals
+
+export type ScaleMode = 'major' | 'minor' | 'pentatonic' | 'dorian' | 'wholeTone' | 'chromatic' | 'microtonal';
+
+export const SCALES: Record<ScaleMode, number[]> = {
+  major: MAJOR_SCALE,
+  minor: MINOR_SCALE,
+  pentatonic: PENTATONIC,
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  wholeTone: [0, 2, 4, 6, 8, 10],
+  chromatic: [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11],
+  microtonal: [0, 2, 3.5, 5, 7, 9, 10.5] // Maqam Rast: neutral third and seventh
+};
+
+export const SCALE_LABELS: Record<ScaleMode, string> = {
+  major: 'Major',
+  minor: 'Minor',
+  pentatonic: 'Pentatonic',
+  dorian: 'Dorian',
+  wholeTone: 'Whole tone',
+  chromatic: 'Chromatic',
+  microtonal: 'Microtonal (Rast)'
+};
+
+// Common chord progressions (as scale degrees)
+export const CHORD_PROGRESSIONS = {
+  // I - V - vi - IV (very common, sounds good)
+  pop: [[0, 2, 4], [4, 6, 1], [5, 7, 9], [3, 5, 7]],
+  // I - vi - IV - V
+  classic: [[0, 2, 4], [5, 7, 9], [3, 5, 7], [4, 6, 1]],
+  // vi - IV - I - V
+  emotional: [[5, 7, 9], [3, 5, 7], [0, 2, 4], [4, 6, 1]],
+  // I - IV - vi - V
+  uplifting: [[0, 2, 4], [3, 5, 7], [5, 7, 9], [4, 6, 1]]
+};
+
+export type ProgressionName = keyof typeof CHORD_PROGRESSIONS;
+
+export const KEY_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export interface Tonality {
+  root: number; // Semitones above C
+  mode: ScaleMode;
+  progression: ProgressionName | null; // null: notes move freely through the scale
+}
+
+export const DEFAULT_TONALITY: Tonality = { root: 0, mode: 'major', progression: null };
+
+// Base frequency for C4
+export const C4 = 261.63;
+
+const BEATS_PER_BAR = 4;
+
+/**
+ * Get note frequency from scale degree
+ * root transposes the scale by semitones above C
+ */
+export function getNoteFrequency(scaleDegree: number, octave: number = 4, scale: number[] = MAJOR_SCALE, root: number = 0): number {
+  const noteInScale = scaleDegree % scale.length;
+  const semitones = root + scale[noteInScale] + (Math.floor(scaleDegree / scale.length) + octave - 4) * 12;
+  return C4 * Math.pow(2, semitones / 12);
+}
+
+/**
+ * Get chord notes from scale degrees
+ */
+export function getChordNotes(chordDegrees: number[], rootOctave: number = 4, scale: number[] = MAJOR_SCALE, root: number = 0): number[] {
+  return chordDegrees.map(degree => getNoteFrequency(degree, rootOctave, scale, root));
+}
+
+/**
+ * Chord for the bar containing a point in time, or null without a progression
+ */
+export function chordAtTime(tonality: Tonality, seconds: number, tempo: number): number[] | null {
+  if (!tonality.progression) return null;
+  const chords = CHORD_PROGRESSIONS[tonality.progression];
+  const bar = Math.floor(seconds / ((BEATS_PER_BAR * 60) / tempo));
+  return chords[bar % chords.length];
+}
+
+/**
+ * Pick a mode from population statistics
+ *
+ * Synchrony is Golomb's chi: the root of the population mean trace's variance
+ * over the mean single-trace variance, near 0 for independent neurons and 1
+ * when all move together. Coherent populations get major, loosely coupled ones
+ * dorian; uncoupled ones get minor, or pentatonic when events are sparse.
+ * Very uneven firing rates across neurons get the unresolved whole-tone scale.
+ */
+export function chooseModeFromActivity(dataset: CalciumDataset): { mode: ScaleMode; reason: string } {
+  const traces = dataset.neurons.map(n => n.trace).filter(trace => trace.length > 1);
+  if (traces.length === 0 || dataset.frames === 0) {
+    return { mode: 'major', reason: 'no activity to analyze' };
+  }
+
+  const frames = Math.min(...traces.map(trace => trace.length));
+  const populationMean = new Float64Array(frames);
+  let meanVariance = 0;
+  traces.forEach(trace => {
+    let sum = 0;
+    let sumSquares = 0;
+    for (let f = 0; f < frames; f++) {
+      sum += trace[f];
+      sumSquares += trace[f] * trace[f];
+      populationMean[f] += trace[f] / traces.length;
+    }
+    const mean = sum / frames;
+    meanVariance += Math.max(0, sumSquares / frames - mean * mean) / traces.length;
+  });
+
+  let popSum = 0;
+  let popSumSquares = 0;
+  populationMean.forEach(value => {
+    popSum += value;
+    popSumSquares += value * value;
+  });
+  const popMean = popSum / frames;
+  const popVariance = Math.max(0, popSumSquares / frames - popMean * popMean);
+  const synchrony = meanVariance > 0 ? Math.min(1, Math.sqrt(popVariance / meanVariance)) : 0;
+
+  const duration = dataset.frames / dataset.fps;
+  const rates = dataset.neurons.map(n => getNeuronEvents(n, dataset.fps).length / duration);
+  const meanRate = rates.reduce((sum, r) => sum + r, 0) / rates.length;
+  const rateStd = Math.sqrt(rates.reduce((sum, r) => sum + (r - meanRate) ** 2, 0) / rates.length);
+  const rateCV = meanRate > 0 ? rateStd / meanRate : 0;
+
+  const stats = `synchrony ${synchrony.toFixed(2)}, ${meanRate.toFixed(2)} events/s per neuron`;
+  if (rateCV > 1.5) return { mode: 'wholeTone', reason: `very uneven firing rates (CV ${rateCV.toFixed(1)})` };
+  if (synchrony >= 0.5) return { mode: 'major', reason: `coherent population (${stats})` };
+  if (synchrony >= 0.25) return { mode: 'dorian', reason: `loosely coupled population (${stats})` };
+  if (meanRate < 0.1) return { mode: 'pentatonic', reason: `sparse, independent firing (${stats})` };
+  return { mode: 'minor', reason: `independent firing (${stats})` };
+}
@@ -0,0 +1,342 @@
+/**
+ * Importers for already-segmented data
+ *
+ * Turns Suite2p output folders and CSV trace exports into a CalciumDataset
+ * without going back to the raw TIFFs. Raw fluorescence goes through the same
+ * trace processing and spike inference as extracted traces, so imported and
+ * extracted datasets sound alike.
+ *
+ * Supported inputs:
+ * - Suite2p: F.npy (required), iscell.npy, stat.npy, Fneu.npy, spks.npy, ops.npy
+ * - Neuron-major CSV: one row per neuron, one column per frame (CaImAn's C matrix,
+ *   plain exports); an optional leading label column names the neurons, and a
+ *   header row or id column of increasing integers (pandas indexes) is skipped
+ * - Time-major CSV (NWB RoiResponseSeries style): one named column per neuron,
+ *   optionally with a time/timestamp/frame column
+ * - Optional ROI CSV alongside either layout: x/y (or centroid_x/centroid_y)
+ *   columns, with an optional id/name column and radius
+ */
+
+import Papa from 'papaparse';
+import { CalciumDataset } from '../types';
+import { createNeurons, resolveFps } from './calciumExtraction';
+import { DEFAULT_TRACE_PROCESSING, processTraces, TraceProcessingOptions } from './traceProcessing';
+import { SpikeEvent } from './spikeInference';
+import { isNpyArray, NpyArray, npyRow, parseNpy } from './npyParser';
+
+export interface TraceImportOptions {
+  fps?: number; // Overrides any rate found in the files
+  traceProcessing?: TraceProcessingOptions;
+  datasetName?: string;
+}
+
+interface ImportedTraces {
+  rawTraces: number[][];
+  names?: string[];
+  coordinates?: Array<number[][] | undefined>;
+  neuropilTraces?: number[][];
+  events?: Array<SpikeEvent[] | undefined>;
+  fps?: number; // Rate detected in the files
+  imageWidth?: number;
+  imageHeight?: number;
+  source: string;
+}
+
+const SUITE2P_FILES = ['F.npy', 'Fneu.npy', 'iscell.npy', 'stat.npy', 'spks.npy', 'ops.npy'];
+const TIME_COLUMN = /^(time|times|timestamp|timestamps|t|t_s|seconds)$/i;
+const FRAME_COLUMN = /^(frame|frames|frame_index)$/i;
+const X_COLUMN = /^(x|cx|centroid_x|center_x|x_px|col)$/i;
+const Y_COLUMN = /^(y|cy|centroid_y|center_y|y_px|row)$/i;
+const ID_COLUMN = /^(id|neuron|neuron_id|roi|roi_id|name|cell|cell_id)$/i;
+const RADIUS_COLUMN = /^(radius|r)$/i;
+// Shorter runs of counting integers could just as well be data
+const MIN_INDEX_LENGTH = 3;
+
+/**
+ * Whether a set of dropped files is something we can import
+ */
+export function isImportableFileSet(files: File[]): boolean {
+  return files.some(f => f.name === 'F.npy' || /\.(csv|tsv|txt|tiff?)$/i.test(f.name));
+}
+
+function isNumeric(cell: string | undefined): boolean {
+  return cell !== undefined && cell.trim() !== '' && Number.isFinite(Number(cell));
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Filled disk of pixels, for ROI tables that only give a centre and radius
+ */
+function diskPixels(cx: number, cy: number, radius: number): number[][] {
+  const pixels: number[][] = [];
+  const r = Math.max(0, Math.round(radius));
+  for (let y = Math.round(cy) - r; y <= Math.round(cy) + r; y++) {
+    for (let x = Math.round(cx) - r; x <= Math.round(cx) + r; x++) {
+      if ((x - cx) * (x - cx) + (y - cy) * (y - cy) <= radius * radius) {
+        pixels.push([x, y]);
+      }
+    }
+  }
+  return pixels.length > 0 ? pixels : [[Math.round(cx), Math.round(cy)]];
+}
+
+function parseCsvRows(text: string): string[][] {
+  const result = Papa.parse<string[]>(text.trim(), { skipEmptyLines: true });
+  if (result.errors.length > 0 && result.data.length === 0) {
+    throw new Error(`Could not parse CSV: ${result.errors[0].message}`);
+  }
+  return result.data.map(row => row.map(cell => String(cell).trim()));
+}
+
+/**
+ * Frame numbers or neuron ids rather than data: consecutive integers counting from 0 or 1
+ */
+function isIndexSequence(cells: string[]): boolean {
+  if (cells.length < MIN_INDEX_LENGTH || !isNumeric(cells[0])) return false;
+  const first = Number(cells[0]);
+  return (first === 0 || first === 1) && cells.every((cell, i) => isNumeric(cell) && Number(cell) === first + i);
+}
+
+function isRoiTable(rows: string[][]): boolean {
+  const header = rows[0] ?? [];
+  return header.some(h => X_COLUMN.test(h)) && header.some(h => Y_COLUMN.test(h))
+    && !header.some(h => TIME_COLUMN.test(h) || FRAME_COLUMN.test(h));
+}
+
+/**
+ * Coordinates per ROI, keyed by id/name when the table has one
+ */
+function parseRoiTable(rows: string[][]): { byId: Map<string, number[][]>; inOrder: number[][][] } {
+  const [header, ...body] = rows;
+  const xCol = header.findIndex(h => X_COLUMN.test(h));
+  const yCol = header.findIndex(h => Y_COLUMN.test(h));
+  const idCol = header.findIndex(h => ID_COLUMN.test(h));
+  const radiusCol = header.findIndex(h => RADIUS_COLUMN.test(h));
+
+  const byId = new Map<string, number[][]>();
+  const inOrder: number[][][] = [];
+  body.forEach(row => {
+    const x = Number(row[xCol]);
+    const y = Number(row[yCol]);
+    if (!Number.isFinite(x) || !Number.isFinite(y)) return;
+    const radius = radiusCol !== -1 ? Number(row[radiusCol]) : NaN;
+    const coordinates = Number.isFinite(radius) && radius > 0 ? diskPixels(x, y, radius) : [[Math.round(x), Math.round(y)]];
+    inOrder.push(coordinates);
+    if (idCol !== -1) byId.set(row[idCol], coordinates);
+  });
+  return { byId, inOrder };
+}
+
+/**
+ * Parse a trace CSV in either neuron-major or time-major layout
+ */
+export function parseTraceCsv(text: string): Omit<ImportedTraces, 'source'> {
+  return parseTraceRows(parseCsvRows(text));
+}
+
+function parseTraceRows(rows: string[][]): Omit<ImportedTraces, 'source'> {
+  if (rows.length === 0) {
+    throw new Error('CSV file is empty');
+  }
+
+  // A leading label column alone doesn't make a header row; frame numbers do,
+  // but a row label like "n1" marks a neuron whose trace just happens to count up
+  const namedColumns = rows[0].slice(1).some(cell => cell !== '' && !isNumeric(cell));
+  const indexHeader = isIndexSequence(rows[0])
+    || ((rows[0][0] === '' || ID_COLUMN.test(rows[0][0])) && isIndexSequence(rows[0].slice(1)));
+  const hasHeader = namedColumns || indexHeader;
+  const header = hasHeader ? rows[0] : [];
+  const body = hasHeader ? rows.slice(1) : rows;
+  const timeCol = header.findIndex(h => TIME_COLUMN.test(h));
+  const frameCol = header.findIndex(h => FRAME_COLUMN.test(h));
+  const labelledRows = body.some(row => row[0] !== '' && !isNumeric(row[0]));
+
+  // Time-major: one row per frame, one column per neuron; named columns over
+  // numeric rows are neurons even without a time column
+  if (timeCol !== -1 || frameCol !== -1 || (namedColumns && !labelledRows)) {
+    const indexCols = new Set([timeCol, frameCol].filter(c => c !== -1));
+    // pandas writes its row index first, under an empty header
+    if (header[0] === '' || isIndexSequence(body.map(row => row[0]))) indexCols.add(0);
+    const neuronCols = header.map((_, c) => c).filter(c => !indexCols.has(c));
+    const rawTraces = neuronCols.map(c => body.map(row => Number(row[c]) || 0));
+
+    let fps: number | undefined;
+    if (timeCol !== -1) {
+      const times = body.map(row => Number(row[timeCol])).filter(Number.isFinite);
+      const interval = median(times.slice(1).map((t, i) => t - times[i]));
+      fps = interval > 0 ? 1 / interval : undefined;
+    }
+
+    return { rawTraces, names: neuronCols.map(c => header[c] || `Neuron ${c + 1}`), fps };
+  }
+
+  // Neuron-major: one row per neuron, optionally labelled in the first column
+  const labelled = labelledRows || isIndexSequence(body.map(row => row[0]));
+  const rawTraces = body.map(row => (labelled ? row.slice(1) : row).map(cell => Number(cell) || 0));
+  const names = labelled ? body.map((row, i) => row[0] || `Neuron ${i + 1}`) : undefined;
+  return { rawTraces, names };
+}
+
+async function readNpy(file: File): Promise<NpyArray> {
+  try {
+    return parseNpy(await file.arrayBuffer());
+  } catch (error) {
+    throw new Error(`${file.name}: ${error instanceof Error ? error.message : 'unreadable'}`);
+  }
+}
+
+function npyRows(array: NpyArray): number[][] {
+  const rows = array.shape.length === 1 ? 1 : array.shape[0];
+  return Array.from({ length: rows }, (_, i) =>
+    array.shape.length === 1 ? Array.from(array.data as ArrayLike<number>) : npyRow(array, i)
+  );
+}
+
+/**
+ * Read a Suite2p plane folder (the files, not the folder itself)
+ * Only ROIs marked as cells in iscell.npy are kept
+ */
+export async function importSuite2p(files: File[]): Promise<ImportedTraces> {
+  const byName = new Map(files.map(f => [f.name, f]));
+  const fFile = byName.get('F.npy');
+  if (!fFile) {
+    throw new Error('Suite2p import needs F.npy');
+  }
+
+  const allTraces = npyRows(await readNpy(fFile));
+  const iscell = byName.has('iscell.npy') ? await readNpy(byName.get('iscell.npy')!) : null;
+  const keep = allTraces.map((_, i) => !iscell || npyRow(iscell, i)[0] > 0.5);
+  const kept = <T,>(values: T[]) => values.filter((_, i) => keep[i]);
+
+  const neuropil = byName.has('Fneu.npy') ? npyRows(await readNpy(byName.get('Fneu.npy')!)) : undefined;
+
+  // Suite2p's own deconvolution, used as events when present
+  const spikes = byName.has('spks.npy') ? npyRows(await readNpy(byName.get('spks.npy')!)) : undefined;
+  const events = spikes?.map(row => {
+    const peak = row.reduce((max, value) => Math.max(max, value), 0);
+    return row
+      .map((amplitude, frame) => ({ frame, amplitude }))
+      .filter(e => e.amplitude > peak * 0.05);
+  });
+
+  let coordinates: Array<number[][] | undefined> | undefined;
+  if (byName.has('stat.npy')) {
+    const stat = (await readNpy(byName.get('stat.npy')!)).data as Array<Record<string, unknown>>;
+    coordinates = stat.map(roi => {
+      const xpix = roi.xpix;
+      const ypix = roi.ypix;
+      if (!isNpyArray(xpix) || !isNpyArray(ypix)) return undefined;
+      const xs = xpix.data as ArrayLike<number>;
+      const ys = ypix.data as ArrayLike<number>;
+      return Array.from({ length: xs.length }, (_, i) => [xs[i], ys[i]]);
+    });
+  }
+
+  let fps: number | undefined;
+  let imageWidth: number | undefined;
+  let imageHeight: number | undefined;
+  if (byName.has('ops.npy')) {
+    const ops = (await readNpy(byName.get('ops.npy')!)).data[0] as Record<string, unknown> | undefined;
+    fps = typeof ops?.fs === 'number' ? ops.fs : undefined;
+    imageWidth = typeof ops?.Lx === 'number' ? ops.Lx : undefined;
+    imageHeight = typeof ops?.Ly === 'number' ? ops.Ly : undefined;
+  }
+
+  return {
+    rawTraces: kept(allTraces),
+    names: kept(allTraces.map((_, i) => `ROI ${i}`)), // Suite2p's own ROI index
+    coordinates: coordinates ? kept(coordinates) : undefined,
+    neuropilTraces: neuropil ? kept(neuropil) : undefined,
+    events: events ? kept(events) : undefined,
+    fps,
+    imageWidth,
+    imageHeight,
+    source: 'Suite2p'
+  };
+}
+
+/**
+ * Read a trace CSV plus an optional ROI CSV
+ */
+export async function importTraceCsvFiles(files: File[]): Promise<ImportedTraces> {
+  const tables = await Promise.all(files.map(async file => ({ file, rows: parseCsvRows(await file.text()) })));
+  const roiTable = tables.find(t => isRoiTable(t.rows));
+  const traceTable = tables.find(t => t !== roiTable);
+  if (!traceTable) {
+    throw new Error('No trace CSV found (an ROI table alone has no activity to sonify)');
+  }
+
+  const traces = parseTraceRows(traceTable.rows);
+  let coordinates: Array<number[][] | undefined> | undefined;
+  if (roiTable) {
+    const rois = parseRoiTable(roiTable.rows);
+    coordinates = traces.rawTraces.map((_, i) => {
+      const name = traces.names?.[i];
+      return (name !== undefined ? rois.byId.get(name) : undefined) ?? rois.inOrder[i];
+    });
+  }
+
+  return { ...traces, coordinates, source: 'CSV' };
+}
+
+/**
+ * Import dropped files as a CalciumDataset
+ */
+export async function importDatasetFromFiles(files: File[], options: TraceImportOptions = {}): Promise<CalciumDataset> {
+  const isSuite2p = files.some(f => f.name === 'F.npy');
+  const relevant = isSuite2p
+    ? files.filter(f => SUITE2P_FILES.includes(f.name))
+    : files.filter(f => /\.(csv|tsv|txt)$/i.test(f.name));
+  if (relevant.length === 0) {
+    throw new Error('Drop Suite2p outputs (F.npy, iscell.npy, stat.npy, ...) or a CSV of traces');
+  }
+
+  const imported = isSuite2p ? await importSuite2p(relevant) : await importTraceCsvFiles(relevant);
+  const frames = Math.max(0, ...imported.rawTraces.map(t => t.length));
+  if (imported.rawTraces.length === 0 || frames === 0) {
+    throw new Error(`${imported.source} import found no traces`);
+  }
+
+  // Pad ragged rows so every neuron covers every frame
+  const rawTraces = imported.rawTraces.map(t => t.length < frames ? [...t, ...new Array(frames - t.length).fill(0)] : t);
+  const fps = resolveFps(options.fps ?? imported.fps);
+  const traceProcessing = options.traceProcessing ?? DEFAULT_TRACE_PROCESSING;
+  const traces = processTraces(rawTraces, fps, traceProcessing, imported.neuropilTraces);
+
+  const neurons = createNeurons(traces, rawTraces, fps, {
+    coordinates: imported.coordinates,
+    names: imported.names,
+    events: imported.events
+  });
+
+  // Fall back to the ROI extent when the files don't state the field of view
+  const allCoordinates = neurons.flatMap(n => n.coordinates ?? []);
+  const extent = (axis: number) => allCoordinates.length > 0
+    ? allCoordinates.reduce((max, c) => Math.max(max, c[axis]), 0) + 1
+    : undefined;
+  const imageWidth = imported.imageWidth ?? extent(0);
+  const imageHeight = imported.imageHeight ?? extent(1);
+
+  const datasetName = options.datasetName
+    ?? `${imported.source}: ${(isSuite2p ? relevant.find(f => f.name === 'F.npy')! : relevant[0]).name}`;
+
+  return {
+    neurons,
+    frames,
+    fps,
+    datasetName,
+    imageWidth,
+    imageHeight,
+    traceProcessing,
+    metadata: {
+      source: imported.source,
+      condition: 'unknown',
+      description: `Imported from ${relevant.map(f => f.name).join(', ')}`
+    }
+  };
+}
@@ -0,0 +1,236 @@
+/**
+ * Trace processing: neuropil subtraction, baseline estimation and normalization
+ *
+ * Turns raw ROI fluorescence into ΔF/F or z-scored traces so amplitudes stay
+ * comparable between neurons and between datasets. The legacy min-max
+ * normalization is kept as an option for the sonification defaults.
+ */
+
+import { TIFFFrame } from './tiffLoader';
+import { ROI } from './calciumExtraction';
+
+export type TraceNormalization = 'minmax' | 'dff' | 'zscore';
+export type BaselineMethod = 'sliding-percentile' | 'global-percentile';
+
+export interface TraceProcessingOptions {
+  normalization: TraceNormalization;
+  baseline: BaselineMethod;
+  baselinePercentile: number; // 0-100
+  baselineWindowSeconds: number; // Sliding window length
+  neuropil: boolean; // Subtract surrounding neuropil before normalizing
+  neuropilCoefficient: number; // Fraction of the neuropil signal to remove (typically 0.7)
+  neuropilGap: number; // Pixels between the ROI edge and the annulus
+  neuropilWidth: number; // Annulus thickness in pixels
+}
+
+export const DEFAULT_TRACE_PROCESSING: TraceProcessingOptions = {
+  normalization: 'minmax',
+  baseline: 'sliding-percentile',
+  baselinePercentile: 10,
+  baselineWindowSeconds: 30,
+  neuropil: false,
+  neuropilCoefficient: 0.7,
+  neuropilGap: 2,
+  neuropilWidth: 6
+};
+
+/**
+ * Value at a percentile of a sorted array, with linear interpolation
+ */
+function percentileOfSorted(sorted: number[], percentile: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = (Math.max(0, Math.min(100, percentile)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+/**
+ * Index at which value should be inserted to keep a sorted array sorted
+ */
+function sortedIndex(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (sorted[mid] < value) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+}
+
+/**
+ * Baseline F0 as a percentile of a centred sliding window
+ * Tracks slow drift (bleaching, focus changes) that a single global percentile misses
+ */
+export function slidingPercentileBaseline(trace: number[], windowFrames: number, percentile: number): number[] {
+  const n = trace.length;
+  if (n === 0) return [];
+  const half = Math.max(1, Math.floor(windowFrames / 2));
+
+  // Sorted copy of the current window, updated incrementally as it slides
+  const window: number[] = trace.slice(0, Math.min(n, half + 1)).sort((a, b) => a - b);
+  const baseline: number[] = new Array(n);
+
+  for (let i = 0; i < n; i++) {
+    baseline[i] = percentileOfSorted(window, percentile);
+
+    const entering = i + half + 1;
+    if (entering < n) {
+      window.splice(sortedIndex(window, trace[entering]), 0, trace[entering]);
+    }
+    const leaving = i - half;
+    if (leaving >= 0) {
+      window.splice(sortedIndex(window, trace[leaving]), 1);
+    }
+  }
+
+  return baseline;
+}
+
+/**
+ * Baseline F0 as one percentile of the whole trace
+ */
+export function globalPercentileBaseline(trace: number[], percentile: number): number[] {
+  const value = percentileOfSorted([...trace].sort((a, b) => a - b), percentile);
+  return trace.map(() => value);
+}
+
+/**
+ * ΔF/F = (F - F0) / F0
+ * F0 is floored at a small fraction of the mean fluorescence so dim or
+ * neuropil-corrected traces don't divide by ~0
+ */
+export function computeDeltaFOverF(trace: number[], baseline: number[]): number[] {
+  const meanAbs = trace.reduce((sum, v) => sum + Math.abs(v), 0) / (trace.length || 1);
+  const floor = Math.max(1e-6, meanAbs * 1e-3);
+  return trace.map((f, i) => (f - baseline[i]) / Math.max(floor, Math.abs(baseline[i])));
+}
+
+/**
+ * Standardize a trace to zero mean and unit variance
+ */
+export function zScore(trace: number[]): number[] {
+  if (trace.length === 0) return [];
+  const mean = trace.reduce((sum, v) => sum + v, 0) / trace.length;
+  const variance = trace.reduce((sum, v) => sum + (v - mean) * (v - mean), 0) / trace.length;
+  const std = Math.sqrt(variance);
+  return std > 0 ? trace.map(v => (v - mean) / std) : trace.map(() => 0);
+}
+
+/**
+ * Legacy normalization: subtract the 10th percentile and divide by the peak
+ */
+export function minMaxNormalize(trace: number[]): number[] {
+  const sorted = [...trace].sort((a, b) => a - b);
+  const baseline = sorted[Math.floor(sorted.length * 0.1)];
+  const max = Math.max(...trace.map(v => v - baseline));
+
+  if (max === 0) return trace.map(() => 0);
+
+  return trace.map(v => Math.max(0, (v - baseline) / max));
+}
+
+/**
+ * Pixels of the neuropil annulus around each ROI
+ * The ring starts `gap` pixels beyond the ROI's equivalent radius and excludes
+ * pixels that belong to any ROI, so neighbouring cells don't leak in
+ */
+export function computeNeuropilMasks(
+  rois: ROI[],
+  width: number,
+  height: number,
+  gap: number,
+  ringWidth: number
+): number[][] {
+  const occupied = new Uint8Array(width * height);
+  rois.forEach(roi => {
+    roi.pixels.forEach(([x, y]) => {
+      if (x >= 0 && x < width && y >= 0 && y < height) {
+        occupied[y * width + x] = 1;
+      }
+    });
+  });
+
+  return rois.map(roi => {
+    if (roi.pixelCount === 0) return [];
+
+    const [cx, cy] = roi.centroid;
+    const radius = Math.sqrt(roi.pixelCount / Math.PI);
+    const inner = radius + gap;
+    const outer = inner + ringWidth;
+    const indices: number[] = [];
+
+    const minY = Math.max(0, Math.floor(cy - outer));
+    const maxY = Math.min(height - 1, Math.ceil(cy + outer));
+    const minX = Math.max(0, Math.floor(cx - outer));
+    const maxX = Math.min(width - 1, Math.ceil(cx + outer));
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const index = y * width + x;
+        if (occupied[index]) continue;
+        const dist = Math.sqrt((x - cx) * (x - cx) + (y - cy) * (y - cy));
+        if (dist >= inner && dist <= outer) {
+          indices.push(index);
+        }
+      }
+    }
+
+    return indices;
+  });
+}
+
+/**
+ * Mean fluorescence of each neuropil annulus over time
+ */
+export function extractNeuropilTraces(frames: TIFFFrame[], neuropilMasks: number[][]): number[][] {
+  return neuropilMasks.map(indices =>
+    frames.map(frame => {
+      let sum = 0;
+      let count = 0;
+      for (const index of indices) {
+        if (index < frame.data.length) {
+          sum += frame.data[index];
+          count++;
+        }
+      }
+      return count > 0 ? sum / count : 0;
+    })
+  );
+}
+
+/**
+ * Process raw ROI traces into normalized traces
+ * neuropilTraces must line up with rawTraces when options.neuropil is set
+ */
+export function processTraces(
+  rawTraces: number[][],
+  fps: number,
+  options: TraceProcessingOptions = DEFAULT_TRACE_PROCESSING,
+  neuropilTraces?: number[][]
+): number[][] {
+  return rawTraces.map((raw, i) => {
+    const neuropil = options.neuropil ? neuropilTraces?.[i] : undefined;
+    const corrected = neuropil
+      ? raw.map((f, t) => f - options.neuropilCoefficient * (neuropil[t] ?? 0))
+      : raw;
+
+    switch (options.normalization) {
+      case 'dff': {
+        const baseline = options.baseline === 'sliding-percentile'
+          ? slidingPercentileBaseline(corrected, Math.round(options.baselineWindowSeconds * fps), options.baselinePercentile)
+          : globalPercentileBaseline(corrected, options.baselinePercentile);
+        return computeDeltaFOverF(corrected, baseline);
+      }
+      case 'zscore':
+        return zScore(corrected);
+      case 'minmax':
+      default:
+        return minMaxNormalize(corrected);
+    }
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * Worker pool for the heavy parts of the loading pipeline
+ *
+ * Runs TIFF decoding, ROI detection, trace extraction, the PCA/clustering
+ * analysis and trace correlations in background workers so the UI keeps responding on
+ * multi-thousand-frame stacks. Tasks report progress with the same
+ * (progress, message) shape as the dataset fetchers and can be cancelled
+ * with an AbortSignal, which terminates the worker running them.
+ */
+
+import { CalciumDataset } from '../types';
+import { TIFFFrame } from './tiffLoader';
+import { DatasetConversionOptions } from './calciumExtraction';
+import { AnalysisInput, DatasetAnalysis } from './clusterAnalysis';
+import { ClusteringSettings, DEFAULT_CLUSTERING } from './clusteringMethods';
+import {
+  DatasetMetadataFields,
+  PackedDataset,
+  PipelineRequest,
+  PipelineResponse,
+  frameTransferables,
+  packAnalysisInput,
+  unpackDataset
+} from '../workers/pipelineProtocol';
+
+export interface WorkerTaskOptions {
+  onProgress?: (progress: number, message: string) => void;
+  signal?: AbortSignal;
+}
+
+interface PendingTask {
+  id: number;
+  request: PipelineRequest;
+  transfer: Transferable[];
+  options: WorkerTaskOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task: PendingTask | null;
+}
+
+const MAX_WORKERS = typeof navigator !== 'undefined'
+  ? Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))
+  : 1;
+
+const workers: PoolWorker[] = [];
+const queue: PendingTask[] = [];
+let nextTaskId = 1;
+
+export function isWorkerPoolSupported(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+function abortError(): Error {
+  return new DOMException('The operation was cancelled', 'AbortError');
+}
+
+function createWorker(): PoolWorker {
+  const slot: PoolWorker = {
+    worker: new Worker(new URL('../workers/pipeline.worker.ts', import.meta.url), { type: 'module' }),
+    task: null
+  };
+
+  slot.worker.onmessage = (event: MessageEvent<PipelineResponse>) => {
+    const response = event.data;
+    const task = slot.task;
+    if (!task || task.id !== response.id) return;
+
+    if (response.type === 'progress') {
+      task.options.onProgress?.(response.progress, response.message);
+      return;
+    }
+
+    slot.task = null;
+    task.cleanup();
+    if (response.type === 'result') {
+      task.resolve(response.result);
+    } else {
+      task.reject(new Error(response.message));
+    }
+    dispatch();
+  };
+
+  // A crashed worker can't be trusted with more tasks; fail its task and replace it
+  slot.worker.onerror = (event: ErrorEvent) => {
+    event.preventDefault();
+    const task = slot.task;
+    removeWorker(slot);
+    if (task) {
+      task.cleanup();
+      task.reject(new Error(event.message || 'Worker failed'));
+    }
+    dispatch();
+  };
+
+  workers.push(slot);
+  return slot;
+}
+
+function removeWorker(slot: PoolWorker): void {
+  slot.worker.terminate();
+  const index = workers.indexOf(slot);
+  if (index !== -1) workers.splice(index, 1);
+}
+
+/**
+ * Hand queued tasks to idle workers, spawning up to MAX_WORKERS
+ */
+function dispatch(): void {
+  while (queue.length > 0) {
+    const slot = workers.find(w => w.task === null)
+      ?? (workers.length < MAX_WORKERS ? createWorker() : null);
+    if (!slot) return;
+
+    const task = queue.shift()!;
+    slot.task = task;
+    slot.worker.postMessage({ id: task.id, request: task.request }, task.transfer);
+  }
+}
+
+/**
+ * Queue a request on the pool
+ * Buffers in `transfer` are detached from the caller as soon as the task starts
+ */
+function runTask<T>(request: PipelineRequest, transfer: Transferable[], options: WorkerTaskOptions = {}): Promise<T> {
+  const { signal } = options;
+  if (signal?.aborted) return Promise.reject(abortError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      const queuedIndex = queue.indexOf(task);
+      if (queuedIndex !== -1) {
+        queue.splice(queuedIndex, 1);
+      } else {
+        // Running: terminating is the only way to stop synchronous work in the worker
+        const slot = workers.find(w => w.task === task);
+        if (slot) removeWorker(slot);
+      }
+      task.cleanup();
+      reject(abortError());
+      dispatch();
+    };
+
+    const task: PendingTask = {
+      id: nextTaskId++,
+      request,
+      transfer,
+      options,
+      resolve: result => resolve(result as T),
+      reject,
+      cleanup: () => signal?.removeEventListener('abort', onAbort)
+    };
+
+    signal?.addEventListener('abort', onAbort);
+    queue.push(task);
+    dispatch();
+  });
+}
+
+/**
+ * Decode the first page of a TIFF file in a worker
+ */
+export async function decodeTIFFInWorker(buffer: ArrayBuffer, options?: WorkerTaskOptions): Promise<TIFFFrame> {
+  const [frame] = await runTask<TIFFFrame[]>({ type: 'decode-tiff', buffer }, [buffer], options);
+  return frame;
+}
+
+/**
+ * Decode every page of a TIFF stack in a worker
+ */
+export function decodeTIFFStackInWorker(buffer: ArrayBuffer, options?: WorkerTaskOptions): Promise<TIFFFrame[]> {
+  return runTask<TIFFFrame[]>({ type: 'decode-tiff', buffer, allPages: true }, [buffer], options);
+}
+
+/**
+ * Detect ROIs and extract processed traces in a worker (see framesToCalciumDataset)
+ * The frames' pixel buffers are transferred to the worker and come back on the
+ * returned dataset's frameImages; the input frames are unusable afterwards
+ */
+export async function extractDatasetInWorker(
+  frames: TIFFFrame[],
+  regions?: any[],
+  metadata?: DatasetMetadataFields,
+  conversionOptions: Omit<DatasetConversionOptions, 'onProgress' | 'signal'> = {},
+  options?: WorkerTaskOptions
+): Promise<CalciumDataset> {
+  const packed = await runTask<PackedDataset>(
+    {
+      type: 'extract-dataset',
+      frames,
+      regions,
+      metadata,
+      fps: conversionOptions.fps,
+      traceProcessing: conversionOptions.traceProcessing,
+      motionCorrection: conversionOptions.motionCorrection,
+      segmentation: conversionOptions.segmentation
+    },
+    frameTransferables(frames),
+    options
+  );
+  return unpackDataset(packed);
+}
+
+/**
+ * Stream TIFF files (single pages or whole stacks) through ROI detection and
+ * trace extraction in a worker; the returned dataset has no frameImages
+ */
+export async function extractStackInWorker(
+  files: File[],
+  regions?: any[],
+  metadata?: DatasetMetadataFields,
+  conversionOptions: Omit<DatasetConversionOptions, 'onProgress' | 'signal'> = {},
+  options?: WorkerTaskOptions
+): Promise<CalciumDataset> {
+  const packed = await runTask<PackedDataset>(
+    {
+      type: 'extract-stack',
+      files,
+      regions,
+      metadata,
+      fps: conversionOptions.fps,
+      traceProcessing: conversionOptions.traceProcessing,
+      motionCorrection: conversionOptions.motionCorrection,
+      segmentation: conversionOptions.segmentation
+    },
+    [],
+    options
+  );
+  return unpackDataset(packed);
+}
+
+/**
+ * Run the PCA + clustering analysis in a worker (see analyzeDataset)
+ */
+export function analyzeDatasetInWorker(
+  dataset: AnalysisInput,
+  numClusters: number,
+  clustering: ClusteringSettings = DEFAULT_CLUSTERING,
+  options?: WorkerTaskOptions
+): Promise<DatasetAnalysis> {
+  const input = packAnalysisInput(dataset);
+  return runTask<DatasetAnalysis>(
+    { type: 'analyze', input, numClusters, clustering },
+    input.neurons.map(neuron => neuron.trace.buffer as ArrayBuffer),
+    options
+  );
+}
+
+/**
+ * Pairwise trace correlations in a worker (see correlationMatrix)
+ */
+export function correlateTracesInWorker(
+  traces: number[][],
+  maxLag: number = 0,
+  options?: WorkerTaskOptions
+): Promise<Float64Array> {
+  const packed = traces.map(trace => Float64Array.from(trace));
+  return runTask<Float64Array>(
+    { type: 'correlate', traces: packed, maxLag },
+    packed.map(trace => trace.buffer as ArrayBuffer),
+    options
+  );
+}
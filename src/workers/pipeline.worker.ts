@@ -0,0 +1,85 @@
+/**
+ * Pipeline worker: TIFF decoding, trace extraction, cluster analysis and
+ * trace correlations
+ * off the main thread. Spawned and scheduled by utils/workerPool.
+ */
+
+import { decodeTIFF, decodeTIFFPages } from '../utils/tiffDecode';
+import { framesToCalciumDataset } from '../utils/calciumExtraction';
+import { createTIFFFrameSource } from '../utils/frameSource';
+import { analyzeDataset } from '../utils/clusterAnalysis';
+import { correlationMatrix } from '../utils/functionalClustering';
+import {
+  PipelineMessage,
+  PipelineResponse,
+  datasetTransferables,
+  frameTransferables,
+  packDataset,
+  unpackAnalysisInput
+} from './pipelineProtocol';
+
+// The DOM lib has no worker global scope; Worker has the postMessage/onmessage shape we need
+const ctx = self as unknown as Worker;
+
+const respond = (response: PipelineResponse, transfer: Transferable[] = []) => {
+  ctx.postMessage(response, transfer);
+};
+
+ctx.onmessage = async (event: MessageEvent<PipelineMessage>) => {
+  const { id, request } = event.data;
+  const onProgress = (progress: number, message: string) => {
+    respond({ id, type: 'progress', progress, message });
+  };
+
+  try {
+    switch (request.type) {
+      case 'decode-tiff': {
+        const frames = request.allPages
+          ? await decodeTIFFPages(request.buffer)
+          : [await decodeTIFF(request.buffer)];
+        respond({ id, type: 'result', result: frames }, frameTransferables(frames));
+        break;
+      }
+      case 'extract-dataset': {
+        const dataset = await framesToCalciumDataset(request.frames, request.regions, request.metadata, {
+          fps: request.fps,
+          traceProcessing: request.traceProcessing,
+          motionCorrection: request.motionCorrection,
+          segmentation: request.segmentation,
+          onProgress
+        });
+        const packed = packDataset(dataset);
+        respond({ id, type: 'result', result: packed }, datasetTransferables(packed));
+        break;
+      }
+      case 'extract-stack': {
+        onProgress(0, 'Reading TIFF headers...');
+        const source = await createTIFFFrameSource(request.files);
+        const dataset = await framesToCalciumDataset(source, request.regions, request.metadata, {
+          fps: request.fps,
+          traceProcessing: request.traceProcessing,
+          motionCorrection: request.motionCorrection,
+          segmentation: request.segmentation,
+          onProgress
+        });
+        const packed = packDataset(dataset);
+        respond({ id, type: 'result', result: packed }, datasetTransferables(packed));
+        break;
+      }
+      case 'analyze': {
+        onProgress(0, 'Clustering neurons...');
+        const analysis = analyzeDataset(unpackAnalysisInput(request.input), request.numClusters, request.clustering);
+        respond({ id, type: 'result', result: analysis });
+        break;
+      }
+      case 'correlate': {
+        onProgress(0, 'Correlating traces...');
+        const matrix = correlationMatrix(request.traces, request.maxLag);
+        respond({ id, type: 'result', result: matrix }, [matrix.buffer]);
+        break;
+      }
+    }
+  } catch (error) {
+    respond({ id, type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
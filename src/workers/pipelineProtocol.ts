@@ -0,0 +1,127 @@
+/**
+ * Messages between the worker pool and the pipeline worker
+ *
+ * Pixel data and traces cross the thread boundary as typed arrays in the
+ * transfer list, so large stacks move without being copied.
+ */
+
+import { Neuron, CalciumDataset } from '../types';
+import { TIFFFrame } from '../utils/tiffLoader';
+import { TraceProcessingOptions } from '../utils/traceProcessing';
+import { MotionCorrectionOptions } from '../utils/motionCorrection';
+import { SegmentationOptions } from '../utils/roiSegmentation';
+import { AnalysisInput } from '../utils/clusterAnalysis';
+import { ClusteringSettings } from '../utils/clusteringMethods';
+
+export type DatasetMetadataFields = NonNullable<CalciumDataset['metadata']> & { datasetName?: string };
+
+export type PipelineRequest =
+  | { type: 'decode-tiff'; buffer: ArrayBuffer; allPages?: boolean } // Result is always TIFFFrame[]
+  | {
+      type: 'extract-dataset';
+      frames: TIFFFrame[];
+      regions?: any[];
+      metadata?: DatasetMetadataFields;
+      fps?: number;
+      traceProcessing?: TraceProcessingOptions;
+      motionCorrection?: MotionCorrectionOptions;
+      segmentation?: SegmentationOptions;
+    }
+  | {
+      type: 'extract-stack';
+      files: File[]; // Streamed page by page in the worker, never decoded all at once
+      regions?: any[];
+      metadata?: DatasetMetadataFields;
+      fps?: number;
+      traceProcessing?: TraceProcessingOptions;
+      motionCorrection?: MotionCorrectionOptions;
+      segmentation?: SegmentationOptions;
+    }
+  | { type: 'analyze'; input: PackedAnalysisInput; numClusters: number; clustering: ClusteringSettings }
+  | { type: 'correlate'; traces: Float64Array[]; maxLag: number };
+
+export interface PipelineMessage {
+  id: number;
+  request: PipelineRequest;
+}
+
+export type PipelineResponse =
+  | { id: number; type: 'progress'; progress: number; message: string }
+  | { id: number; type: 'result'; result: unknown }
+  | { id: number; type: 'error'; message: string };
+
+export type PackedNeuron = Omit<Neuron, 'trace' | 'rawTrace'> & {
+  trace: Float64Array;
+  rawTrace?: Float64Array;
+};
+
+export type PackedDataset = Omit<CalciumDataset, 'neurons'> & { neurons: PackedNeuron[] };
+
+export type PackedAnalysisInput = Omit<AnalysisInput, 'neurons'> & {
+  neurons: Array<{ trace: Float64Array; coordinates?: number[][] }>;
+};
+
+export function packDataset(dataset: CalciumDataset): PackedDataset {
+  return {
+    ...dataset,
+    neurons: dataset.neurons.map(neuron => ({
+      ...neuron,
+      trace: Float64Array.from(neuron.trace),
+      rawTrace: neuron.rawTrace ? Float64Array.from(neuron.rawTrace) : undefined
+    }))
+  };
+}
+
+export function unpackDataset(packed: PackedDataset): CalciumDataset {
+  return {
+    ...packed,
+    neurons: packed.neurons.map(neuron => ({
+      ...neuron,
+      trace: Array.from(neuron.trace),
+      rawTrace: neuron.rawTrace ? Array.from(neuron.rawTrace) : undefined
+    }))
+  };
+}
+
+export function packAnalysisInput(dataset: AnalysisInput): PackedAnalysisInput {
+  return {
+    datasetName: dataset.datasetName,
+    frames: dataset.frames,
+    imageWidth: dataset.imageWidth,
+    imageHeight: dataset.imageHeight,
+    neurons: dataset.neurons.map(neuron => ({
+      trace: Float64Array.from(neuron.trace),
+      coordinates: neuron.coordinates
+    }))
+  };
+}
+
+export function unpackAnalysisInput(packed: PackedAnalysisInput): AnalysisInput {
+  return {
+    ...packed,
+    neurons: packed.neurons.map(neuron => ({
+      trace: Array.from(neuron.trace),
+      coordinates: neuron.coordinates
+    }))
+  };
+}
+
+/**
+ * Buffers to hand over with a packed dataset (frame pixels and traces)
+ */
+export function datasetTransferables(packed: PackedDataset): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  packed.frameImages?.forEach(frame => buffers.add(frame.data.buffer as ArrayBuffer));
+  packed.neurons.forEach(neuron => {
+    buffers.add(neuron.trace.buffer as ArrayBuffer);
+    if (neuron.rawTrace) buffers.add(neuron.rawTrace.buffer as ArrayBuffer);
+  });
+  return [...buffers];
+}
+
+/**
+ * Buffers to hand over with a set of frames
+ */
+export function frameTransferables(frames: TIFFFrame[]): ArrayBuffer[] {
+  return [...new Set(frames.map(frame => frame.data.buffer as ArrayBuffer))];
+}
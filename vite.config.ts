@@ -16,6 +16,9 @@ export default defineConfig({
       }
     }
   },
+  worker: {
+    format: 'es' // The pipeline worker lazy-loads geotiff, which needs code splitting
+  },
   optimizeDeps: {
     exclude: ['geotiff']
   }